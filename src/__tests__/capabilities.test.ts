@@ -0,0 +1,98 @@
+import { checkCapabilities, findCapabilityMismatches, DEFAULT_PLUGIN_CAPABILITIES } from '../capabilities';
+import { capabilities as githubCapabilities } from '../platforms/github';
+import { capabilities as genericCapabilities } from '../platforms/generic';
+import { Logger } from '../logger';
+import { OnExists } from '../types';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const baseInputs = {
+  tagMessage: undefined as string | undefined,
+  gpgSign: false,
+  gitUserName: undefined as string | undefined,
+  gitUserEmail: undefined as string | undefined,
+  tagDate: undefined as string | undefined,
+  onExists: 'skip' as OnExists,
+  pushTag: true,
+  strictCapabilities: false
+};
+
+describe('findCapabilityMismatches', () => {
+  it('should report nothing for a plain tag the platform supports', () => {
+    expect(findCapabilityMismatches('gitlab', DEFAULT_PLUGIN_CAPABILITIES, { ...baseInputs, tagMessage: 'Release' })).toEqual([]);
+  });
+
+  it('should report every ignored input', () => {
+    const mismatches = findCapabilityMismatches('github', githubCapabilities, {
+      ...baseInputs,
+      tagMessage: 'Release',
+      gpgSign: true,
+      gitUserName: 'Release Bot',
+      onExists: 'update',
+      pushTag: false
+    });
+
+    expect(mismatches).toEqual([
+      'github cannot sign tags; gpg_sign is ignored',
+      'github creates tags on the server directly; push_tag: false is ignored'
+    ]);
+  });
+
+  it('should report non-atomic updates', () => {
+    expect(findCapabilityMismatches('gitlab', DEFAULT_PLUGIN_CAPABILITIES, { ...baseInputs, tagMessage: 'Release', onExists: 'update-if-different' })).toEqual([
+      'gitlab cannot move a tag atomically; an existing tag is deleted and recreated (and restored if recreation fails)'
+    ]);
+  });
+
+  it('should report lightweight tags on platforms that always annotate', () => {
+    expect(findCapabilityMismatches('github', { ...githubCapabilities, lightweight: false }, baseInputs)).toEqual([
+      'github cannot create lightweight tags; an annotated tag with a placeholder message is created instead'
+    ]);
+  });
+
+  it('should report a tagger or tag date the platform cannot set', () => {
+    expect(
+      findCapabilityMismatches('gitlab', DEFAULT_PLUGIN_CAPABILITIES, { ...baseInputs, tagMessage: 'Release', tagDate: '2024-01-01T00:00:00Z' })
+    ).toEqual(['gitlab cannot set the tagger; git_user_name/git_user_email/tag_date are ignored']);
+  });
+
+  it('should only check the tagger for annotated tags', () => {
+    expect(findCapabilityMismatches('gitlab', DEFAULT_PLUGIN_CAPABILITIES, { ...baseInputs, gitUserEmail: 'bot@example.com' })).toEqual([]);
+  });
+
+  it('should accept signing and push_tag: false for the Git CLI', () => {
+    expect(
+      findCapabilityMismatches('generic', genericCapabilities, { ...baseInputs, tagMessage: 'Release', gpgSign: true, pushTag: false })
+    ).toEqual([]);
+  });
+});
+
+describe('checkCapabilities', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should warn about mismatches by default', () => {
+    checkCapabilities('github', githubCapabilities, { ...baseInputs, tagMessage: 'Release', gpgSign: true }, mockLogger);
+
+    expect(mockLogger.warning).toHaveBeenCalledWith('github cannot sign tags; gpg_sign is ignored');
+  });
+
+  it('should throw on mismatches with strict_capabilities', () => {
+    expect(() =>
+      checkCapabilities('github', githubCapabilities, { ...baseInputs, tagMessage: 'Release', gpgSign: true, strictCapabilities: true }, mockLogger)
+    ).toThrow('Unsupported inputs for github (strict_capabilities): github cannot sign tags; gpg_sign is ignored');
+    expect(mockLogger.warning).not.toHaveBeenCalled();
+  });
+
+  it('should not warn when everything is supported', () => {
+    checkCapabilities('generic', genericCapabilities, { ...baseInputs, strictCapabilities: true }, mockLogger);
+
+    expect(mockLogger.warning).not.toHaveBeenCalled();
+  });
+});
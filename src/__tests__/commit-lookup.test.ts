@@ -0,0 +1,56 @@
+import { CommitNotFoundError, lookupCommit, lookupRef } from '../commit-lookup';
+
+const FULL_SHA = 'abc1234def5678abc1234def5678abc1234def56';
+
+describe('lookupCommit', () => {
+  it('should return the full SHA the platform resolved', async () => {
+    expect(await lookupCommit('abc1234', 'owner/repo', async () => FULL_SHA)).toBe(FULL_SHA);
+  });
+
+  it('should report 404 and 422 responses as a missing commit', async () => {
+    await expect(
+      lookupCommit('abc1234', 'owner/repo', async () => {
+        throw new Error('HTTP 422 Unprocessable Entity: {"message":"No commit found for SHA: abc1234"}');
+      })
+    ).rejects.toThrow(new CommitNotFoundError('abc1234', 'owner/repo'));
+    await expect(
+      lookupCommit('abc1234', 'owner/repo', async () => {
+        throw new Error('HTTP 404 Not Found: {}');
+      })
+    ).rejects.toThrow('abc1234 does not name a commit in owner/repo');
+  });
+
+  it('should reject a commit that does not extend the requested SHA', async () => {
+    await expect(lookupCommit('fff0000', 'owner/repo', async () => FULL_SHA)).rejects.toThrow(CommitNotFoundError);
+  });
+
+  it('should pass other errors through', async () => {
+    await expect(
+      lookupCommit('abc1234', 'owner/repo', async () => {
+        throw new Error('HTTP 401 Unauthorized: {}');
+      })
+    ).rejects.toThrow('HTTP 401 Unauthorized');
+  });
+});
+
+describe('lookupRef', () => {
+  const lookups = {
+    branch: jest.fn(async (name: string) => (name === 'release/1.x' || name === 'both' ? `branch-${name}` : undefined)),
+    tag: jest.fn(async (name: string) => (name === 'v1.0.0' || name === 'both' ? `tag-${name}` : undefined))
+  };
+
+  it('should resolve fully qualified branch and tag refs', async () => {
+    expect(await lookupRef('refs/heads/release/1.x', 'owner/repo', lookups)).toBe('branch-release/1.x');
+    expect(await lookupRef('refs/tags/v1.0.0', 'owner/repo', lookups)).toBe('tag-v1.0.0');
+  });
+
+  it('should look a bare name up as a tag before a branch', async () => {
+    expect(await lookupRef('both', 'owner/repo', lookups)).toBe('tag-both');
+    expect(await lookupRef('release/1.x', 'owner/repo', lookups)).toBe('branch-release/1.x');
+  });
+
+  it('should fail for missing refs and refs outside heads and tags', async () => {
+    await expect(lookupRef('missing', 'owner/repo', lookups)).rejects.toThrow('missing does not name a commit in owner/repo');
+    await expect(lookupRef('refs/pull/1/head', 'owner/repo', lookups)).rejects.toThrow('only refs/heads/ and refs/tags/');
+  });
+});
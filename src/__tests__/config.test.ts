@@ -46,15 +46,72 @@ describe('getInputs', () => {
     expect(() => getInputs()).toThrow('tag_name is required');
   });
 
-  it('should throw error if tag_name contains forward slash', () => {
+  it.each(['release/1.2.0', 'pkg/foo/v1.0.0', 'module/v2.1.0'])('should accept hierarchical tag name %s', (tagName) => {
     (core.getInput as jest.Mock).mockImplementation((name: string) => {
-      if (name === 'tag_name') return 'v1/0/0';
+      if (name === 'tag_name') return tagName;
+      return '';
+    });
+
+    expect(getInputs().tagName).toBe(tagName);
+  });
+
+  it.each(['/v1.0.0', 'release/', 'release//1.2.0'])('should throw error if tag_name %s has an empty path component', (tagName) => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return tagName;
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('Invalid tag name');
+  });
+
+  it.each(['v1..2', 'foo.lock', 'v1@{0}', 'v1\u0007'])('should throw error if tag_name %j breaks git ref rules', (tagName) => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return tagName;
       return '';
     });
 
     expect(() => getInputs()).toThrow('Invalid tag name');
   });
 
+  it('should normalize tag_name to Unicode NFC', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'versio\u0301n-1';
+      return '';
+    });
+
+    expect(getInputs().tagName).toBe('versi\u00f3n-1');
+  });
+
+  it('should accept tag names matching tag_name_pattern', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.2.3';
+      if (name === 'tag_name_pattern') return '^v\\d+\\.\\d+\\.\\d+$';
+      return '';
+    });
+
+    expect(getInputs().tagNamePattern).toBe('^v\\d+\\.\\d+\\.\\d+$');
+  });
+
+  it('should throw error if tag_name does not match tag_name_pattern', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'release-1';
+      if (name === 'tag_name_pattern') return '^v\\d+\\.\\d+\\.\\d+$';
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('Tag name release-1 does not match tag_name_pattern');
+  });
+
+  it('should throw error for an invalid tag_name_pattern', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'tag_name_pattern') return '^v(';
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('Invalid tag_name_pattern');
+  });
+
   it('should parse optional inputs with defaults', () => {
     (core.getInput as jest.Mock).mockImplementation((name: string) => {
       if (name === 'tag_name') return 'v1.0.0';
@@ -67,7 +124,9 @@ describe('getInputs', () => {
     expect(inputs.ignoreCertErrors).toBe(false);
     expect(inputs.force).toBe(false);
     expect(inputs.verbose).toBe(false);
+    expect(inputs.strictCapabilities).toBe(false);
     expect(inputs.repoType).toBe('auto');
+    expect(inputs.onExists).toBe('skip');
   });
 
   it('should parse boolean inputs correctly', () => {
@@ -80,6 +139,7 @@ describe('getInputs', () => {
       if (name === 'force') return 'true';
       if (name === 'verbose') return 'true';
       if (name === 'push_tag') return 'true';
+      if (name === 'strict_capabilities') return 'true';
       return '';
     });
 
@@ -90,6 +150,100 @@ describe('getInputs', () => {
     expect(inputs.force).toBe(true);
     expect(inputs.verbose).toBe(true);
     expect(inputs.pushTag).toBe(true);
+    expect(inputs.strictCapabilities).toBe(true);
+  });
+
+  it.each(['skip', 'fail', 'update', 'update-if-different', 'warn'])('should parse on_exists: %s', (value) => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'on_exists') return value;
+      return '';
+    });
+
+    expect(getInputs().onExists).toBe(value);
+  });
+
+  it('should throw error for an invalid on_exists', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'on_exists') return 'overwrite';
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('Invalid on_exists: overwrite');
+  });
+
+  it('should map the deprecated force and update_existing inputs to on_exists', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'update_existing') return 'true';
+      return '';
+    });
+    expect(getInputs().onExists).toBe('update-if-different');
+
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'force') return 'true';
+      return '';
+    });
+    expect(getInputs().onExists).toBe('update');
+  });
+
+  it('should throw error if on_exists is combined with a deprecated input', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'on_exists') return 'skip';
+      if (name === 'force') return 'true';
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('on_exists cannot be combined');
+  });
+
+  it('should default operation to create', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      return '';
+    });
+
+    const inputs = getInputs();
+    expect(inputs.operation).toBe('create');
+    expect(inputs.deleteTargets).toBeUndefined();
+    expect(inputs.failIfMissing).toBe(false);
+  });
+
+  it('should read one tag name or pattern per line for operation: delete', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0\n  release/1.2.0\n\nv2.0.0-rc.*\n';
+      if (name === 'operation') return 'delete';
+      if (name === 'fail_if_missing') return 'true';
+      return '';
+    });
+
+    const inputs = getInputs();
+    expect(inputs.operation).toBe('delete');
+    expect(inputs.deleteTargets).toEqual(['v1.0.0', 'release/1.2.0', 'v2.0.0-rc.*']);
+    expect(inputs.failIfMissing).toBe(true);
+  });
+
+  it('should validate tag names to delete', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0\nv1..2';
+      if (name === 'operation') return 'delete';
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('Invalid tag name');
+  });
+
+  it('should throw error for an invalid operation', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'operation') return 'rename';
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('Invalid operation: rename');
   });
 
   it('should default push_tag to true', () => {
@@ -156,6 +310,17 @@ describe('getInputs', () => {
     expect(inputs.repoType).toBe('github');
   });
 
+  it('should parse gitlab repo_type correctly', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'repo_type') return 'gitlab';
+      return '';
+    });
+
+    const inputs = getInputs();
+    expect(inputs.repoType).toBe('gitlab');
+  });
+
   it('should parse git repo_type correctly', () => {
     (core.getInput as jest.Mock).mockImplementation((name: string) => {
       if (name === 'tag_name') return 'v1.0.0';
@@ -177,6 +342,19 @@ describe('getInputs', () => {
     expect(() => getInputs()).toThrow('Invalid repo_type');
   });
 
+  it('should allow a plugin repo_type when platform_plugin is set', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'repo_type') return 'in-house';
+      if (name === 'platform_plugin') return './.github/forge-provider.js';
+      return '';
+    });
+
+    const inputs = getInputs();
+    expect(inputs.repoType).toBe('in-house');
+    expect(inputs.platformPlugin).toBe('./.github/forge-provider.js');
+  });
+
   it('should throw error if gpg_sign is true but tag_message is missing', () => {
     (core.getInput as jest.Mock).mockImplementation((name: string) => {
       if (name === 'tag_name') return 'v1.0.0';
@@ -230,6 +408,58 @@ describe('getInputs', () => {
     const inputs = getInputs();
     expect(inputs.tagMessage).toBeUndefined();
   });
+
+  it('should normalize tag_date to an ISO 8601 UTC date', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'tag_date') return '2024-01-01T01:00:00+01:00';
+      return '';
+    });
+
+    expect(getInputs().tagDate).toBe('2024-01-01T00:00:00Z');
+  });
+
+  it('should read SOURCE_DATE_EPOCH when tag_date is not set', () => {
+    process.env.SOURCE_DATE_EPOCH = '1704067200';
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      return '';
+    });
+
+    expect(getInputs().tagDate).toBe('2024-01-01T00:00:00Z');
+  });
+
+  it('should prefer tag_date over SOURCE_DATE_EPOCH', () => {
+    process.env.SOURCE_DATE_EPOCH = '1704067200';
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'tag_date') return '1735689600';
+      return '';
+    });
+
+    expect(getInputs().tagDate).toBe('2025-01-01T00:00:00Z');
+  });
+
+  it('should not accept both tag_sha and tag_ref', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'tag_sha') return 'abc123';
+      if (name === 'tag_ref') return 'release/1.x';
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('tag_sha and tag_ref cannot both be set');
+  });
+
+  it('should throw error for an invalid tag_date', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      if (name === 'tag_name') return 'v1.0.0';
+      if (name === 'tag_date') return 'yesterday';
+      return '';
+    });
+
+    expect(() => getInputs()).toThrow('Invalid tag_date');
+  });
 });
 
 describe('resolveToken', () => {
@@ -239,7 +469,16 @@ describe('resolveToken', () => {
     process.env = { ...originalEnv };
     delete process.env.GITHUB_TOKEN;
     delete process.env.GITEA_TOKEN;
+    delete process.env.FORGEJO_TOKEN;
+    delete process.env.GITLAB_TOKEN;
+    delete process.env.CI_JOB_TOKEN;
+    delete process.env.AZURE_DEVOPS_TOKEN;
+    delete process.env.SYSTEM_ACCESSTOKEN;
     delete process.env.BITBUCKET_TOKEN;
+    delete process.env.GOGS_TOKEN;
+    delete process.env.GITEE_TOKEN;
+    delete process.env.GERRIT_USERNAME;
+    delete process.env.GERRIT_HTTP_PASSWORD;
   });
 
   afterEach(() => {
@@ -274,11 +513,55 @@ describe('resolveToken', () => {
     expect(resolveToken(undefined, 'gitea')).toBe('gitea-token');
   });
 
+  it('should prefer FORGEJO_TOKEN for forgejo platform', () => {
+    process.env.GITHUB_TOKEN = 'github-token';
+    expect(resolveToken(undefined, 'forgejo')).toBe('github-token');
+    process.env.FORGEJO_TOKEN = 'forgejo-token';
+    expect(resolveToken(undefined, 'forgejo')).toBe('forgejo-token');
+  });
+
+  it('should use GOGS_TOKEN for gogs platform', () => {
+    process.env.GITHUB_TOKEN = 'github-token';
+    expect(resolveToken(undefined, 'gogs')).toBeUndefined();
+    process.env.GOGS_TOKEN = 'gogs-token';
+    expect(resolveToken(undefined, 'gogs')).toBe('gogs-token');
+  });
+
+  it('should use GITEE_TOKEN for gitee platform', () => {
+    process.env.GITEE_TOKEN = 'gitee-token';
+    expect(resolveToken(undefined, 'gitee')).toBe('gitee-token');
+  });
+
+  it('should use GITLAB_TOKEN for gitlab platform', () => {
+    process.env.GITLAB_TOKEN = 'gitlab-token';
+    process.env.CI_JOB_TOKEN = 'job-token';
+    expect(resolveToken(undefined, 'gitlab')).toBe('gitlab-token');
+  });
+
+  it('should fallback to CI_JOB_TOKEN for gitlab if GITLAB_TOKEN not set', () => {
+    process.env.CI_JOB_TOKEN = 'job-token';
+    expect(resolveToken(undefined, 'gitlab')).toBe('job-token');
+  });
+
+  it('should use AZURE_DEVOPS_TOKEN or SYSTEM_ACCESSTOKEN for azure-devops platform', () => {
+    process.env.SYSTEM_ACCESSTOKEN = 'system-token';
+    expect(resolveToken(undefined, 'azure-devops')).toBe('system-token');
+    process.env.AZURE_DEVOPS_TOKEN = 'azure-token';
+    expect(resolveToken(undefined, 'azure-devops')).toBe('azure-token');
+  });
+
   it('should use BITBUCKET_TOKEN for bitbucket platform', () => {
     process.env.BITBUCKET_TOKEN = 'bitbucket-token';
     expect(resolveToken(undefined, 'bitbucket')).toBe('bitbucket-token');
   });
 
+  it('should combine GERRIT_USERNAME and GERRIT_HTTP_PASSWORD for gerrit platform', () => {
+    process.env.GERRIT_USERNAME = 'ci-bot';
+    expect(resolveToken(undefined, 'gerrit')).toBeUndefined();
+    process.env.GERRIT_HTTP_PASSWORD = 'http-password';
+    expect(resolveToken(undefined, 'gerrit')).toBe('ci-bot:http-password');
+  });
+
   it('should try common tokens for generic platform', () => {
     process.env.GITHUB_TOKEN = 'github-token';
     expect(resolveToken(undefined, 'generic')).toBe('github-token');
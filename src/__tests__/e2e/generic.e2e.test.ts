@@ -171,6 +171,239 @@ describe('Generic Git E2E Tests', () => {
     expect(core.setOutput).toHaveBeenCalledWith('tag_exists', 'true');
   });
 
+  it('should leave a matching tag unchanged when update_existing is true', async () => {
+    const tagName = `${tagPrefix}${uniqueId}-unchanged`;
+    await exec.exec('git', ['tag', '-a', tagName, '-m', 'Release notes'], { silent: true });
+    const readTagObject = async () => {
+      let sha = '';
+      await exec.exec('git', ['rev-parse', `refs/tags/${tagName}`], {
+        silent: true,
+        listeners: { stdout: (data: Buffer) => { sha += data.toString(); } }
+      });
+      return sha.trim();
+    };
+    const before = await readTagObject();
+
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      switch (name) {
+        case 'tag_name':
+          return tagName;
+        case 'tag_message':
+          return 'Release notes';
+        case 'repo_type':
+          return 'generic';
+        case 'update_existing':
+          return 'true';
+        default:
+          return '';
+      }
+    });
+
+    await run();
+
+    expect(core.setFailed).not.toHaveBeenCalled();
+    expect(core.setOutput).toHaveBeenCalledWith('tag_unchanged', 'true');
+    expect(core.setOutput).toHaveBeenCalledWith('tag_updated', 'false');
+    expect(core.setOutput).toHaveBeenCalledWith('tag_object_sha', before);
+    expect(await readTagObject()).toBe(before);
+  });
+
+  it('should delete local tags by name and pattern', async () => {
+    const keep = `${tagPrefix}${uniqueId}-keep`;
+    const rcTags = [`${tagPrefix}${uniqueId}-rc.1`, `${tagPrefix}${uniqueId}-rc.2`];
+    for (const tag of [keep, ...rcTags]) {
+      await exec.exec('git', ['tag', tag], { silent: true });
+    }
+
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      switch (name) {
+        case 'tag_name':
+          return `${tagPrefix}${uniqueId}-rc.*`;
+        case 'operation':
+          return 'delete';
+        case 'repo_type':
+          return 'generic';
+        default:
+          return '';
+      }
+    });
+
+    await run();
+
+    expect(core.setFailed).not.toHaveBeenCalled();
+    expect(core.setOutput).toHaveBeenCalledWith('tag_deleted', 'true');
+    const tagExists = async (tag: string) =>
+      (await exec.exec('git', ['rev-parse', '--verify', '--quiet', `refs/tags/${tag}`], { silent: true, ignoreReturnCode: true })) === 0;
+    expect(await tagExists(keep)).toBe(true);
+    for (const tag of rcTags) {
+      expect(await tagExists(tag)).toBe(false);
+    }
+  });
+
+  it('should delete tags that only exist on origin', async () => {
+    const remoteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-e2e-remote-'));
+    try {
+      await exec.exec('git', ['init', '--bare', remoteDir], { silent: true });
+      await exec.exec('git', ['remote', 'add', 'origin', `file://${remoteDir}`], { silent: true });
+      const tags = [`${tagPrefix}${uniqueId}-remote`, `${tagPrefix}${uniqueId}-remote-rc.1`];
+      for (const tag of tags) {
+        await exec.exec('git', ['tag', tag], { silent: true });
+        await exec.exec('git', ['push', 'origin', `refs/tags/${tag}`], { silent: true });
+        await exec.exec('git', ['tag', '-d', tag], { silent: true });
+      }
+
+      (core.getInput as jest.Mock).mockImplementation((name: string) => {
+        switch (name) {
+          case 'tag_name':
+            return `${tags[0]}\n${tagPrefix}${uniqueId}-remote-rc.*`;
+          case 'operation':
+            return 'delete';
+          case 'fail_if_missing':
+            return 'true';
+          case 'repo_type':
+            return 'generic';
+          default:
+            return '';
+        }
+      });
+
+      await run();
+
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(core.setOutput).toHaveBeenCalledWith('tag_deleted', 'true');
+      expect(core.setOutput).toHaveBeenCalledWith('deleted_tags', expect.stringContaining(tags[1]));
+      const remoteTags: string[] = [];
+      await exec.exec('git', ['ls-remote', '--tags', 'origin'], {
+        silent: true,
+        listeners: { stdout: (data: Buffer) => remoteTags.push(data.toString()) }
+      });
+      expect(remoteTags.join('')).toBe('');
+    } finally {
+      fs.rmSync(remoteDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should treat a tag that only exists on origin as existing', async () => {
+    const remoteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-e2e-remote-'));
+    try {
+      await exec.exec('git', ['init', '--bare', remoteDir], { silent: true });
+      await exec.exec('git', ['remote', 'add', 'origin', `file://${remoteDir}`], { silent: true });
+      const tagName = `${tagPrefix}${uniqueId}-origin-only`;
+      await exec.exec('git', ['tag', tagName], { silent: true });
+      await exec.exec('git', ['push', 'origin', `refs/tags/${tagName}`], { silent: true });
+      await exec.exec('git', ['tag', '-d', tagName], { silent: true });
+
+      (core.getInput as jest.Mock).mockImplementation((name: string) => {
+        switch (name) {
+          case 'tag_name':
+            return tagName;
+          case 'repo_type':
+            return 'generic';
+          default:
+            return '';
+        }
+      });
+
+      await run();
+
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(core.setOutput).toHaveBeenCalledWith('tag_exists', 'true');
+      expect(core.setOutput).toHaveBeenCalledWith('tag_created', 'false');
+      expect(core.setOutput).toHaveBeenCalledWith('tag_unchanged', 'true');
+    } finally {
+      fs.rmSync(remoteDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should force-push an update of a tag that only exists on origin', async () => {
+    const remoteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-e2e-remote-'));
+    try {
+      await exec.exec('git', ['init', '--bare', remoteDir], { silent: true });
+      await exec.exec('git', ['remote', 'add', 'origin', `file://${remoteDir}`], { silent: true });
+      const tagName = `${tagPrefix}${uniqueId}-origin-update`;
+      await exec.exec('git', ['tag', tagName], { silent: true });
+      await exec.exec('git', ['push', 'origin', `refs/tags/${tagName}`], { silent: true });
+      await exec.exec('git', ['tag', '-d', tagName], { silent: true });
+
+      fs.writeFileSync(path.join(tempDir, 'test.txt'), 'second commit');
+      await exec.exec('git', ['commit', '-am', 'Second commit'], { silent: true });
+      const headSha = (await exec.getExecOutput('git', ['rev-parse', 'HEAD'], { silent: true })).stdout.trim();
+
+      (core.getInput as jest.Mock).mockImplementation((name: string) => {
+        switch (name) {
+          case 'tag_name':
+            return tagName;
+          case 'on_exists':
+            return 'update';
+          case 'repo_type':
+            return 'generic';
+          default:
+            return '';
+        }
+      });
+
+      await run();
+
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(core.setOutput).toHaveBeenCalledWith('tag_updated', 'true');
+      const remoteTag = await exec.getExecOutput('git', ['ls-remote', '--tags', 'origin', `refs/tags/${tagName}`], { silent: true });
+      expect(remoteTag.stdout).toContain(headSha);
+    } finally {
+      fs.rmSync(remoteDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fail when the tag cannot be pushed', async () => {
+    const remoteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-e2e-remote-'));
+    try {
+      await exec.exec('git', ['init', '--bare', remoteDir], { silent: true });
+      // Reject every push
+      const hook = path.join(remoteDir, 'hooks', 'pre-receive');
+      fs.writeFileSync(hook, '#!/bin/sh\nexit 1\n');
+      fs.chmodSync(hook, 0o755);
+      await exec.exec('git', ['remote', 'add', 'origin', `file://${remoteDir}`], { silent: true });
+
+      (core.getInput as jest.Mock).mockImplementation((name: string) => {
+        switch (name) {
+          case 'tag_name':
+            return `${tagPrefix}${uniqueId}-rejected`;
+          case 'repo_type':
+            return 'generic';
+          default:
+            return '';
+        }
+      });
+
+      await run();
+
+      expect(core.setFailed).toHaveBeenCalled();
+      expect(core.setOutput).not.toHaveBeenCalledWith('tag_created', 'true');
+    } finally {
+      fs.rmSync(remoteDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fail a delete when the tag is missing and fail_if_missing is true', async () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => {
+      switch (name) {
+        case 'tag_name':
+          return `${tagPrefix}${uniqueId}-missing`;
+        case 'operation':
+          return 'delete';
+        case 'fail_if_missing':
+          return 'true';
+        case 'repo_type':
+          return 'generic';
+        default:
+          return '';
+      }
+    });
+
+    await run();
+
+    expect(core.setFailed).toHaveBeenCalledWith(expect.stringContaining('No tag matches'));
+  });
+
   it('should not push tag when push_tag is false', async () => {
     const tagName = `${tagPrefix}${uniqueId}-no-push`;
 
@@ -7,7 +7,15 @@ import {
   getTagSha,
   pushTag,
   deleteTagLocally,
-  deleteTagRemote
+  deleteTagRemote,
+  tagExistsRemote,
+  parseTagObject,
+  getTagInfoLocal,
+  getTagInfoRemote,
+  listTagsLocal,
+  listTagsRemote,
+  resolveTagger,
+  resolveCommitLocal
 } from '../git';
 import { Logger } from '../logger';
 
@@ -156,6 +164,29 @@ describe('createTag', () => {
     );
   });
 
+  it('should report the tag object and the peeled commit', async () => {
+    (exec.exec as jest.Mock).mockImplementation((command, args, options) => {
+      if (command === 'git' && args[0] === 'rev-parse') {
+        if (args[1] === '--verify') {
+          return Promise.resolve(1);
+        }
+        const sha = args[1] === 'refs/tags/v1.0.0^{commit}' ? 'commit-sha' : 'tag-object-sha';
+        options?.listeners?.stdout?.(Buffer.from(`${sha}\n`));
+        return Promise.resolve(0);
+      }
+      return Promise.resolve(command === 'git' && args[0] === 'tag' ? 0 : 1);
+    });
+
+    const result = await createTag(
+      { tagName: 'v1.0.0', sha: 'commit-sha', message: 'Release v1.0.0', gpgSign: false, force: false, verbose: false },
+      mockLogger
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({ sha: 'commit-sha', objectSha: 'tag-object-sha', commitSha: 'commit-sha', type: 'annotated' })
+    );
+  });
+
   it('should create lightweight tag without message', async () => {
     (exec.exec as jest.Mock).mockImplementation((command, args, options) => {
       if (command === 'git' && args[0] === 'rev-parse') {
@@ -430,6 +461,123 @@ describe('createTag', () => {
       expect.any(Object)
     );
   });
+
+  it('should set the committer date so the tagger date is the requested one', async () => {
+    (exec.exec as jest.Mock).mockImplementation((command, args) => {
+      if (command === 'git' && args[0] === 'rev-parse' && args[1] === '--verify') {
+        return Promise.resolve(1);
+      }
+      return Promise.resolve(0);
+    });
+
+    await createTag(
+      {
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false,
+        tagger: { date: '2024-01-01T00:00:00Z' }
+      },
+      mockLogger
+    );
+
+    expect(exec.exec).toHaveBeenCalledWith(
+      'git',
+      ['tag', '-a', '-F', '-', 'v1.0.0', 'commit-sha'],
+      expect.objectContaining({ env: expect.objectContaining({ GIT_COMMITTER_DATE: '2024-01-01T00:00:00Z' }) })
+    );
+  });
+
+  it('should set the committer identity so an explicit tagger overrides the configured user', async () => {
+    (exec.exec as jest.Mock).mockImplementation((command, args, options) => {
+      if (command === 'git' && args[0] === 'rev-parse' && args[1] === '--verify') {
+        return Promise.resolve(1);
+      }
+      // user.name and user.email are already configured
+      if (command === 'git' && args[0] === 'config' && args[1] === '--get') {
+        options?.listeners?.stdout?.(Buffer.from('Configured User\n'));
+      }
+      return Promise.resolve(0);
+    });
+
+    await createTag(
+      {
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false,
+        tagger: { name: 'Release Bot', email: 'bot@example.com' }
+      },
+      mockLogger
+    );
+
+    expect(exec.exec).not.toHaveBeenCalledWith('git', expect.arrayContaining(['--local', 'user.name']), expect.anything());
+    expect(exec.exec).toHaveBeenCalledWith(
+      'git',
+      ['tag', '-a', '-F', '-', 'v1.0.0', 'commit-sha'],
+      expect.objectContaining({
+        env: expect.objectContaining({ GIT_COMMITTER_NAME: 'Release Bot', GIT_COMMITTER_EMAIL: 'bot@example.com' })
+      })
+    );
+  });
+});
+
+describe('resolveTagger', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, GITHUB_ACTOR: 'octocat', GITHUB_SERVER_URL: 'https://github.com' };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should leave the tagger to the platform when nothing was requested', () => {
+    expect(resolveTagger(undefined)).toBeUndefined();
+    expect(resolveTagger({ name: undefined, email: undefined, date: undefined })).toBeUndefined();
+  });
+
+  it('should fill in the name and email from the Actions environment', () => {
+    expect(resolveTagger({ date: '2024-01-01T00:00:00Z' })).toEqual({
+      name: 'octocat',
+      email: 'octocat@users.noreply.github.com',
+      date: '2024-01-01T00:00:00Z'
+    });
+  });
+
+  it('should keep the requested name and email', () => {
+    expect(resolveTagger({ name: 'Release Bot', email: 'bot@example.com' })).toEqual({
+      name: 'Release Bot',
+      email: 'bot@example.com'
+    });
+  });
+});
+
+describe('resolveCommitLocal', () => {
+  it('should peel to the commit and return its full SHA', async () => {
+    (exec.exec as jest.Mock).mockImplementation((command, args, options) => {
+      options.listeners.stdout(Buffer.from('abc123def456abc123def456abc123def456abcd\n'));
+      return Promise.resolve(0);
+    });
+
+    expect(await resolveCommitLocal('abc123', mockLogger)).toBe('abc123def456abc123def456abc123def456abcd');
+    expect(exec.exec).toHaveBeenCalledWith(
+      'git',
+      ['rev-parse', '--verify', '--quiet', '--end-of-options', 'abc123^{commit}'],
+      expect.objectContaining({ ignoreReturnCode: true })
+    );
+  });
+
+  it('should explain when the SHA is not a commit', async () => {
+    (exec.exec as jest.Mock).mockResolvedValue(1);
+
+    await expect(resolveCommitLocal('abc123', mockLogger)).rejects.toThrow('abc123 does not name a commit in the local repository');
+  });
 });
 
 describe('getTagSha', () => {
@@ -467,12 +615,49 @@ describe('pushTag', () => {
 
     expect(exec.exec).toHaveBeenCalledWith(
       'git',
-      ['push', 'origin', 'v1.0.0'],
+      ['push', 'origin', 'refs/tags/v1.0.0:refs/tags/v1.0.0'],
+      expect.any(Object)
+    );
+  });
+
+  it('should push hierarchical tags with a fully qualified refspec', async () => {
+    (exec.exec as jest.Mock).mockResolvedValue(0);
+
+    await pushTag('release/1.2.0', 'origin', undefined, true, mockLogger);
+
+    expect(exec.exec).toHaveBeenCalledWith(
+      'git',
+      ['push', 'origin', 'refs/tags/release/1.2.0:refs/tags/release/1.2.0', '--force'],
       expect.any(Object)
     );
   });
 });
 
+describe('tagExistsRemote', () => {
+  it('should return true when ls-remote finds the tag', async () => {
+    (exec.exec as jest.Mock).mockResolvedValue(0);
+
+    expect(await tagExistsRemote('v1.0.0', 'https://git.example.com/repo', mockLogger, ['-c', 'credential.UseHttpPath=true'])).toBe(true);
+    expect(exec.exec).toHaveBeenCalledWith(
+      'git',
+      ['-c', 'credential.UseHttpPath=true', 'ls-remote', '--exit-code', '--tags', 'https://git.example.com/repo', 'refs/tags/v1.0.0'],
+      expect.any(Object)
+    );
+  });
+
+  it('should return false when ls-remote exits with 2', async () => {
+    (exec.exec as jest.Mock).mockResolvedValue(2);
+
+    expect(await tagExistsRemote('v1.0.0', 'origin', mockLogger)).toBe(false);
+  });
+
+  it('should throw on other ls-remote failures', async () => {
+    (exec.exec as jest.Mock).mockResolvedValue(128);
+
+    await expect(tagExistsRemote('v1.0.0', 'origin', mockLogger)).rejects.toThrow('exit code 128');
+  });
+});
+
 describe('deleteTagLocally', () => {
   it('should delete local tag', async () => {
     (exec.exec as jest.Mock).mockResolvedValue(0);
@@ -508,9 +693,178 @@ describe('deleteTagRemote', () => {
 
     expect(exec.exec).toHaveBeenCalledWith(
       'git',
-      ['push', 'origin', '--delete', 'v1.0.0'],
+      ['push', 'origin', '--delete', 'refs/tags/v1.0.0'],
       expect.any(Object)
     );
   });
 });
 
+
+const SIGNED_TAG_OBJECT = [
+  'object 1111111111111111111111111111111111111111',
+  'type commit',
+  'tag v1.0.0',
+  'tagger Release Bot <bot@example.com> 1704067200 +0100',
+  '',
+  'Release v1.0.0',
+  '',
+  'Notes',
+  '-----BEGIN PGP SIGNATURE-----',
+  '',
+  'iQEzBAABCAAdFiEE',
+  '-----END PGP SIGNATURE-----',
+  ''
+].join('\n');
+
+describe('parseTagObject', () => {
+  it('should split headers, message and signature', () => {
+    expect(parseTagObject(SIGNED_TAG_OBJECT)).toEqual({
+      objectSha: '1111111111111111111111111111111111111111',
+      objectType: 'commit',
+      tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00.000Z' },
+      message: 'Release v1.0.0\n\nNotes',
+      signature: '-----BEGIN PGP SIGNATURE-----\n\niQEzBAABCAAdFiEE\n-----END PGP SIGNATURE-----'
+    });
+  });
+
+  it('should handle unsigned tags without a tagger', () => {
+    const parsed = parseTagObject('object abc\ntype tag\ntag v1\n\nNested\n');
+    expect(parsed).toEqual({ objectSha: 'abc', objectType: 'tag', tagger: undefined, message: 'Nested', signature: undefined });
+  });
+});
+
+describe('getTagInfoLocal', () => {
+  beforeEach(() => {
+    // Drop queued mockResolvedValueOnce values left by earlier tests
+    (exec.exec as jest.Mock).mockReset();
+  });
+
+  function mockGitOutput(outputs: Record<string, string>): void {
+    (exec.exec as jest.Mock).mockImplementation((command, args: string[], options) => {
+      const output = outputs[args[0]];
+      if (output === undefined) {
+        return Promise.resolve(1);
+      }
+      options?.listeners?.stdout?.(Buffer.from(output));
+      return Promise.resolve(0);
+    });
+  }
+
+  it('should read annotated tags with for-each-ref and cat-file', async () => {
+    mockGitOutput({
+      'for-each-ref': 'aaaa tag refs/tags/v1.0.0\n',
+      'rev-parse': '1111111111111111111111111111111111111111\n',
+      'cat-file': SIGNED_TAG_OBJECT
+    });
+
+    const tag = await getTagInfoLocal('v1.0.0', mockLogger);
+
+    expect(tag).toEqual(expect.objectContaining({
+      tagName: 'v1.0.0',
+      refSha: 'aaaa',
+      commitSha: '1111111111111111111111111111111111111111',
+      type: 'annotated',
+      message: 'Release v1.0.0\n\nNotes'
+    }));
+    expect(tag?.signature).toContain('BEGIN PGP SIGNATURE');
+    expect(exec.exec).toHaveBeenCalledWith('git', ['rev-parse', '--verify', '--quiet', 'aaaa^{}'], expect.any(Object));
+    expect(exec.exec).toHaveBeenCalledWith('git', ['cat-file', 'tag', 'aaaa'], expect.any(Object));
+  });
+
+  it('should ignore refs nested below the tag name', async () => {
+    mockGitOutput({ 'for-each-ref': 'bbbb commit refs/tags/v1/beta\n' });
+
+    expect(await getTagInfoLocal('v1', mockLogger)).toBeUndefined();
+  });
+
+  it('should report lightweight tags', async () => {
+    mockGitOutput({ 'for-each-ref': 'cccc commit refs/tags/v1.0.0\n', 'rev-parse': 'cccc\n' });
+
+    expect(await getTagInfoLocal('v1.0.0', mockLogger)).toEqual({
+      tagName: 'v1.0.0',
+      refSha: 'cccc',
+      commitSha: 'cccc',
+      type: 'lightweight'
+    });
+  });
+});
+
+describe('getTagInfoRemote', () => {
+  beforeEach(() => {
+    (exec.exec as jest.Mock).mockReset();
+  });
+
+  it('should use the peeled ls-remote entry as the commit of annotated tags', async () => {
+    (exec.exec as jest.Mock).mockImplementation((command, args: string[], options) => {
+      if (args.includes('ls-remote')) {
+        options.listeners.stdout(Buffer.from('aaaa\trefs/tags/v1.0.0\n1111\trefs/tags/v1.0.0^{}\n'));
+        return Promise.resolve(0);
+      }
+      // Tag object not fetched locally
+      return Promise.resolve(128);
+    });
+
+    expect(await getTagInfoRemote('v1.0.0', 'origin', mockLogger)).toEqual({
+      tagName: 'v1.0.0',
+      refSha: 'aaaa',
+      commitSha: '1111',
+      type: 'annotated',
+      message: undefined,
+      tagger: undefined,
+      signature: undefined
+    });
+  });
+
+  it('should return undefined when the remote has no such tag', async () => {
+    (exec.exec as jest.Mock).mockImplementation((command, args: string[], options) => {
+      options.listeners.stdout(Buffer.from('dddd\trefs/tags/v1.0.0-rc1\n'));
+      return Promise.resolve(0);
+    });
+
+    expect(await getTagInfoRemote('v1.0.0', 'origin', mockLogger)).toBeUndefined();
+  });
+});
+
+describe('listTagsLocal', () => {
+  beforeEach(() => {
+    (exec.exec as jest.Mock).mockReset();
+  });
+
+  it('should peel annotated tags and apply the pattern and limit', async () => {
+    (exec.exec as jest.Mock).mockImplementation((command, args: string[], options) => {
+      options.listeners.stdout(Buffer.from('v2.0.0 aaaa 2222\nnightly 3333 \nv1.0.0 1111 \n'));
+      return Promise.resolve(0);
+    });
+
+    expect(await listTagsLocal({ pattern: 'v*', limit: 1 }, mockLogger)).toEqual([{ tagName: 'v2.0.0', commitSha: '2222' }]);
+    expect(exec.exec).toHaveBeenCalledWith(
+      'git',
+      expect.arrayContaining(['for-each-ref', '--sort=-creatordate', 'refs/tags']),
+      expect.anything()
+    );
+  });
+});
+
+describe('listTagsRemote', () => {
+  beforeEach(() => {
+    (exec.exec as jest.Mock).mockReset();
+  });
+
+  it('should replace tag object SHAs with the peeled commit', async () => {
+    (exec.exec as jest.Mock).mockImplementation((command, args: string[], options) => {
+      options.listeners.stdout(Buffer.from('aaaa\trefs/tags/v1.0.0\n1111\trefs/tags/v1.0.0^{}\n2222\trefs/tags/v1.0.1\n'));
+      return Promise.resolve(0);
+    });
+
+    expect(await listTagsRemote({}, 'origin', mockLogger)).toEqual([
+      { tagName: 'v1.0.0', commitSha: '1111' },
+      { tagName: 'v1.0.1', commitSha: '2222' }
+    ]);
+  });
+
+  it('should fail when ls-remote fails', async () => {
+    (exec.exec as jest.Mock).mockResolvedValue(128);
+
+    await expect(listTagsRemote({}, 'origin', mockLogger)).rejects.toThrow('git ls-remote failed with exit code 128');
+  });
+});
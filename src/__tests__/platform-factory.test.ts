@@ -1,10 +1,20 @@
-import { createPlatformAPI } from '../platforms/platform-factory';
+import { createPlatformAPI, loadPlatformPlugin, validatePlatformProvider, PlatformProvider } from '../platforms/platform-factory';
 import { Logger } from '../logger';
 import { GitHubAPI } from '../platforms/github';
 import { GiteaAPI } from '../platforms/gitea';
 import { GenericGitAPI } from '../platforms/generic';
 import { BitbucketAPI } from '../platforms/bitbucket';
+import { GitLabAPI } from '../platforms/gitlab';
+import { ForgejoAPI } from '../platforms/forgejo';
+import { BitbucketServerAPI } from '../platforms/bitbucket-server';
+import { GerritAPI } from '../platforms/gerrit';
+import { GogsAPI } from '../platforms/gogs';
+import { CodeCommitAPI } from '../platforms/codecommit';
+import { GiteeAPI } from '../platforms/gitee';
 import * as exec from '@actions/exec';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 jest.mock('@actions/exec');
 
@@ -39,6 +49,9 @@ describe('platform-factory', () => {
     delete process.env.GITHUB_SERVER_URL;
     delete process.env.GITEA_SERVER_URL;
     delete process.env.GITEA_API_URL;
+    delete process.env.FORGEJO_SERVER_URL;
+    delete process.env.CI_SERVER_URL;
+    delete process.env.SYSTEM_COLLECTIONURI;
   });
 
   afterEach(() => {
@@ -81,6 +94,107 @@ describe('platform-factory', () => {
     expect(fetchMock).toHaveBeenCalled();
   });
 
+  it('detects forgejo from its own version endpoint before gitea', async () => {
+    const repoInfo = {
+      owner: 'owner',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://git.example.org/owner/repo'
+    };
+
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url.includes('/api/forgejo/v1/version') || url.includes('/api/v1/version')) {
+        return Promise.resolve(new Response('{"version":"7.0.5+gitea-1.21.11"}', { status: 200, statusText: 'OK' }));
+      }
+      return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
+    });
+
+    const { platform, api } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('forgejo');
+    expect(api).toBeInstanceOf(ForgejoAPI);
+    fetchMock.mockRestore();
+  });
+
+  it('detects gogs from its 0.x /api/v1/version string instead of gitea', async () => {
+    const repoInfo = {
+      owner: 'owner',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://git.example.org/owner/repo'
+    };
+
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url.includes('/api/v1/version')) {
+        return Promise.resolve(new Response('{"version":"0.13.0"}', { status: 200, statusText: 'OK' }));
+      }
+      return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
+    });
+
+    const { platform, api, baseUrl } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('gogs');
+    expect(api).toBeInstanceOf(GogsAPI);
+    expect(baseUrl).toBe('https://git.example.org/api/v1');
+    fetchMock.mockRestore();
+  });
+
+  it('selects platform by hostname first (codeberg.org)', async () => {
+    const repoInfo = {
+      owner: 'owner',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://codeberg.org/owner/repo.git'
+    };
+
+    const { platform, baseUrl } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('forgejo');
+    expect(baseUrl).toBe('https://codeberg.org/api/v1');
+  });
+
+  it('selects gerrit by hostname and uses the server root', async () => {
+    const repoInfo = {
+      owner: 'platform',
+      repo: 'build',
+      platform: 'auto' as const,
+      url: 'https://gerrit.example.com/a/platform/build'
+    };
+
+    const { platform, api, baseUrl } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('gerrit');
+    expect(api).toBeInstanceOf(GerritAPI);
+    expect(baseUrl).toBe('https://gerrit.example.com');
+  });
+
+  it('selects codecommit by hostname and derives the regional endpoint', async () => {
+    const repoInfo = {
+      owner: 'us-east-1',
+      repo: 'MyRepo',
+      platform: 'auto' as const,
+      url: 'https://git-codecommit.us-east-1.amazonaws.com/v1/repos/MyRepo'
+    };
+
+    const { platform, api, baseUrl } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('codecommit');
+    expect(api).toBeInstanceOf(CodeCommitAPI);
+    expect(baseUrl).toBe('https://codecommit.us-east-1.amazonaws.com');
+  });
+
+  it('selects gitee by hostname (gitee.com)', async () => {
+    const repoInfo = {
+      owner: 'owner',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://gitee.com/owner/repo.git'
+    };
+
+    const { platform, api, baseUrl, capabilities } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('gitee');
+    expect(api).toBeInstanceOf(GiteeAPI);
+    expect(baseUrl).toBe('https://gitee.com/api/v5');
+    expect(capabilities).toEqual(expect.objectContaining({ lightweight: true, signing: false, releases: true }));
+  });
+
   it('returns generic when no detectors match', async () => {
     const repoInfo = {
       owner: 'owner',
@@ -138,6 +252,124 @@ describe('platform-factory', () => {
     expect(api).toBeInstanceOf(GiteaAPI);
   });
 
+  it('selects platform by hostname first (gitlab.com with nested groups)', async () => {
+    const repoInfo = {
+      owner: 'group/subgroup',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://gitlab.com/group/subgroup/repo.git'
+    };
+
+    const { platform, api, baseUrl } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('gitlab');
+    expect(api).toBeInstanceOf(GitLabAPI);
+    expect(baseUrl).toBe('https://gitlab.com/api/v4');
+  });
+
+  it('falls back to per-platform detect when hostname is unknown (detects gitlab)', async () => {
+    const repoInfo = {
+      owner: 'owner',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://code.example.com/owner/repo'
+    };
+
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url.includes('/api/v4/version')) {
+        return Promise.resolve(new Response(null, {
+          status: 401,
+          statusText: 'Unauthorized',
+          headers: { 'X-Gitlab-Meta': '{}' }
+        }));
+      }
+      return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
+    });
+
+    const { platform, api } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('gitlab');
+    expect(api).toBeInstanceOf(GitLabAPI);
+    fetchMock.mockRestore();
+  });
+
+  it('reads the repository URL again for the detected platform', async () => {
+    // Parsed as Bitbucket Server before detection because of the /scm/ group
+    const repoInfo = {
+      owner: 'tools',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://code.example.com/scm/tools/repo.git'
+    };
+
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url.includes('/api/v4/version')) {
+        return Promise.resolve(new Response(null, {
+          status: 401,
+          statusText: 'Unauthorized',
+          headers: { 'X-Gitlab-Meta': '{}' }
+        }));
+      }
+      return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
+    });
+
+    const { platform } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('gitlab');
+    expect(repoInfo).toMatchObject({ owner: 'scm/tools', repo: 'repo' });
+    fetchMock.mockRestore();
+  });
+
+  it('rejects a repository URL without an owner on platforms that need one', async () => {
+    const repoInfo = {
+      owner: '',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://code.example.com/repo'
+    };
+
+    await expect(createPlatformAPI(repoInfo, 'gitlab', baseConfig, logger)).rejects.toThrow(
+      'Invalid repository https://code.example.com/repo: gitlab repositories must be given as {owner}/{repo}'
+    );
+  });
+
+  it('falls back to per-platform detect when hostname is unknown (detects bitbucket server)', async () => {
+    const repoInfo = {
+      owner: 'PROJ',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://git.example.com/scm/proj/repo.git' // Doesn't contain "bitbucket" in hostname
+    };
+
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input: any) => {
+      const url = input.toString();
+      // Only respond to the Bitbucket Server REST API
+      if (url.includes('/rest/api/1.0')) {
+        return Promise.resolve(new Response(null, { status: 200, statusText: 'OK' }));
+      }
+      return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
+    });
+
+    const { platform, api, baseUrl } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('bitbucket-server');
+    expect(api).toBeInstanceOf(BitbucketServerAPI);
+    expect(baseUrl).toBe('https://git.example.com');
+    fetchMock.mockRestore();
+  });
+
+  it('selects bitbucket server by hostname for self-hosted bitbucket hosts', async () => {
+    const repoInfo = {
+      owner: 'PROJ',
+      repo: 'repo',
+      platform: 'auto' as const,
+      url: 'https://bitbucket.example.com/context/scm/proj/repo.git'
+    };
+
+    const { platform, api, baseUrl } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    expect(platform).toBe('bitbucket-server');
+    expect(api).toBeInstanceOf(BitbucketServerAPI);
+    expect(baseUrl).toBe('https://bitbucket.example.com/context');
+  });
+
   it('falls back to per-platform detect when hostname is unknown (detects bitbucket)', async () => {
     const repoInfo = {
       owner: 'owner',
@@ -148,8 +380,8 @@ describe('platform-factory', () => {
 
     const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input: any) => {
       const url = input.toString();
-      // Only respond to Bitbucket API endpoints
-      if (url.includes('/rest/api/1.0') || url.includes('/2.0')) {
+      // Only respond to Bitbucket Cloud API endpoints
+      if (url.includes('/2.0')) {
         return Promise.resolve(new Response(null, { status: 200, statusText: 'OK' }));
       }
       // Return 404 for all other endpoints (Gitea, GitHub, etc.)
@@ -168,22 +400,25 @@ describe('platform-factory', () => {
       owner: 'owner',
       repo: 'repo',
       platform: 'auto' as const,
-      url: 'https://github.example.com/owner/repo'
+      url: 'https://git.corp.example/owner/repo'
     };
 
     const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input: any) => {
       const url = input.toString();
-      // Only respond to GitHub API endpoints (not Gitea)
-      if (url.includes('/api/v3') || (url.includes('/api') && !url.includes('/api/v1'))) {
-        return Promise.resolve(new Response(null, { status: 200, statusText: 'OK' }));
+      // Only GitHub Enterprise Server sends X-GitHub-Enterprise-Version
+      if (url.endsWith('/api/v3')) {
+        return Promise.resolve(
+          new Response(null, { status: 401, statusText: 'Unauthorized', headers: { 'X-GitHub-Enterprise-Version': '3.12.4' } })
+        );
       }
       // Return 404 for all other endpoints (Gitea, Bitbucket, etc.)
       return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
     });
 
-    const { platform, api } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
+    const { platform, api, baseUrl } = await createPlatformAPI(repoInfo, 'auto', baseConfig, logger);
     expect(platform).toBe('github');
     expect(api).toBeInstanceOf(GitHubAPI);
+    expect(baseUrl).toBe('https://git.corp.example/api/v3');
     expect(fetchMock).toHaveBeenCalled();
     fetchMock.mockRestore();
   });
@@ -253,4 +488,141 @@ describe('platform-factory', () => {
     expect(platform).toBe('github');
     expect(api).toBeInstanceOf(GitHubAPI);
   });
+
+  describe('platform plugins', () => {
+    const pluginApi = {
+      tagExists: jest.fn(),
+      getTag: jest.fn(),
+      listTags: jest.fn(),
+      createTag: jest.fn(),
+      updateTag: jest.fn(),
+      deleteTag: jest.fn(),
+      getHeadSha: jest.fn(),
+      resolveCommit: jest.fn(),
+      resolveRef: jest.fn()
+    };
+    const pluginProvider = {
+      type: 'in-house',
+      detectFromUrlByHostname: (url: URL) => (url.hostname === 'forge.corp.example' ? 'in-house' : undefined),
+      detectFromUrl: async () => undefined,
+      createAPI: () => pluginApi,
+      determineBaseUrl: () => 'https://forge.corp.example/api'
+    } as unknown as PlatformProvider;
+
+    it('detects the plugin platform before the built-in providers', async () => {
+      const repoInfo = {
+        owner: 'owner',
+        repo: 'repo',
+        platform: 'auto' as const,
+        url: 'https://forge.corp.example/owner/repo'
+      };
+      const plugin = validatePlatformProvider(pluginProvider, 'forge.js');
+
+      const { platform, api, baseUrl, capabilities } = await createPlatformAPI(repoInfo, 'auto', { ...baseConfig, plugins: [plugin] }, logger);
+      expect(platform).toBe('in-house');
+      expect(api).toBe(pluginApi);
+      expect(baseUrl).toBe('https://forge.corp.example/api');
+      // No capabilities declared: plain annotated and lightweight tags only
+      expect(capabilities).toEqual(expect.objectContaining({ annotated: true, lightweight: true, signing: false, atomicUpdate: false }));
+    });
+
+    it('merges the capabilities a plugin declares over the defaults', () => {
+      const plugin = validatePlatformProvider({ ...pluginProvider, capabilities: { signing: true } }, 'forge.js');
+
+      expect(plugin.capabilities.signing).toBe(true);
+      expect(plugin.capabilities.lightweight).toBe(true);
+      expect(() => validatePlatformProvider({ ...pluginProvider, capabilities: 'all' }, 'forge.js')).toThrow("'capabilities' must be an object");
+    });
+
+    it('selects the plugin through repo_type', async () => {
+      const repoInfo = { owner: 'owner', repo: 'repo', platform: 'auto' as const };
+      const plugin = validatePlatformProvider(pluginProvider, 'forge.js');
+
+      const { platform } = await createPlatformAPI(repoInfo, 'in-house' as any, { ...baseConfig, plugins: [plugin] }, logger);
+      expect(platform).toBe('in-house');
+    });
+
+    it('rejects a repo_type without a provider', async () => {
+      const repoInfo = { owner: 'owner', repo: 'repo', platform: 'auto' as const };
+
+      await expect(createPlatformAPI(repoInfo, 'in-house' as any, baseConfig, logger)).rejects.toThrow(
+        'No platform provider registered for repo_type: in-house'
+      );
+    });
+
+    it('validates the provider shape and built-in type collisions', () => {
+      expect(() => validatePlatformProvider(undefined, 'forge.js')).toThrow('must export a PlatformProvider');
+      expect(() => validatePlatformProvider({ ...pluginProvider, type: 'github' }, 'forge.js')).toThrow('already used by a built-in platform');
+      expect(() => validatePlatformProvider({ ...pluginProvider, detectFromUrl: 'nope' }, 'forge.js')).toThrow("'detectFromUrl' must be a function");
+    });
+
+    it('validates the API returned by createAPI', () => {
+      const plugin = validatePlatformProvider({ ...pluginProvider, createAPI: () => ({ tagExists: jest.fn() }) }, 'forge.js');
+
+      expect(() => plugin.createAPI({ owner: 'o', repo: 'r', platform: 'auto' }, { type: 'auto', ignoreCertErrors: false, verbose: false }, logger))
+        .toThrow('createAPI() result is missing getTag, listTags, createTag, updateTag, deleteTag, getHeadSha, resolveCommit, resolveRef');
+    });
+
+    it('loads a CommonJS plugin module relative to the workspace', () => {
+      const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'platform-plugin-'));
+      fs.writeFileSync(
+        path.join(workspace, 'forge.js'),
+        `module.exports = {
+          type: 'in-house',
+          detectFromUrlByHostname: () => undefined,
+          detectFromUrl: async () => undefined,
+          createAPI: () => ({}),
+          determineBaseUrl: () => undefined
+        };`
+      );
+      process.env.GITHUB_WORKSPACE = workspace;
+
+      try {
+        expect(loadPlatformPlugin('forge.js', logger).type).toBe('in-house');
+        expect(() => loadPlatformPlugin('missing.js', logger)).toThrow('Failed to load platform_plugin missing.js');
+      } finally {
+        fs.rmSync(workspace, { recursive: true, force: true });
+      }
+    });
+
+    it('loads a YAML platform descriptor', async () => {
+      const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'platform-plugin-'));
+      fs.writeFileSync(
+        path.join(workspace, 'forge.yml'),
+        [
+          'type: yaml-forge',
+          'apiPath: /api/v2',
+          'detect:',
+          '  hostnames: [forge.corp.example]',
+          'operations:',
+          '  tagExists: { path: "/repos/{owner}/{repo}/tags/{tag}" }',
+          '  createTag: { method: POST, path: "/repos/{owner}/{repo}/tags", body: { name: "{tag}", target: "{sha}" } }',
+          '  deleteTag: { method: DELETE, path: "/repos/{owner}/{repo}/tags/{tag}" }',
+          '  getHeadSha: { path: "/repos/{owner}/{repo}/head", response: sha }',
+          ''
+        ].join('\n')
+      );
+      fs.writeFileSync(path.join(workspace, 'broken.json'), '{"type": "json-forge", "operations": {}}');
+      process.env.GITHUB_WORKSPACE = workspace;
+
+      try {
+        const plugin = loadPlatformPlugin('forge.yml', logger);
+        const repoInfo = {
+          owner: 'owner',
+          repo: 'repo',
+          platform: 'auto' as const,
+          url: 'https://forge.corp.example/owner/repo'
+        };
+
+        const { platform, baseUrl } = await createPlatformAPI(repoInfo, 'auto', { ...baseConfig, plugins: [plugin] }, logger);
+        expect(platform).toBe('yaml-forge');
+        expect(baseUrl).toBe('https://forge.corp.example/api/v2');
+        expect(() => loadPlatformPlugin('broken.json', logger)).toThrow(
+          'Invalid platform descriptor broken.json: operations.tagExists.path must be a string'
+        );
+      } finally {
+        fs.rmSync(workspace, { recursive: true, force: true });
+      }
+    });
+  });
 });
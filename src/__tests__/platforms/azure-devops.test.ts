@@ -0,0 +1,263 @@
+import { AzureDevOpsAPI, detectFromUrl, detectFromUrlByHostname, determineBaseUrl } from '../../platforms/azure-devops';
+import { Logger } from '../../logger';
+import { HttpClient } from '../../platforms/http-client';
+
+// Mock HttpClient
+jest.mock('../../platforms/http-client');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const ZERO_SHA = '0000000000000000000000000000000000000000';
+
+describe('AzureDevOpsAPI', () => {
+  let api: AzureDevOpsAPI;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      delete: jest.fn(),
+      request: jest.fn(),
+      getWithResponse: jest.fn()
+    } as unknown as jest.Mocked<HttpClient>;
+
+    (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
+
+    api = new AzureDevOpsAPI(
+      { owner: 'org/My%20Project', repo: 'repo', platform: 'azure-devops' },
+      {
+        type: 'azure-devops',
+        baseUrl: 'https://dev.azure.com',
+        token: 'pat',
+        ignoreCertErrors: false,
+        verbose: false
+      },
+      mockLogger
+    );
+  });
+
+  it('should use Basic auth for personal access tokens', () => {
+    expect(HttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({ authScheme: 'basic', token: 'pat' }),
+      mockLogger
+    );
+  });
+
+  describe('tagExists', () => {
+    it('should match the tag ref exactly', async () => {
+      mockHttpClient.get.mockResolvedValue({
+        value: [{ name: 'refs/tags/v1.0.0', objectId: 'abc' }]
+      });
+
+      expect(await api.tagExists('v1')).toBe(false);
+      expect(await api.tagExists('v1.0.0')).toBe(true);
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith(
+        '/org/My%20Project/_apis/git/repositories/repo/refs?filter=tags%2Fv1.0.0&api-version=7.1'
+      );
+    });
+  });
+
+  describe('getTag', () => {
+    it('should read annotated tags through the Annotated Tags API', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({
+          value: [
+            { name: 'refs/tags/v1.0.0-rc1', objectId: 'other-sha' },
+            { name: 'refs/tags/v1.0.0', objectId: 'tag-sha', peeledObjectId: 'commit-sha' }
+          ]
+        })
+        .mockResolvedValueOnce({
+          message: 'Release v1.0.0',
+          taggedBy: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z' }
+        });
+
+      expect(await api.getTag('v1.0.0')).toEqual({
+        tagName: 'v1.0.0',
+        refSha: 'tag-sha',
+        commitSha: 'commit-sha',
+        type: 'annotated',
+        message: 'Release v1.0.0',
+        tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z' }
+      });
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        '/org/My%20Project/_apis/git/repositories/repo/refs?filter=tags%2Fv1.0.0&peelTags=true&api-version=7.1'
+      );
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        '/org/My%20Project/_apis/git/repositories/repo/annotatedtags/tag-sha?api-version=7.1-preview.1'
+      );
+    });
+
+    it('should report lightweight tags without a peeled object', async () => {
+      mockHttpClient.get.mockResolvedValue({ value: [{ name: 'refs/tags/v1.0.0', objectId: 'commit-sha' }] });
+
+      expect(await api.getTag('v1.0.0')).toEqual({ tagName: 'v1.0.0', refSha: 'commit-sha', commitSha: 'commit-sha', type: 'lightweight' });
+    });
+  });
+
+  it('should not repeat the collection the base URL already points at', async () => {
+    api = new AzureDevOpsAPI(
+      { owner: 'tfs/DefaultCollection/My%20Project', repo: 'repo', platform: 'azure-devops' },
+      { type: 'azure-devops', baseUrl: 'https://tfs.example.com/tfs/DefaultCollection', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+    mockHttpClient.get.mockResolvedValue({ value: [] });
+
+    await api.tagExists('v1.0.0');
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith(
+      '/My%20Project/_apis/git/repositories/repo/refs?filter=tags%2Fv1.0.0&api-version=7.1'
+    );
+  });
+
+  describe('listTags', () => {
+    it('should peel annotated tags and follow continuation tokens', async () => {
+      mockHttpClient.getWithResponse
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: new Headers({ 'x-ms-continuationtoken': 'next token' }),
+          body: { value: [{ name: 'refs/tags/v2.0.0', objectId: 'tag-sha', peeledObjectId: 'sha-2' }] }
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: new Headers(),
+          body: { value: [{ name: 'refs/tags/v1.0.0', objectId: 'sha-1' }] }
+        });
+
+      expect(await api.listTags()).toEqual([
+        { tagName: 'v2.0.0', commitSha: 'sha-2' },
+        { tagName: 'v1.0.0', commitSha: 'sha-1' }
+      ]);
+      expect(mockHttpClient.getWithResponse).toHaveBeenLastCalledWith(
+        expect.stringContaining('&continuationToken=next%20token')
+      );
+    });
+  });
+
+  describe('createTag', () => {
+    it('should create an annotated tag through the annotatedtags API', async () => {
+      mockHttpClient.get.mockResolvedValue({ value: [] });
+      mockHttpClient.post.mockResolvedValue({});
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(result.created).toBe(true);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/org/My%20Project/_apis/git/repositories/repo/annotatedtags?api-version=7.1-preview.1',
+        { name: 'v1.0.0', taggedObject: { objectId: 'commit-sha' }, message: 'Release v1.0.0' }
+      );
+    });
+
+    it('should create a lightweight tag through the refs API', async () => {
+      mockHttpClient.get.mockResolvedValue({ value: [] });
+      mockHttpClient.post.mockResolvedValue({ value: [{ name: 'refs/tags/v1.0.0', success: true, updateStatus: 'succeeded' }] });
+
+      await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/org/My%20Project/_apis/git/repositories/repo/refs?api-version=7.1',
+        [{ name: 'refs/tags/v1.0.0', oldObjectId: ZERO_SHA, newObjectId: 'commit-sha' }]
+      );
+    });
+
+    it('should move an existing lightweight tag with a single ref update', async () => {
+      mockHttpClient.get.mockResolvedValue({ value: [{ name: 'refs/tags/v1.0.0', objectId: 'old-sha' }] });
+      mockHttpClient.post.mockResolvedValue({ value: [{ name: 'refs/tags/v1.0.0', success: true, updateStatus: 'succeeded' }] });
+
+      const result = await api.updateTag({ tagName: 'v1.0.0', sha: 'new-sha', gpgSign: false, force: true, verbose: false });
+
+      expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/org/My%20Project/_apis/git/repositories/repo/refs?api-version=7.1',
+        [{ name: 'refs/tags/v1.0.0', oldObjectId: 'old-sha', newObjectId: 'new-sha' }]
+      );
+      expect(result).toMatchObject({ exists: true, updated: true });
+    });
+
+    it('should surface rejected ref updates', async () => {
+      mockHttpClient.get.mockResolvedValue({ value: [] });
+      mockHttpClient.post.mockResolvedValue({ value: [{ name: 'refs/tags/v1.0.0', success: false, updateStatus: 'forcePushRequired' }] });
+
+      await expect(api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      })).rejects.toThrow('forcePushRequired');
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should delete the ref using its current object id', async () => {
+      mockHttpClient.get.mockResolvedValue({ value: [{ name: 'refs/tags/v1.0.0', objectId: 'old-sha' }] });
+      mockHttpClient.post.mockResolvedValue({ value: [{ name: 'refs/tags/v1.0.0', success: true, updateStatus: 'succeeded' }] });
+
+      await api.deleteTag('v1.0.0');
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/org/My%20Project/_apis/git/repositories/repo/refs?api-version=7.1',
+        [{ name: 'refs/tags/v1.0.0', oldObjectId: 'old-sha', newObjectId: ZERO_SHA }]
+      );
+    });
+
+    it('should skip missing tags', async () => {
+      mockHttpClient.get.mockResolvedValue({ value: [] });
+
+      await api.deleteTag('v1.0.0');
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHeadSha', () => {
+    it('should resolve the repository default branch', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({ defaultBranch: 'refs/heads/develop' })
+        .mockResolvedValueOnce({ value: [{ name: 'refs/heads/develop', objectId: 'head-sha' }] });
+
+      expect(await api.getHeadSha()).toBe('head-sha');
+    });
+  });
+});
+
+describe('Azure DevOps detection', () => {
+  const logger = new Logger(false);
+
+  it('should detect dev.azure.com and visualstudio.com hostnames', () => {
+    expect(detectFromUrlByHostname(new URL('https://dev.azure.com/org/project/_git/repo'))).toBe('azure-devops');
+    expect(detectFromUrlByHostname(new URL('https://org.visualstudio.com/project/_git/repo'))).toBe('azure-devops');
+    expect(detectFromUrlByHostname(new URL('https://github.com/owner/repo'))).toBeUndefined();
+  });
+
+  it('should detect Azure DevOps Server from the /_git/ URL shape', async () => {
+    expect(await detectFromUrl(new URL('https://tfs.example.com/Collection/project/_git/repo'), logger)).toBe('azure-devops');
+    expect(await detectFromUrl(new URL('https://git.example.com/owner/repo'), logger)).toBeUndefined();
+  });
+
+  it('should use the server origin as base URL', () => {
+    expect(determineBaseUrl('https://dev.azure.com/org/project/_git/repo')).toBe('https://dev.azure.com/org/project');
+    expect(determineBaseUrl(['https://tfs.example.com/tfs/DefaultCollection/', 'https://tfs.example.com/tfs/DefaultCollection/Project/_git/repo']))
+      .toBe('https://tfs.example.com/tfs/DefaultCollection');
+    expect(determineBaseUrl([])).toBe('https://dev.azure.com');
+  });
+});
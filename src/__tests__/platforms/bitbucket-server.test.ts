@@ -0,0 +1,187 @@
+import { BitbucketServerAPI, detectFromUrl, detectFromUrlByHostname, determineBaseUrl } from '../../platforms/bitbucket-server';
+import { Logger } from '../../logger';
+import { HttpClient } from '../../platforms/http-client';
+
+// Mock HttpClient
+jest.mock('../../platforms/http-client');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const originalFetch = global.fetch;
+
+describe('BitbucketServerAPI', () => {
+  let api: BitbucketServerAPI;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      delete: jest.fn(),
+      request: jest.fn()
+    } as unknown as jest.Mocked<HttpClient>;
+
+    (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
+
+    api = new BitbucketServerAPI(
+      { owner: 'PROJ', repo: 'repo', platform: 'bitbucket-server' },
+      {
+        type: 'bitbucket-server',
+        baseUrl: 'https://bitbucket.example.com',
+        token: 'http-access-token',
+        ignoreCertErrors: false,
+        verbose: false
+      },
+      mockLogger
+    );
+  });
+
+  it('should use Bearer auth for HTTP access tokens', () => {
+    expect(HttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({ authScheme: 'bearer', baseUrl: 'https://bitbucket.example.com' }),
+      mockLogger
+    );
+  });
+
+  it('should require a base URL', () => {
+    expect(() => new BitbucketServerAPI(
+      { owner: 'PROJ', repo: 'repo', platform: 'bitbucket-server' },
+      { type: 'bitbucket-server', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    )).toThrow('requires base_url');
+  });
+
+  describe('tagExists', () => {
+    it('should query the core REST API', async () => {
+      mockHttpClient.get.mockResolvedValue({ id: 'refs/tags/v1.0.0' });
+
+      expect(await api.tagExists('v1.0.0')).toBe(true);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/rest/api/1.0/projects/PROJ/repos/repo/tags/v1.0.0');
+    });
+
+    it('should return false on 404', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+
+      expect(await api.tagExists('v1.0.0')).toBe(false);
+    });
+  });
+
+  describe('getTag', () => {
+    it('should use hash as the tag object of annotated tags', async () => {
+      mockHttpClient.get.mockResolvedValue({ id: 'refs/tags/v1.0.0', latestCommit: 'commit-sha', hash: 'tag-sha' });
+
+      expect(await api.getTag('v1.0.0')).toEqual({ tagName: 'v1.0.0', refSha: 'tag-sha', commitSha: 'commit-sha', type: 'annotated' });
+    });
+
+    it('should report lightweight tags', async () => {
+      mockHttpClient.get.mockResolvedValue({ id: 'refs/tags/v1.0.0', latestCommit: 'commit-sha', hash: null });
+
+      expect(await api.getTag('v1.0.0')).toEqual({ tagName: 'v1.0.0', refSha: 'commit-sha', commitSha: 'commit-sha', type: 'lightweight' });
+    });
+  });
+
+  describe('listTags', () => {
+    it('should page with nextPageStart until the last page', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({ values: [{ displayId: 'v2.0.0', latestCommit: 'sha-2' }], isLastPage: false, nextPageStart: 100 })
+        .mockResolvedValueOnce({ values: [{ displayId: 'v1.0.0', latestCommit: 'sha-1' }], isLastPage: true });
+
+      expect(await api.listTags()).toEqual([
+        { tagName: 'v2.0.0', commitSha: 'sha-2' },
+        { tagName: 'v1.0.0', commitSha: 'sha-1' }
+      ]);
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith(expect.stringContaining('/tags?start=100&limit=100'));
+    });
+  });
+
+  describe('createTag', () => {
+    it('should create the tag through the git REST API', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+      mockHttpClient.post.mockResolvedValue({ id: 'refs/tags/v1.0.0' });
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(result.created).toBe(true);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/rest/git/1.0/projects/PROJ/repos/repo/tags',
+        { name: 'v1.0.0', startPoint: 'commit-sha', message: 'Release v1.0.0' }
+      );
+    });
+
+    it('should delete and recreate tag if force is true', async () => {
+      mockHttpClient.get.mockResolvedValue({ id: 'refs/tags/v1.0.0' });
+      mockHttpClient.delete.mockResolvedValue(undefined);
+      mockHttpClient.post.mockResolvedValue({ id: 'refs/tags/v1.0.0' });
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        gpgSign: false,
+        force: true,
+        verbose: false
+      });
+
+      expect(result.updated).toBe(true);
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('/rest/git/1.0/projects/PROJ/repos/repo/tags/v1.0.0');
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/rest/git/1.0/projects/PROJ/repos/repo/tags',
+        { name: 'v1.0.0', startPoint: 'commit-sha' }
+      );
+    });
+  });
+
+  describe('getHeadSha', () => {
+    it('should return the default branch latest commit', async () => {
+      mockHttpClient.get.mockResolvedValue({ id: 'refs/heads/master', latestCommit: 'head-sha' });
+
+      expect(await api.getHeadSha()).toBe('head-sha');
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/rest/api/1.0/projects/PROJ/repos/repo/branches/default');
+    });
+  });
+});
+
+describe('Bitbucket Server detection', () => {
+  const logger = new Logger(false);
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should detect self-hosted bitbucket hostnames but not bitbucket.org', () => {
+    expect(detectFromUrlByHostname(new URL('https://bitbucket.example.com/scm/proj/repo.git'))).toBe('bitbucket-server');
+    expect(detectFromUrlByHostname(new URL('https://bitbucket.org/owner/repo'))).toBeUndefined();
+  });
+
+  it('should detect the /rest/api/1.0 endpoint', async () => {
+    global.fetch = jest.fn().mockImplementation((input: any) => {
+      const urlStr = input.toString();
+      if (urlStr.endsWith('/rest/api/1.0')) {
+        return Promise.resolve(new Response(null, { status: 401, statusText: 'Unauthorized' }));
+      }
+      return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
+    });
+
+    expect(await detectFromUrl(new URL('https://git.example.com/scm/proj/repo.git'), logger)).toBe('bitbucket-server');
+  });
+
+  it('should derive the server root including context path', () => {
+    expect(determineBaseUrl('https://git.example.com/bitbucket/rest/api/1.0')).toBe('https://git.example.com/bitbucket');
+    expect(determineBaseUrl('https://git.example.com/scm/proj/repo.git')).toBe('https://git.example.com');
+    expect(determineBaseUrl('https://git.example.com/projects/PROJ/repos/repo/browse')).toBe('https://git.example.com');
+    expect(determineBaseUrl([])).toBeUndefined();
+  });
+});
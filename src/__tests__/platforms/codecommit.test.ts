@@ -0,0 +1,265 @@
+import { CodeCommitAPI, detectFromUrlByHostname, determineBaseUrl, regionFromUrl } from '../../platforms/codecommit';
+import { signRequest } from '../../platforms/aws-sigv4';
+import { Logger } from '../../logger';
+import * as git from '../../git';
+
+// Mock Git CLI helpers
+jest.mock('../../git');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const originalFetch = global.fetch;
+const originalEnv = process.env;
+
+describe('signRequest', () => {
+  it('should match the AWS SigV4 get-vanilla test vector', () => {
+    const headers = signRequest({
+      method: 'GET',
+      url: 'https://example.amazonaws.com/',
+      headers: {},
+      body: '',
+      region: 'us-east-1',
+      service: 'service',
+      credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' },
+      date: new Date('2015-08-30T12:36:00Z')
+    });
+
+    expect(headers['x-amz-date']).toBe('20150830T123600Z');
+    expect(headers.Authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+      'SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+    );
+  });
+
+  it('should sign the session token when present', () => {
+    const headers = signRequest({
+      method: 'POST',
+      url: 'https://codecommit.us-east-1.amazonaws.com/',
+      headers: {},
+      body: '{}',
+      region: 'us-east-1',
+      service: 'codecommit',
+      credentials: { accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: 'session' }
+    });
+
+    expect(headers['x-amz-security-token']).toBe('session');
+    expect(headers.Authorization).toContain('SignedHeaders=host;x-amz-date;x-amz-security-token');
+  });
+});
+
+describe('CodeCommitAPI', () => {
+  let api: CodeCommitAPI;
+  const mockedGit = git as jest.Mocked<typeof git>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, AWS_ACCESS_KEY_ID: 'AKID', AWS_SECRET_ACCESS_KEY: 'secret' };
+    delete process.env.AWS_SESSION_TOKEN;
+    delete process.env.AWS_REGION;
+    delete process.env.AWS_DEFAULT_REGION;
+
+    mockedGit.isGitRepository.mockResolvedValue(true);
+    mockedGit.createTag.mockImplementation(async (options) => ({
+      tagName: options.tagName,
+      sha: options.sha,
+      objectSha: options.sha,
+      commitSha: options.sha,
+      type: 'lightweight',
+      exists: false,
+      created: true,
+      updated: false
+    }));
+
+    api = new CodeCommitAPI(
+      {
+        owner: 'eu-west-1',
+        repo: 'MyRepo',
+        url: 'https://git-codecommit.eu-west-1.amazonaws.com/v1/repos/MyRepo',
+        platform: 'codecommit'
+      },
+      { type: 'codecommit', baseUrl: 'http://localhost:4566', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    global.fetch = originalFetch;
+  });
+
+  it('should require a region', () => {
+    expect(() => new CodeCommitAPI(
+      { owner: '', repo: 'MyRepo', platform: 'codecommit' },
+      { type: 'codecommit', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    )).toThrow('requires an AWS region');
+  });
+
+  describe('getHeadSha', () => {
+    it('should resolve the default branch through signed API calls to base_url', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce(new Response('{"repositoryMetadata":{"defaultBranch":"main"}}', { status: 200 }))
+        .mockResolvedValueOnce(new Response('{"branch":{"branchName":"main","commitId":"head-sha"}}', { status: 200 }));
+      global.fetch = fetchMock;
+
+      expect(await api.getHeadSha()).toBe('head-sha');
+
+      const [url, init] = fetchMock.mock.calls[1];
+      expect(url).toBe('http://localhost:4566/');
+      expect(init.headers['X-Amz-Target']).toBe('CodeCommit_20150413.GetBranch');
+      expect(init.headers.Authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=AKID\/\d{8}\/eu-west-1\/codecommit\/aws4_request/);
+      expect(JSON.parse(init.body)).toEqual({ repositoryName: 'MyRepo', branchName: 'main' });
+    });
+
+    it('should surface API errors', async () => {
+      global.fetch = jest.fn().mockResolvedValue(
+        new Response('{"__type":"RepositoryDoesNotExistException"}', { status: 400, statusText: 'Bad Request' })
+      );
+
+      await expect(api.getHeadSha()).rejects.toThrow('HTTP 400');
+    });
+
+    it('should require AWS credentials', async () => {
+      delete process.env.AWS_ACCESS_KEY_ID;
+
+      await expect(api.getHeadSha()).rejects.toThrow('AWS_ACCESS_KEY_ID');
+    });
+  });
+
+  describe('getTag', () => {
+    it('should read the tag from the remote with the credential helper', async () => {
+      mockedGit.getTagInfoRemote.mockResolvedValue(undefined);
+
+      expect(await api.getTag('v1.0.0')).toBeUndefined();
+      expect(mockedGit.getTagInfoRemote).toHaveBeenCalledWith(
+        'v1.0.0',
+        'https://git-codecommit.eu-west-1.amazonaws.com/v1/repos/MyRepo',
+        mockLogger,
+        expect.arrayContaining(['credential.UseHttpPath=true'])
+      );
+    });
+  });
+
+  describe('listTags', () => {
+    it('should list the tags on the remote with the credential helper', async () => {
+      mockedGit.listTagsRemote.mockResolvedValue([{ tagName: 'v1.0.0', commitSha: 'sha-1' }]);
+
+      expect(await api.listTags({ limit: 5 })).toEqual([{ tagName: 'v1.0.0', commitSha: 'sha-1' }]);
+      expect(mockedGit.listTagsRemote).toHaveBeenCalledWith(
+        { limit: 5 },
+        'https://git-codecommit.eu-west-1.amazonaws.com/v1/repos/MyRepo',
+        mockLogger,
+        expect.arrayContaining(['credential.UseHttpPath=true'])
+      );
+    });
+  });
+
+  describe('createTag', () => {
+    beforeEach(() => {
+      global.fetch = jest.fn().mockImplementation(async () => new Response('{"commit":{"commitId":"commit-sha"}}', { status: 200 }));
+    });
+
+    it('should push over HTTPS with the AWS CLI credential helper', async () => {
+      mockedGit.getTagInfoRemote.mockResolvedValue(undefined);
+
+      const result = await api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false });
+
+      expect(result.created).toBe(true);
+      expect(mockedGit.pushTag).toHaveBeenCalledWith(
+        'v1.0.0',
+        'https://git-codecommit.eu-west-1.amazonaws.com/v1/repos/MyRepo',
+        undefined,
+        false,
+        mockLogger,
+        expect.arrayContaining(['credential.helper=!aws codecommit credential-helper $@'])
+      );
+    });
+
+    it('should push codecommit:: remotes without a credential helper', async () => {
+      api = new CodeCommitAPI(
+        { owner: 'eu-west-1', repo: 'MyRepo', url: 'codecommit::eu-west-1://MyRepo', platform: 'codecommit' },
+        { type: 'codecommit', ignoreCertErrors: false, verbose: false },
+        mockLogger
+      );
+      mockedGit.getTagInfoRemote.mockResolvedValue(undefined);
+
+      await api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false });
+
+      expect(mockedGit.pushTag).toHaveBeenCalledWith('v1.0.0', 'codecommit::eu-west-1://MyRepo', undefined, false, mockLogger, []);
+    });
+
+    it('should not recreate an existing tag without force', async () => {
+      mockedGit.getTagInfoRemote.mockResolvedValue({
+        tagName: 'v1.0.0',
+        refSha: 'commit-sha',
+        commitSha: 'commit-sha',
+        type: 'lightweight'
+      });
+
+      const result = await api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false });
+
+      expect(result.exists).toBe(true);
+      expect(mockedGit.createTag).not.toHaveBeenCalled();
+      expect(mockedGit.pushTag).not.toHaveBeenCalled();
+    });
+
+    it('should look the commit up in the repository before tagging it', async () => {
+      mockedGit.getTagInfoRemote.mockResolvedValue(undefined);
+
+      await api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false });
+
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(init.headers['X-Amz-Target']).toBe('CodeCommit_20150413.GetCommit');
+      expect(JSON.parse(init.body)).toEqual({ repositoryName: 'MyRepo', commitId: 'commit-sha' });
+    });
+
+    it('should fail without tagging when the commit is not in the repository', async () => {
+      mockedGit.getTagInfoRemote.mockResolvedValue(undefined);
+      global.fetch = jest.fn().mockResolvedValue(
+        new Response('{"__type":"CommitIdDoesNotExistException"}', { status: 400, statusText: 'Bad Request' })
+      );
+
+      await expect(
+        api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false })
+      ).rejects.toThrow('Commit commit-sha does not exist in CodeCommit repository MyRepo; push it before tagging');
+      expect(mockedGit.createTag).not.toHaveBeenCalled();
+      expect(mockedGit.pushTag).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('CodeCommit detection', () => {
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should detect CodeCommit hosts and codecommit:: URLs', () => {
+    expect(detectFromUrlByHostname(new URL('https://git-codecommit.us-east-1.amazonaws.com/v1/repos/MyRepo'))).toBe('codecommit');
+    expect(detectFromUrlByHostname(new URL('codecommit::us-east-1://MyRepo'))).toBe('codecommit');
+    expect(detectFromUrlByHostname(new URL('https://s3.us-east-1.amazonaws.com/bucket'))).toBeUndefined();
+  });
+
+  it('should extract the region', () => {
+    expect(regionFromUrl('codecommit::ap-southeast-2://MyRepo')).toBe('ap-southeast-2');
+    expect(regionFromUrl('https://git-codecommit-fips.us-gov-west-1.amazonaws.com/v1/repos/MyRepo')).toBe('us-gov-west-1');
+    expect(regionFromUrl('https://github.com/owner/repo')).toBeUndefined();
+  });
+
+  it('should prefer an explicit endpoint and otherwise derive the regional one', () => {
+    process.env = { ...originalEnv };
+    delete process.env.AWS_REGION;
+    delete process.env.AWS_DEFAULT_REGION;
+
+    expect(determineBaseUrl(['http://localhost:4566/', 'codecommit::us-east-1://MyRepo'])).toBe('http://localhost:4566');
+    expect(determineBaseUrl(['https://git-codecommit.us-east-1.amazonaws.com/v1/repos/MyRepo'])).toBe('https://codecommit.us-east-1.amazonaws.com');
+    expect(determineBaseUrl(['https://github.com/owner/repo'])).toBeUndefined();
+
+    process.env.AWS_REGION = 'eu-central-1';
+    expect(determineBaseUrl([])).toBe('https://codecommit.eu-central-1.amazonaws.com');
+  });
+});
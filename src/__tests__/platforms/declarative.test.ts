@@ -0,0 +1,251 @@
+import { DeclarativeAPI, PlatformDescriptor, createDeclarativeProvider, selectJsonPath } from '../../platforms/declarative';
+import { Logger } from '../../logger';
+import { HttpClient } from '../../platforms/http-client';
+
+// Mock HttpClient
+jest.mock('../../platforms/http-client');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const descriptor: PlatformDescriptor = {
+  type: 'forge',
+  apiPath: '/api/v2',
+  detect: { hostnames: ['forge.example'] },
+  auth: { header: 'X-Forge-Token', format: 'key={token}' },
+  operations: {
+    tagExists: { path: '/repos/{owner}/{repo}/tags', response: 'items', nameField: 'name' },
+    createTag: {
+      method: 'post',
+      path: '/repos/{owner}/{repo}/tags',
+      body: { name: '{tag}', target: '{sha}', message: '{message}' }
+    },
+    getTag: {
+      path: '/repos/{owner}/{repo}/tags/{tag}',
+      response: 'data',
+      fields: { refSha: 'id', commitSha: 'commit.sha', message: 'message', taggerName: 'tagger.name', taggerEmail: 'tagger.email' }
+    },
+    listTags: {
+      path: '/repos/{owner}/{repo}/tags?page={page}',
+      response: 'items',
+      fields: { name: 'name', commitSha: 'commit.sha' }
+    },
+    deleteTag: { method: 'DELETE', path: '/repos/{owner}/{repo}/tags/{tag}' },
+    getHeadSha: {
+      path: '/repos/{owner}/{repo}/branches/{branch}',
+      response: 'commit.id',
+      defaultBranch: { path: '/repos/{owner}/{repo}', response: 'default_branch' }
+    }
+  }
+};
+
+describe('selectJsonPath', () => {
+  it('should follow object keys and array indexes', () => {
+    expect(selectJsonPath({ data: [{ sha: 'abc' }] }, 'data[0].sha')).toBe('abc');
+    expect(selectJsonPath({ data: null }, 'data.sha')).toBeUndefined();
+  });
+});
+
+describe('DeclarativeAPI', () => {
+  let api: DeclarativeAPI;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHttpClient = {
+      request: jest.fn()
+    } as unknown as jest.Mocked<HttpClient>;
+
+    (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
+
+    api = new DeclarativeAPI(
+      descriptor,
+      { owner: 'owner', repo: 'repo', platform: 'auto' },
+      { type: 'auto', baseUrl: 'https://forge.example/api/v2', token: 'secret', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+  });
+
+  it('should send the token in the configured header', () => {
+    expect(HttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({ authScheme: 'header', authHeaderName: 'X-Forge-Token', authHeaderFormat: 'key={token}' }),
+      mockLogger
+    );
+  });
+
+  describe('tagExists', () => {
+    it('should look the tag up by name in a list response', async () => {
+      mockHttpClient.request.mockResolvedValue({ items: [{ name: 'v1.0.0-rc1' }, { name: 'v1.0.0' }] });
+
+      expect(await api.tagExists('v1.0.0')).toBe(true);
+      expect(await api.tagExists('v1.0')).toBe(false);
+      expect(mockHttpClient.request).toHaveBeenCalledWith('GET', '/repos/owner/repo/tags', undefined);
+    });
+
+    it('should return false on 404', async () => {
+      mockHttpClient.request.mockRejectedValue(new Error('HTTP 404 Not Found: {}'));
+
+      expect(await api.tagExists('v1.0.0')).toBe(false);
+    });
+  });
+
+  describe('getTag', () => {
+    it('should map the response fields and derive the tag type', async () => {
+      mockHttpClient.request.mockResolvedValueOnce({
+        data: { id: 'tag-sha', commit: { sha: 'commit-sha' }, message: 'Release', tagger: { name: 'Bot', email: 'bot@example.com' } }
+      });
+
+      expect(await api.getTag('v1.0.0')).toEqual({
+        tagName: 'v1.0.0',
+        refSha: 'tag-sha',
+        commitSha: 'commit-sha',
+        type: 'annotated',
+        message: 'Release',
+        tagger: { name: 'Bot', email: 'bot@example.com', date: undefined },
+        signature: undefined
+      });
+      expect(mockHttpClient.request).toHaveBeenCalledWith('GET', '/repos/owner/repo/tags/v1.0.0', undefined);
+    });
+
+    it('should return undefined on 404', async () => {
+      mockHttpClient.request.mockRejectedValue(new Error('HTTP 404 Not Found: {}'));
+
+      expect(await api.getTag('v1.0.0')).toBeUndefined();
+    });
+
+    it('should return undefined without a getTag operation', async () => {
+      const { getTag: _getTag, ...operations } = descriptor.operations;
+      api = new DeclarativeAPI(
+        { ...descriptor, operations },
+        { owner: 'owner', repo: 'repo', platform: 'auto' },
+        { type: 'auto', baseUrl: 'https://forge.example/api/v2', ignoreCertErrors: false, verbose: false },
+        mockLogger
+      );
+
+      expect(await api.getTag('v1.0.0')).toBeUndefined();
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listTags', () => {
+    it('should request pages until an empty page', async () => {
+      mockHttpClient.request
+        .mockResolvedValueOnce({ items: [{ name: 'v1.0.0', commit: { sha: 'sha-1' } }] })
+        .mockResolvedValueOnce({ items: [] });
+
+      expect(await api.listTags()).toEqual([{ tagName: 'v1.0.0', commitSha: 'sha-1' }]);
+      expect(mockHttpClient.request).toHaveBeenNthCalledWith(2, 'GET', '/repos/owner/repo/tags?page=2', undefined);
+    });
+  });
+
+  describe('createTag', () => {
+    it('should fill the body template', async () => {
+      mockHttpClient.request.mockResolvedValueOnce({ items: [] }).mockResolvedValueOnce({});
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'abc123',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(mockHttpClient.request).toHaveBeenCalledWith('POST', '/repos/owner/repo/tags', {
+        name: 'v1.0.0',
+        target: 'abc123',
+        message: 'Release v1.0.0'
+      });
+      expect(result.created).toBe(true);
+    });
+
+    it('should leave out the message field when there is no message', async () => {
+      mockHttpClient.request.mockResolvedValueOnce({ items: [] }).mockResolvedValueOnce({});
+
+      await api.createTag({ tagName: 'v1.0.0', sha: 'abc123', message: '', gpgSign: false, force: false, verbose: false });
+
+      expect(mockHttpClient.request).toHaveBeenCalledWith('POST', '/repos/owner/repo/tags', {
+        name: 'v1.0.0',
+        target: 'abc123'
+      });
+    });
+
+    it('should not create when the tag exists and force is false', async () => {
+      mockHttpClient.request.mockResolvedValue({ items: [{ name: 'v1.0.0' }] });
+
+      const result = await api.createTag({ tagName: 'v1.0.0', sha: 'abc123', message: '', gpgSign: false, force: false, verbose: false });
+
+      expect(result.exists).toBe(true);
+      expect(result.created).toBe(false);
+      expect(mockHttpClient.request).not.toHaveBeenCalledWith('POST', expect.anything(), expect.anything());
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should URL-encode the tag name in the path and ignore 404', async () => {
+      mockHttpClient.request.mockRejectedValue(new Error('HTTP 404 Not Found: {}'));
+
+      await expect(api.deleteTag('release/1.0')).resolves.toBeUndefined();
+      expect(mockHttpClient.request).toHaveBeenCalledWith('DELETE', '/repos/owner/repo/tags/release%2F1.0', undefined);
+    });
+  });
+
+  describe('getHeadSha', () => {
+    it('should read the default branch and then its commit', async () => {
+      mockHttpClient.request.mockResolvedValueOnce({ default_branch: 'trunk' }).mockResolvedValueOnce({ commit: { id: 'def456' } });
+
+      expect(await api.getHeadSha()).toBe('def456');
+      expect(mockHttpClient.request).toHaveBeenLastCalledWith('GET', '/repos/owner/repo/branches/trunk', undefined);
+    });
+
+    it('should throw when the response has no SHA', async () => {
+      mockHttpClient.request.mockResolvedValueOnce({ default_branch: 'trunk' }).mockResolvedValueOnce({});
+
+      await expect(api.getHeadSha()).rejects.toThrow('No commit found for branch trunk');
+    });
+  });
+
+  describe('resolveCommit', () => {
+    it('should use the SHA as given without a resolveCommit operation', async () => {
+      expect(await api.resolveCommit('abc123')).toBe('abc123');
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+      expect(mockLogger.warning).toHaveBeenCalledWith(expect.stringContaining('has no resolveCommit operation; abc123 is used as given'));
+    });
+
+    it('should expand the SHA through the resolveCommit operation', async () => {
+      api = new DeclarativeAPI(
+        { ...descriptor, operations: { ...descriptor.operations, resolveCommit: { path: '/repos/{owner}/{repo}/commits/{sha}', response: 'id' } } },
+        { owner: 'owner', repo: 'repo', platform: 'auto' },
+        { type: 'auto', baseUrl: 'https://forge.example/api/v2', ignoreCertErrors: false, verbose: false },
+        mockLogger
+      );
+      mockHttpClient.request.mockResolvedValueOnce({ id: 'abc123def456abc123def456abc123def456abcd' });
+
+      expect(await api.resolveCommit('abc123')).toBe('abc123def456abc123def456abc123def456abcd');
+      expect(mockHttpClient.request).toHaveBeenCalledWith('GET', '/repos/owner/repo/commits/abc123', undefined);
+    });
+  });
+});
+
+describe('createDeclarativeProvider', () => {
+  it('should detect by hostname and derive the API URL from the repository host', () => {
+    const provider = createDeclarativeProvider(descriptor, 'forge.yml');
+
+    expect(provider.detectFromUrlByHostname(new URL('https://git.forge.example/o/r'))).toBe('forge');
+    expect(provider.detectFromUrlByHostname(new URL('https://github.com/o/r'))).toBeUndefined();
+    expect(provider.determineBaseUrl(['https://forge.example/o/r'])).toBe('https://forge.example/api/v2');
+    expect(provider.determineBaseUrl(['https://other.example/api/v2/'])).toBe('https://other.example/api/v2/');
+  });
+
+  it('should reject descriptors without the required operations', () => {
+    expect(() => createDeclarativeProvider({ type: 'forge' }, 'forge.yml')).toThrow("'operations' is required");
+    expect(() =>
+      createDeclarativeProvider({ ...descriptor, operations: { ...descriptor.operations, deleteTag: {} } }, 'forge.yml')
+    ).toThrow('operations.deleteTag.path must be a string');
+  });
+});
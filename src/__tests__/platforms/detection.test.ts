@@ -1,5 +1,6 @@
 import { detectFromUrlByHostname as detectGithubFromUrlByHostname, detectFromUrl as detectGithubFromUrl, determineBaseUrl as determineGithubBaseUrl } from '../../platforms/github';
 import { detectFromUrlByHostname as detectGiteaFromUrlByHostname, detectFromUrl as detectGiteaFromUrl, determineBaseUrl as determineGiteaBaseUrl } from '../../platforms/gitea';
+import { detectFromUrlByHostname as detectGitlabFromUrlByHostname, detectFromUrl as detectGitlabFromUrl, determineBaseUrl as determineGitlabBaseUrl } from '../../platforms/gitlab';
 import { detectFromUrlByHostname as detectBitbucketFromUrlByHostname, detectFromUrl as detectBitbucketFromUrl, determineBaseUrl as determineBitbucketBaseUrl } from '../../platforms/bitbucket';
 import { detectFromUrlByHostname as detectGenericFromUrlByHostname, detectFromUrl as detectGenericFromUrl, determineBaseUrl as determineGenericBaseUrl } from '../../platforms/generic';
 import { Logger } from '../../logger';
@@ -18,6 +19,8 @@ describe('Platform Detection Functions', () => {
     delete process.env.GITHUB_SERVER_URL;
     delete process.env.GITEA_SERVER_URL;
     delete process.env.GITEA_API_URL;
+    delete process.env.CI_API_V4_URL;
+    delete process.env.CI_SERVER_URL;
   });
 
   afterEach(() => {
@@ -39,6 +42,11 @@ describe('Platform Detection Functions', () => {
         expect(result).toBe('github');
       });
 
+      it('should detect common GitHub Enterprise Server hostnames', () => {
+        expect(detectGithubFromUrlByHostname(new URL('https://github.corp.example/owner/repo'))).toBe('github');
+        expect(detectGithubFromUrlByHostname(new URL('https://ghe.corp.example/owner/repo'))).toBe('github');
+      });
+
       it('should not detect non-github URLs', () => {
         const url = new URL('https://gitlab.com/owner/repo');
         const result = detectGithubFromUrlByHostname(url);
@@ -85,6 +93,26 @@ describe('Platform Detection Functions', () => {
       });
     });
 
+    describe('GitLab', () => {
+      it('should detect gitlab.com', () => {
+        const url = new URL('https://gitlab.com/group/subgroup/repo');
+        const result = detectGitlabFromUrlByHostname(url);
+        expect(result).toBe('gitlab');
+      });
+
+      it('should detect hostname containing "gitlab"', () => {
+        const url = new URL('https://gitlab.example.com/owner/repo');
+        const result = detectGitlabFromUrlByHostname(url);
+        expect(result).toBe('gitlab');
+      });
+
+      it('should not detect non-gitlab URLs', () => {
+        const url = new URL('https://github.com/owner/repo');
+        const result = detectGitlabFromUrlByHostname(url);
+        expect(result).toBeUndefined();
+      });
+    });
+
     describe('Bitbucket', () => {
       it('should detect bitbucket.org', () => {
         const url = new URL('https://bitbucket.org/owner/repo');
@@ -92,10 +120,10 @@ describe('Platform Detection Functions', () => {
         expect(result).toBe('bitbucket');
       });
 
-      it('should detect hostname containing "bitbucket"', () => {
+      it('should not detect self-hosted "bitbucket" hostnames (Bitbucket Server)', () => {
         const url = new URL('https://bitbucket.example.com/owner/repo');
         const result = detectBitbucketFromUrlByHostname(url);
-        expect(result).toBe('bitbucket');
+        expect(result).toBeUndefined();
       });
 
       it('should not detect non-bitbucket URLs', () => {
@@ -128,43 +156,25 @@ describe('Platform Detection Functions', () => {
 
   describe('detectFromUrl', () => {
     describe('GitHub', () => {
-      it('should detect GitHub API endpoint', async () => {
+      it('should detect GitHub Enterprise Server by its version header', async () => {
         global.fetch = jest.fn().mockResolvedValue(
-          new Response(null, { status: 200, statusText: 'OK' })
+          new Response(null, { status: 401, statusText: 'Unauthorized', headers: { 'X-GitHub-Enterprise-Version': '3.12.4' } })
         );
 
-        const url = new URL('https://github.com/owner/repo');
+        const url = new URL('https://ghes.corp.local/owner/repo');
         const result = await detectGithubFromUrl(url, logger);
         expect(result).toBe('github');
-        expect(global.fetch).toHaveBeenCalled();
+        expect(global.fetch).toHaveBeenCalledWith('https://ghes.corp.local/api/v3', expect.objectContaining({ method: 'HEAD' }));
       });
 
-      it('should detect GitHub API with /api/v3 path', async () => {
-        global.fetch = jest.fn().mockImplementation((input: any) => {
-          const urlStr = input.toString();
-          if (urlStr.includes('/api/v3')) {
-            return Promise.resolve(new Response(null, { status: 200, statusText: 'OK' }));
-          }
-          return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
-        });
-
-        const url = new URL('https://github.example.com/owner/repo');
-        const result = await detectGithubFromUrl(url, logger);
-        expect(result).toBe('github');
-      });
-
-      it('should detect GitHub API with /api path', async () => {
-        global.fetch = jest.fn().mockImplementation((input: any) => {
-          const urlStr = input.toString();
-          if (urlStr.includes('/api') && !urlStr.includes('/api/v3')) {
-            return Promise.resolve(new Response(null, { status: 200, statusText: 'OK' }));
-          }
-          return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
-        });
+      it('should not detect other servers answering /api/v3', async () => {
+        global.fetch = jest.fn().mockResolvedValue(
+          new Response(null, { status: 200, statusText: 'OK' })
+        );
 
-        const url = new URL('https://github.example.com/owner/repo');
+        const url = new URL('https://git.example.com/owner/repo');
         const result = await detectGithubFromUrl(url, logger);
-        expect(result).toBe('github');
+        expect(result).toBeUndefined();
       });
 
       it('should return undefined when API endpoints are not available', async () => {
@@ -239,6 +249,46 @@ describe('Platform Detection Functions', () => {
       });
     });
 
+    describe('GitLab', () => {
+      it('should detect GitLab from the X-Gitlab-Meta header', async () => {
+        global.fetch = jest.fn().mockImplementation((input: any) => {
+          const urlStr = input.toString();
+          if (urlStr.includes('/api/v4/version')) {
+            return Promise.resolve(new Response('{"message":"401 Unauthorized"}', {
+              status: 401,
+              statusText: 'Unauthorized',
+              headers: { 'X-Gitlab-Meta': '{"correlation_id":"abc"}' }
+            }));
+          }
+          return Promise.resolve(new Response(null, { status: 404, statusText: 'Not Found' }));
+        });
+
+        const url = new URL('https://git.example.com/group/repo');
+        const result = await detectGitlabFromUrl(url, logger);
+        expect(result).toBe('gitlab');
+      });
+
+      it('should detect GitLab from the version response body', async () => {
+        global.fetch = jest.fn().mockResolvedValue(
+          new Response('{"version":"16.8.0","revision":"abc123"}', { status: 200, statusText: 'OK' })
+        );
+
+        const url = new URL('https://git.example.com/group/repo');
+        const result = await detectGitlabFromUrl(url, logger);
+        expect(result).toBe('gitlab');
+      });
+
+      it('should not detect generic 200 responses', async () => {
+        global.fetch = jest.fn().mockResolvedValue(
+          new Response(null, { status: 200, statusText: 'OK' })
+        );
+
+        const url = new URL('https://example.com/owner/repo');
+        const result = await detectGitlabFromUrl(url, logger);
+        expect(result).toBeUndefined();
+      });
+    });
+
     describe('Bitbucket', () => {
       it('should detect Bitbucket API endpoint', async () => {
         global.fetch = jest.fn().mockResolvedValue(
@@ -251,7 +301,7 @@ describe('Platform Detection Functions', () => {
         expect(global.fetch).toHaveBeenCalled();
       });
 
-      it('should detect Bitbucket API with /rest/api/1.0 path', async () => {
+      it('should not detect Bitbucket Server /rest/api/1.0 path as Bitbucket Cloud', async () => {
         global.fetch = jest.fn().mockImplementation((input: any) => {
           const urlStr = input.toString();
           if (urlStr.includes('/rest/api/1.0')) {
@@ -262,7 +312,7 @@ describe('Platform Detection Functions', () => {
 
         const url = new URL('https://bitbucket.example.com/owner/repo');
         const result = await detectBitbucketFromUrl(url, logger);
-        expect(result).toBe('bitbucket');
+        expect(result).toBeUndefined();
       });
 
       it('should detect Bitbucket API with /2.0 path', async () => {
@@ -345,6 +395,37 @@ describe('Platform Detection Functions', () => {
         const result = determineGithubBaseUrl(urls);
         expect(result).toBe('https://api.github.com');
       });
+
+      it('should derive /api/v3 from GitHub Enterprise Server repository URLs', () => {
+        expect(determineGithubBaseUrl(['https://ghe.corp.local/org/repo'])).toBe('https://ghe.corp.local/api/v3');
+        expect(determineGithubBaseUrl(['https://ghe.corp.local:8443/org/repo.git'])).toBe('https://ghe.corp.local:8443/api/v3');
+      });
+
+      it('should derive /api/v3 from a GHES GITHUB_SERVER_URL', () => {
+        // Candidate URLs end with GITHUB_SERVER_URL when no repository URL parses
+        expect(determineGithubBaseUrl(['git@ghe.corp.local:org/repo.git', 'https://ghe.corp.local'])).toBe('https://ghe.corp.local/api/v3');
+      });
+
+      it('should not read repositories whose path merely contains api as API URLs', () => {
+        expect(determineGithubBaseUrl(['https://github.com/org/api-tools'])).toBe('https://api.github.com');
+        expect(determineGithubBaseUrl(['https://ghe.corp.local/api/repo'])).toBe('https://ghe.corp.local/api/v3');
+        expect(determineGithubBaseUrl(['https://ghe.corp.local/api/v3/'])).toBe('https://ghe.corp.local/api/v3/');
+      });
+
+      it('should use GITHUB_API_URL for repositories on the runner\'s server', () => {
+        const originalEnv = process.env;
+        process.env = {
+          ...originalEnv,
+          GITHUB_SERVER_URL: 'https://ghe.corp.local',
+          GITHUB_API_URL: 'https://ghe-api.corp.local/api/v3'
+        };
+
+        expect(determineGithubBaseUrl(['https://ghe.corp.local/org/repo'])).toBe('https://ghe-api.corp.local/api/v3');
+        expect(determineGithubBaseUrl(['https://github.com/org/repo'])).toBe('https://api.github.com');
+        expect(determineGithubBaseUrl([])).toBe('https://ghe-api.corp.local/api/v3');
+
+        process.env = originalEnv;
+      });
     });
 
     describe('Gitea', () => {
@@ -386,6 +467,29 @@ describe('Platform Detection Functions', () => {
       });
     });
 
+    describe('GitLab', () => {
+      it('should return default GitLab API URL when no URLs provided', () => {
+        const result = determineGitlabBaseUrl([]);
+        expect(result).toBe('https://gitlab.com/api/v4');
+      });
+
+      it('should append /api/v4 to self-managed repository URL', () => {
+        const result = determineGitlabBaseUrl('https://git.example.com/group/subgroup/repo');
+        expect(result).toBe('https://git.example.com/api/v4');
+      });
+
+      it('should normalize explicit /api URL', () => {
+        const result = determineGitlabBaseUrl(['https://git.example.com/api', 'https://git.example.com/group/repo']);
+        expect(result).toBe('https://git.example.com/api/v4');
+      });
+
+      it('should use CI_API_V4_URL when no URLs provided', () => {
+        process.env.CI_API_V4_URL = 'https://git.example.com/api/v4';
+        const result = determineGitlabBaseUrl([]);
+        expect(result).toBe('https://git.example.com/api/v4');
+      });
+    });
+
     describe('Bitbucket', () => {
       it('should always return Bitbucket API URL', () => {
         const result = determineBitbucketBaseUrl([]);
@@ -0,0 +1,223 @@
+import { ForgejoAPI, detectFromUrl, detectFromUrlByHostname, determineBaseUrl, isForgejoVersion } from '../../platforms/forgejo';
+import { GiteaAPI } from '../../platforms/gitea';
+import { Logger } from '../../logger';
+import { HttpClient } from '../../platforms/http-client';
+
+// Mock HttpClient
+jest.mock('../../platforms/http-client');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const originalFetch = global.fetch;
+
+describe('ForgejoAPI', () => {
+  let mockHttpClient: jest.Mocked<HttpClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      delete: jest.fn(),
+      request: jest.fn()
+    } as unknown as jest.Mocked<HttpClient>;
+
+    (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
+  });
+
+  it('should build on the Gitea-compatible API and default to Codeberg', () => {
+    const api = new ForgejoAPI(
+      { owner: 'owner', repo: 'repo', platform: 'forgejo' },
+      { type: 'forgejo', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+
+    expect(api).toBeInstanceOf(GiteaAPI);
+    expect(HttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({ baseUrl: 'https://codeberg.org/api/v1' }),
+      mockLogger
+    );
+  });
+
+  it('should URL-encode hierarchical tag names in the Gitea refs path', async () => {
+    const api = new ForgejoAPI(
+      { owner: 'owner', repo: 'repo', platform: 'forgejo' },
+      { type: 'forgejo', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+    mockHttpClient.get.mockResolvedValueOnce([{ ref: 'refs/tags/module/v2.1.0+1', object: { sha: 'commit-sha', type: 'commit' } }]);
+    mockHttpClient.delete.mockResolvedValueOnce(undefined);
+
+    expect(await api.tagExists('module/v2.1.0+1')).toBe(true);
+    await api.deleteTag('module/v2.1.0+1');
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/git/refs/tags/module/v2.1.0%2B1');
+    expect(mockHttpClient.delete).toHaveBeenCalledWith('/repos/owner/repo/git/refs/tags/module/v2.1.0%2B1');
+  });
+
+  it('should match tags exactly in the Gitea refs response', async () => {
+    const api = new ForgejoAPI(
+      { owner: 'owner', repo: 'repo', platform: 'forgejo' },
+      { type: 'forgejo', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+    // The refs endpoint lists every tag starting with the requested name
+    mockHttpClient.get
+      .mockResolvedValueOnce([{ ref: 'refs/tags/v1.0.0', object: { sha: 'commit-sha', type: 'commit' } }])
+      .mockResolvedValueOnce([
+        { ref: 'refs/tags/v1', object: { sha: 'tag-sha', type: 'tag' } },
+        { ref: 'refs/tags/v1.0.0', object: { sha: 'commit-sha', type: 'commit' } }
+      ])
+      .mockResolvedValueOnce({
+        sha: 'tag-sha',
+        message: 'Major version',
+        tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z' },
+        object: { sha: 'commit-sha', type: 'commit' }
+      });
+
+    expect(await api.tagExists('v1')).toBe(false);
+    expect(await api.getTag('v1')).toEqual({
+      tagName: 'v1',
+      refSha: 'tag-sha',
+      commitSha: 'commit-sha',
+      type: 'annotated',
+      message: 'Major version',
+      tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z' },
+      signature: undefined
+    });
+    expect(mockHttpClient.get).toHaveBeenLastCalledWith('/repos/owner/repo/git/tags/tag-sha');
+  });
+
+  it('should page through Gitea tags with page and limit', async () => {
+    const api = new ForgejoAPI(
+      { owner: 'owner', repo: 'repo', platform: 'forgejo' },
+      { type: 'forgejo', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+    const fullPage = Array.from({ length: 50 }, (_, i) => ({ name: `v0.${i}`, commit: { sha: `sha-${i}` } }));
+    mockHttpClient.get.mockResolvedValueOnce(fullPage).mockResolvedValueOnce([]);
+
+    expect(await api.listTags()).toHaveLength(50);
+    expect(mockHttpClient.get).toHaveBeenNthCalledWith(1, '/repos/owner/repo/tags?page=1&limit=50');
+    expect(mockHttpClient.get).toHaveBeenNthCalledWith(2, '/repos/owner/repo/tags?page=2&limit=50');
+  });
+
+  it('should keep paging when the server returns pages shorter than the limit', async () => {
+    const api = new ForgejoAPI(
+      { owner: 'owner', repo: 'repo', platform: 'forgejo' },
+      { type: 'forgejo', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+    mockHttpClient.get
+      .mockResolvedValueOnce([{ name: 'v0.1', commit: { sha: 'sha-1' } }])
+      .mockResolvedValueOnce([{ name: 'v0.2', commit: { sha: 'sha-2' } }])
+      .mockResolvedValueOnce([]);
+
+    expect((await api.listTags()).map((tag) => tag.tagName)).toEqual(['v0.1', 'v0.2']);
+    expect(mockHttpClient.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should leave the message out for lightweight tags', async () => {
+    const api = new ForgejoAPI(
+      { owner: 'owner', repo: 'repo', platform: 'forgejo' },
+      { type: 'forgejo', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+    mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+    mockHttpClient.post.mockResolvedValue({});
+
+    const result = await api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false });
+
+    expect(result.type).toBe('lightweight');
+    expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/tags', { tag_name: 'v1.0.0', target: 'commit-sha' });
+  });
+
+  it('should log operations as Forgejo', async () => {
+    const api = new ForgejoAPI(
+      { owner: 'owner', repo: 'repo', platform: 'forgejo' },
+      { type: 'forgejo', baseUrl: 'https://forgejo.example.com/api/v1', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+    mockHttpClient.delete.mockResolvedValue(undefined);
+
+    await api.deleteTag('v1.0.0');
+    expect(mockLogger.info).toHaveBeenCalledWith('Deleting Forgejo tag: v1.0.0');
+  });
+});
+
+describe('Forgejo detection', () => {
+  const logger = new Logger(false);
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should recognize Forgejo version strings', () => {
+    expect(isForgejoVersion('1.20.0-0-forgejo')).toBe(true);
+    expect(isForgejoVersion('7.0.5+gitea-1.21.11')).toBe(false);
+    expect(isForgejoVersion('1.21.11')).toBe(false);
+  });
+
+  it('should detect codeberg.org and forgejo hostnames', () => {
+    expect(detectFromUrlByHostname(new URL('https://codeberg.org/owner/repo'))).toBe('forgejo');
+    expect(detectFromUrlByHostname(new URL('https://forgejo.example.com/owner/repo'))).toBe('forgejo');
+    expect(detectFromUrlByHostname(new URL('https://gitea.com/owner/repo'))).toBeUndefined();
+  });
+
+  it('should detect Forgejo from the /api/forgejo/v1/version endpoint', async () => {
+    global.fetch = jest.fn().mockImplementation(async (input: string) =>
+      input === 'https://git.example.com/api/forgejo/v1/version'
+        ? new Response('{"version":"7.0.5+gitea-1.21.11"}', { status: 200, statusText: 'OK' })
+        : new Response(null, { status: 404, statusText: 'Not Found' })
+    );
+
+    expect(await detectFromUrl(new URL('https://git.example.com/owner/repo'), logger)).toBe('forgejo');
+  });
+
+  it('should detect Forgejo from a forgejo marker in the /api/v1/version response', async () => {
+    global.fetch = jest.fn().mockImplementation(async (input: string) =>
+      input.endsWith('/api/v1/version')
+        ? new Response('{"version":"1.20.0-0-forgejo"}', { status: 200, statusText: 'OK' })
+        : new Response(null, { status: 404, statusText: 'Not Found' })
+    );
+
+    expect(await detectFromUrl(new URL('https://git.example.com/owner/repo'), logger)).toBe('forgejo');
+  });
+
+  it('should not detect Gitea versions with a build suffix', async () => {
+    global.fetch = jest.fn().mockImplementation(async (input: string) =>
+      input.endsWith('/api/v1/version')
+        ? new Response('{"version":"1.22.0+gitea-1.22.0"}', { status: 200, statusText: 'OK' })
+        : new Response(null, { status: 404, statusText: 'Not Found' })
+    );
+
+    expect(await detectFromUrl(new URL('https://git.example.com/owner/repo'), logger)).toBeUndefined();
+  });
+
+  it('should not detect plain Gitea versions', async () => {
+    global.fetch = jest.fn().mockImplementation(async (input: string) =>
+      input.endsWith('/api/v1/version')
+        ? new Response('{"version":"1.21.11"}', { status: 200, statusText: 'OK' })
+        : new Response(null, { status: 404, statusText: 'Not Found' })
+    );
+
+    expect(await detectFromUrl(new URL('https://git.example.com/owner/repo'), logger)).toBeUndefined();
+  });
+
+  it('should derive the API URL and fall back to FORGEJO_SERVER_URL', () => {
+    const originalEnv = process.env;
+    process.env = { ...originalEnv, FORGEJO_SERVER_URL: 'https://forgejo.example.com' };
+    delete process.env.GITHUB_SERVER_URL;
+
+    expect(determineBaseUrl('https://codeberg.org/owner/repo')).toBe('https://codeberg.org/api/v1');
+    expect(determineBaseUrl([])).toBe('https://forgejo.example.com/api/v1');
+
+    process.env = originalEnv;
+  });
+});
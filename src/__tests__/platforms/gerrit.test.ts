@@ -0,0 +1,273 @@
+import { GerritAPI, detectFromUrl, detectFromUrlByHostname, determineBaseUrl } from '../../platforms/gerrit';
+import { Logger } from '../../logger';
+import { HttpClient } from '../../platforms/http-client';
+
+// Mock HttpClient
+jest.mock('../../platforms/http-client');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const originalFetch = global.fetch;
+
+describe('GerritAPI', () => {
+  let api: GerritAPI;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      delete: jest.fn(),
+      request: jest.fn()
+    } as unknown as jest.Mocked<HttpClient>;
+
+    (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
+
+    api = new GerritAPI(
+      { owner: 'platform', repo: 'build', platform: 'gerrit' },
+      {
+        type: 'gerrit',
+        baseUrl: 'https://gerrit.example.com',
+        token: 'ci-bot:http-password',
+        ignoreCertErrors: false,
+        verbose: false
+      },
+      mockLogger
+    );
+  });
+
+  it('should use basic auth through the /a/ prefix when authenticated', () => {
+    expect(HttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({ authScheme: 'basic', baseUrl: 'https://gerrit.example.com/a' }),
+      mockLogger
+    );
+  });
+
+  it('should require a base URL', () => {
+    expect(() => new GerritAPI(
+      { owner: 'platform', repo: 'build', platform: 'gerrit' },
+      { type: 'gerrit', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    )).toThrow('requires base_url');
+  });
+
+  describe('project name', () => {
+    const connect = (repoInfo: { owner: string; repo: string; url?: string }, baseUrl: string) =>
+      new GerritAPI({ ...repoInfo, platform: 'gerrit' }, { type: 'gerrit', baseUrl, ignoreCertErrors: false, verbose: false }, mockLogger);
+
+    it('should read the project from a clone URL below a context path', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0', revision: 'tag-sha' });
+      api = connect({ owner: 'r', repo: 'a', url: 'https://host.example.com/r/a/platform/build' }, 'https://host.example.com/r');
+
+      await api.tagExists('v1.0.0');
+
+      expect(HttpClient).toHaveBeenLastCalledWith(expect.objectContaining({ baseUrl: 'https://host.example.com/r' }), mockLogger);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/projects/platform%2Fbuild/tags/v1.0.0');
+    });
+
+    it('should accept single-segment projects', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0', revision: 'tag-sha' });
+      api = connect({ owner: '', repo: 'project', url: 'https://gerrit.example.com/project.git' }, 'https://gerrit.example.com');
+
+      await api.tagExists('v1.0.0');
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/projects/project/tags/v1.0.0');
+    });
+  });
+
+  describe('tagExists', () => {
+    it('should encode project names containing slashes', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0', revision: 'tag-sha' });
+
+      expect(await api.tagExists('v1.0.0')).toBe(true);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/projects/platform%2Fbuild/tags/v1.0.0');
+    });
+
+    it('should encode the slashes of hierarchical tag names', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/release/1.2.0', revision: 'tag-sha' });
+
+      expect(await api.tagExists('release/1.2.0')).toBe(true);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/projects/platform%2Fbuild/tags/release%2F1.2.0');
+    });
+
+    it('should strip the /a/ prefix from clone URL owners', async () => {
+      api = new GerritAPI(
+        { owner: 'a/platform', repo: 'build', platform: 'gerrit' },
+        { type: 'gerrit', baseUrl: 'https://gerrit.example.com', ignoreCertErrors: false, verbose: false },
+        mockLogger
+      );
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0' });
+
+      await api.tagExists('v1.0.0');
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/projects/platform%2Fbuild/tags/v1.0.0');
+    });
+
+    it('should return false on 404', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+
+      expect(await api.tagExists('v1.0.0')).toBe(false);
+    });
+  });
+
+  describe('getTag', () => {
+    it('should read annotated tags with their tagger', async () => {
+      mockHttpClient.get.mockResolvedValue({
+        ref: 'refs/tags/v1.0.0',
+        revision: 'tag-sha',
+        object: 'commit-sha',
+        message: 'Release v1.0.0',
+        tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-02 03:04:05.000000000', tz: 60 }
+      });
+
+      expect(await api.getTag('v1.0.0')).toEqual({
+        tagName: 'v1.0.0',
+        refSha: 'tag-sha',
+        commitSha: 'commit-sha',
+        type: 'annotated',
+        message: 'Release v1.0.0',
+        tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-02T03:04:05Z' }
+      });
+    });
+
+    it('should report lightweight tags', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0', revision: 'commit-sha' });
+
+      expect(await api.getTag('v1.0.0')).toEqual({ tagName: 'v1.0.0', refSha: 'commit-sha', commitSha: 'commit-sha', type: 'lightweight' });
+    });
+  });
+
+  describe('listTags', () => {
+    it('should use the peeled object for annotated tags and filter by pattern', async () => {
+      mockHttpClient.get.mockResolvedValue([
+        { ref: 'refs/tags/v1.0.0', revision: 'tag-sha', object: 'sha-1' },
+        { ref: 'refs/tags/v1.0.1', revision: 'sha-2' },
+        { ref: 'refs/tags/nightly', revision: 'sha-3' }
+      ]);
+
+      expect(await api.listTags({ pattern: 'v1.0.?' })).toEqual([
+        { tagName: 'v1.0.0', commitSha: 'sha-1' },
+        { tagName: 'v1.0.1', commitSha: 'sha-2' }
+      ]);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createTag', () => {
+    it('should PUT the tag with revision and message', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+      mockHttpClient.put.mockResolvedValue({ ref: 'refs/tags/v1.0.0' });
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(result.created).toBe(true);
+      expect(mockHttpClient.put).toHaveBeenCalledWith(
+        '/projects/platform%2Fbuild/tags/v1.0.0',
+        { revision: 'commit-sha', message: 'Release v1.0.0' }
+      );
+    });
+
+    it('should delete and recreate tag if force is true', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0' });
+      mockHttpClient.delete.mockResolvedValue(undefined);
+      mockHttpClient.put.mockResolvedValue({ ref: 'refs/tags/v1.0.0' });
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        gpgSign: false,
+        force: true,
+        verbose: false
+      });
+
+      expect(result.updated).toBe(true);
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('/projects/platform%2Fbuild/tags/v1.0.0');
+      expect(mockHttpClient.put).toHaveBeenCalledWith('/projects/platform%2Fbuild/tags/v1.0.0', { revision: 'commit-sha' });
+    });
+  });
+
+  describe('getHeadSha', () => {
+    it('should resolve the branch that project HEAD points to', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce('refs/heads/main')
+        .mockResolvedValueOnce({ ref: 'refs/heads/main', revision: 'head-sha' });
+
+      expect(await api.getHeadSha()).toBe('head-sha');
+      expect(mockHttpClient.get).toHaveBeenNthCalledWith(1, '/projects/platform%2Fbuild/HEAD');
+      expect(mockHttpClient.get).toHaveBeenNthCalledWith(2, '/projects/platform%2Fbuild/branches/main');
+    });
+  });
+
+  describe('resolveCommit', () => {
+    const sha = 'abc123def456abc123def456abc123def456abcd';
+
+    it('should look up a full SHA in the project', async () => {
+      mockHttpClient.get.mockResolvedValueOnce({ commit: sha });
+
+      expect(await api.resolveCommit(sha)).toBe(sha);
+      expect(mockHttpClient.get).toHaveBeenCalledWith(`/projects/platform%2Fbuild/commits/${sha}`);
+    });
+
+    it('should require a full SHA', async () => {
+      await expect(api.resolveCommit('abc123')).rejects.toThrow(
+        'Gerrit can only look up full 40-character commit SHAs; pass the full SHA instead of abc123'
+      );
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Gerrit detection', () => {
+  const logger = new Logger(false);
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should detect gerrit and googlesource review hostnames', () => {
+    expect(detectFromUrlByHostname(new URL('https://gerrit.example.com/project'))).toBe('gerrit');
+    expect(detectFromUrlByHostname(new URL('https://android-review.googlesource.com/platform/build'))).toBe('gerrit');
+    expect(detectFromUrlByHostname(new URL('https://android.googlesource.com/platform/build'))).toBeUndefined();
+  });
+
+  it('should detect the XSSI-guarded /config/server/version response', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      new Response(")]}'\n\"3.9.1\"", { status: 200, statusText: 'OK' })
+    );
+
+    expect(await detectFromUrl(new URL('https://review.example.com/project'), logger)).toBe('gerrit');
+  });
+
+  it('should not detect plain JSON responses', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      new Response('"3.9.1"', { status: 200, statusText: 'OK' })
+    );
+
+    expect(await detectFromUrl(new URL('https://review.example.com/project'), logger)).toBeUndefined();
+  });
+
+  it('should derive the server root', () => {
+    expect(determineBaseUrl('https://gerrit.example.com:8443/a/platform/build')).toBe('https://gerrit.example.com:8443');
+    expect(determineBaseUrl([])).toBeUndefined();
+  });
+
+  it('should keep the servlet context path in front of /a/ or /projects/', () => {
+    expect(determineBaseUrl('https://host.example.com/r/a/platform/build')).toBe('https://host.example.com/r');
+    expect(determineBaseUrl('https://host.example.com/r/projects/platform%2Fbuild')).toBe('https://host.example.com/r');
+    expect(determineBaseUrl(['https://host.example.com/r/a/', 'https://host.example.com/r/project'])).toBe('https://host.example.com/r');
+  });
+});
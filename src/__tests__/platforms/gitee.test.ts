@@ -0,0 +1,172 @@
+import { GiteeAPI, detectFromUrlByHostname, determineBaseUrl } from '../../platforms/gitee';
+import { Logger } from '../../logger';
+import { HttpClient } from '../../platforms/http-client';
+
+// Mock HttpClient
+jest.mock('../../platforms/http-client');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+describe('GiteeAPI', () => {
+  let api: GiteeAPI;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      delete: jest.fn(),
+      request: jest.fn()
+    } as unknown as jest.Mocked<HttpClient>;
+
+    (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
+
+    api = new GiteeAPI(
+      { owner: 'owner', repo: 'repo', platform: 'gitee' },
+      { type: 'gitee', token: 'gitee-token', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+  });
+
+  it('should send the token as a query parameter to the v5 API', () => {
+    expect(HttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({ authScheme: 'query', baseUrl: 'https://gitee.com/api/v5', token: 'gitee-token' }),
+      mockLogger
+    );
+  });
+
+  describe('tagExists', () => {
+    it('should match the tag name exactly in the tag list', async () => {
+      mockHttpClient.get.mockResolvedValue([{ name: 'v1.0.0-beta' }, { name: 'v1.0.0' }]);
+
+      expect(await api.tagExists('v1.0.0')).toBe(true);
+      expect(await api.tagExists('v1.0')).toBe(false);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/tags?page=1&per_page=100');
+    });
+
+    it('should page through the tag list until the tag is found', async () => {
+      const fullPage = Array.from({ length: 100 }, (_, i) => ({ name: `v0.${i}`, commit: { sha: `sha-${i}` } }));
+      mockHttpClient.get
+        .mockResolvedValueOnce(fullPage)
+        .mockResolvedValueOnce([{ name: 'v1.0.0', commit: { sha: 'sha-1' } }]);
+
+      expect(await api.tagExists('v1.0.0')).toBe(true);
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/repos/owner/repo/tags?page=2&per_page=100');
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getTag', () => {
+    it('should read the exact tag from the tag list', async () => {
+      mockHttpClient.get.mockResolvedValue([
+        { name: 'v1.0.0-beta', commit: { sha: 'beta-sha' }, tagger: null },
+        {
+          name: 'v1.0.0',
+          message: 'Release v1.0.0',
+          commit: { sha: 'commit-sha' },
+          tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00+08:00' }
+        }
+      ]);
+
+      expect(await api.getTag('v1.0.0')).toEqual({
+        tagName: 'v1.0.0',
+        refSha: 'commit-sha',
+        commitSha: 'commit-sha',
+        type: 'annotated',
+        message: 'Release v1.0.0',
+        tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00+08:00' }
+      });
+      expect(await api.getTag('v1.0.0-beta')).toEqual(expect.objectContaining({ type: 'lightweight', commitSha: 'beta-sha' }));
+      expect(await api.getTag('v1.0')).toBeUndefined();
+    });
+
+    it('should find tags beyond the first page', async () => {
+      const fullPage = Array.from({ length: 100 }, (_, i) => ({ name: `v0.${i}`, commit: { sha: `sha-${i}` }, tagger: null }));
+      mockHttpClient.get
+        .mockResolvedValueOnce(fullPage)
+        .mockResolvedValueOnce([{ name: 'v1.0.0', commit: { sha: 'sha-1' }, tagger: null }]);
+
+      expect(await api.getTag('v1.0.0')).toEqual(expect.objectContaining({ commitSha: 'sha-1', type: 'lightweight' }));
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/repos/owner/repo/tags?page=2&per_page=100');
+    });
+  });
+
+  describe('listTags', () => {
+    it('should request pages until a short page', async () => {
+      const fullPage = Array.from({ length: 100 }, (_, i) => ({ name: `v0.${i}`, commit: { sha: `sha-${i}` } }));
+      mockHttpClient.get
+        .mockResolvedValueOnce(fullPage)
+        .mockResolvedValueOnce([{ name: 'v1.0.0', commit: { sha: 'sha-1' } }]);
+
+      const tags = await api.listTags({ pattern: 'v1.*' });
+
+      expect(tags).toEqual([{ tagName: 'v1.0.0', commitSha: 'sha-1' }]);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/tags?page=2&per_page=100');
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('createTag', () => {
+    it('should create the tag with refs, tag_name and tag_message', async () => {
+      mockHttpClient.get.mockResolvedValue([]);
+      mockHttpClient.post.mockResolvedValue({ name: 'v1.0.0' });
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(result.created).toBe(true);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/tags', {
+        refs: 'commit-sha',
+        tag_name: 'v1.0.0',
+        tag_message: 'Release v1.0.0'
+      });
+    });
+
+    it('should delete and recreate tag if force is true', async () => {
+      mockHttpClient.get.mockResolvedValue([{ name: 'v1.0.0', commit: { sha: 'old-sha' } }]);
+      mockHttpClient.delete.mockResolvedValue(undefined);
+      mockHttpClient.post.mockResolvedValue({ name: 'v1.0.0' });
+
+      const result = await api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: true, verbose: false });
+
+      expect(result.updated).toBe(true);
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('/repos/owner/repo/tags/v1.0.0');
+    });
+  });
+
+  describe('getHeadSha', () => {
+    it('should return the default branch commit', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({ default_branch: 'master' })
+        .mockResolvedValueOnce({ name: 'master', commit: { sha: 'head-sha' } });
+
+      expect(await api.getHeadSha()).toBe('head-sha');
+      expect(mockHttpClient.get).toHaveBeenNthCalledWith(2, '/repos/owner/repo/branches/master');
+    });
+  });
+});
+
+describe('Gitee detection', () => {
+  it('should detect gitee.com but not gitea hosts', () => {
+    expect(detectFromUrlByHostname(new URL('https://gitee.com/owner/repo'))).toBe('gitee');
+    expect(detectFromUrlByHostname(new URL('https://gitea.com/owner/repo'))).toBeUndefined();
+  });
+
+  it('should keep an explicit API URL and default to gitee.com', () => {
+    expect(determineBaseUrl('https://gitee.example.cn/api/v5')).toBe('https://gitee.example.cn/api/v5');
+    expect(determineBaseUrl('https://gitee.com/owner/repo')).toBe('https://gitee.com/api/v5');
+  });
+});
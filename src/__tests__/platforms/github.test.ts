@@ -26,8 +26,13 @@ describe('GitHubAPI', () => {
     mockHttpClient = {
       get: jest.fn(),
       post: jest.fn(),
+      patch: jest.fn(),
       delete: jest.fn(),
-      request: jest.fn()
+      request: jest.fn(),
+      getWithResponse: jest.fn(),
+      pathFromUrl: jest.fn((url: string) =>
+        url.startsWith('https://api.github.com/') ? url.slice('https://api.github.com'.length) : undefined
+      )
     } as unknown as jest.Mocked<HttpClient>;
 
     (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
@@ -46,7 +51,7 @@ describe('GitHubAPI', () => {
 
   describe('tagExists', () => {
     it('should return true if tag exists', async () => {
-      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0' });
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0', object: { sha: 'commit-sha-123', type: 'commit' } });
 
       const result = await api.tagExists('v1.0.0');
       expect(result).toBe(true);
@@ -72,6 +77,112 @@ describe('GitHubAPI', () => {
     });
   });
 
+  describe('getTag', () => {
+    it('should not treat a prefix-matched ref list as the tag', async () => {
+      // GET git/refs/tags/v1 lists refs starting with v1 when refs/tags/v1 itself does not exist
+      mockHttpClient.get.mockResolvedValue([
+        { ref: 'refs/tags/v1.0.0', object: { sha: 'sha-100', type: 'commit' } },
+        { ref: 'refs/tags/v1.1.0', object: { sha: 'sha-110', type: 'commit' } }
+      ]);
+
+      expect(await api.getTag('v1')).toBeUndefined();
+      expect(await api.tagExists('v1')).toBe(false);
+    });
+
+    it('should pick the exact ref from a list', async () => {
+      mockHttpClient.get.mockResolvedValue([
+        { ref: 'refs/tags/v1', object: { sha: 'sha-1', type: 'commit' } },
+        { ref: 'refs/tags/v1.0.0', object: { sha: 'sha-100', type: 'commit' } }
+      ]);
+
+      expect(await api.getTag('v1')).toEqual({ tagName: 'v1', refSha: 'sha-1', commitSha: 'sha-1', type: 'lightweight' });
+    });
+
+    it('should keep hierarchical tag names as path segments and encode the rest', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/release/1.2.0+build#1', object: { sha: 'sha-1', type: 'commit' } });
+
+      expect(await api.getTag('release/1.2.0+build#1')).toMatchObject({ tagName: 'release/1.2.0+build#1', refSha: 'sha-1' });
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/git/refs/tags/release/1.2.0%2Bbuild%231');
+    });
+
+    it('should read annotated tag details and peel nested tag objects', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({ ref: 'refs/tags/v1.0.0', object: { sha: 'tag-sha-outer', type: 'tag' } })
+        .mockResolvedValueOnce({
+          sha: 'tag-sha-outer',
+          message: 'Release v1.0.0\n',
+          tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z' },
+          object: { sha: 'tag-sha-inner', type: 'tag' },
+          verification: { signature: '-----BEGIN PGP SIGNATURE-----\n...' }
+        })
+        .mockResolvedValueOnce({ sha: 'tag-sha-inner', message: 'inner', object: { sha: 'commit-sha-123', type: 'commit' } });
+
+      const tag = await api.getTag('v1.0.0');
+
+      expect(tag).toEqual({
+        tagName: 'v1.0.0',
+        refSha: 'tag-sha-outer',
+        commitSha: 'commit-sha-123',
+        type: 'annotated',
+        message: 'Release v1.0.0\n',
+        tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z' },
+        signature: '-----BEGIN PGP SIGNATURE-----\n...'
+      });
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/git/tags/tag-sha-outer');
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/git/tags/tag-sha-inner');
+    });
+
+    it('should return undefined on 404', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+
+      expect(await api.getTag('v1.0.0')).toBeUndefined();
+    });
+  });
+
+  describe('listTags', () => {
+    it('should follow Link headers and stop at the limit', async () => {
+      mockHttpClient.getWithResponse
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: new Headers({
+            link: '<https://api.github.com/repositories/1/tags?per_page=100&page=2>; rel="next", <https://api.github.com/repositories/1/tags?per_page=100&page=3>; rel="last"'
+          }),
+          body: [
+            { name: 'v2.0.0', commit: { sha: 'sha-2' } },
+            { name: 'latest', commit: { sha: 'sha-2' } }
+          ]
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: new Headers(),
+          body: [
+            { name: 'v1.1.0', commit: { sha: 'sha-11' } },
+            { name: 'v1.0.0', commit: { sha: 'sha-10' } }
+          ]
+        });
+
+      const tags = await api.listTags({ pattern: 'v*', limit: 2 });
+
+      expect(tags).toEqual([
+        { tagName: 'v2.0.0', commitSha: 'sha-2' },
+        { tagName: 'v1.1.0', commitSha: 'sha-11' }
+      ]);
+      expect(mockHttpClient.getWithResponse).toHaveBeenNthCalledWith(1, '/repos/owner/repo/tags?per_page=100');
+      expect(mockHttpClient.getWithResponse).toHaveBeenNthCalledWith(2, '/repositories/1/tags?per_page=100&page=2');
+    });
+
+    it('should not follow links to another host', async () => {
+      mockHttpClient.getWithResponse.mockResolvedValue({
+        status: 200,
+        headers: new Headers({ link: '<https://evil.example/tags?page=2>; rel="next"' }),
+        body: [{ name: 'v1.0.0', commit: { sha: 'sha-10' } }]
+      });
+
+      expect(await api.listTags()).toEqual([{ tagName: 'v1.0.0', commitSha: 'sha-10' }]);
+      expect(mockHttpClient.getWithResponse).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('createTag', () => {
     it('should create a new tag', async () => {
       mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
@@ -92,11 +203,57 @@ describe('GitHubAPI', () => {
       expect(result.sha).toBe('commit-sha-123');
       expect(result.created).toBe(true);
       expect(result.exists).toBe(false);
+      expect(result.type).toBe('annotated');
+      expect(result.objectSha).toBe('tag-sha-123');
+      expect(result.commitSha).toBe('commit-sha-123');
       expect(mockHttpClient.post).toHaveBeenCalledTimes(2);
     });
 
+    it('should send the requested tagger with the tag object', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+      mockHttpClient.post.mockResolvedValueOnce({ sha: 'tag-sha-123' }).mockResolvedValueOnce(undefined);
+
+      await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha-123',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false,
+        tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z' }
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/tags', {
+        tag: 'v1.0.0',
+        message: 'Release v1.0.0',
+        object: 'commit-sha-123',
+        type: 'commit',
+        tagger: { name: 'Release Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z' }
+      });
+    });
+
+    it('should create a lightweight tag as a bare ref when there is no message', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+      mockHttpClient.post.mockResolvedValueOnce(undefined);
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha-123',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(result.type).toBe('lightweight');
+      expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/refs', {
+        ref: 'refs/tags/v1.0.0',
+        sha: 'commit-sha-123'
+      });
+    });
+
     it('should return existing tag info if tag exists and force is false', async () => {
-      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0' });
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0', object: { sha: 'commit-sha-123', type: 'commit' } });
 
       const result = await api.createTag({
         tagName: 'v1.0.0',
@@ -109,19 +266,19 @@ describe('GitHubAPI', () => {
 
       expect(result.exists).toBe(true);
       expect(result.created).toBe(false);
+      expect(result.objectSha).toBe('commit-sha-123');
+      expect(result.type).toBe('lightweight');
       expect(mockHttpClient.post).not.toHaveBeenCalled();
     });
 
-    it('should delete and recreate tag if force is true', async () => {
-      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0' });
-      mockHttpClient.delete.mockResolvedValue(undefined);
-      mockHttpClient.post
-        .mockResolvedValueOnce({ sha: 'tag-sha-123' })
-        .mockResolvedValueOnce(undefined);
+    it('should move the existing ref in place if force is true', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1.0.0', object: { sha: 'commit-sha-123', type: 'commit' } });
+      mockHttpClient.post.mockResolvedValueOnce({ sha: 'tag-sha-456' });
+      mockHttpClient.patch.mockResolvedValueOnce(undefined);
 
       const result = await api.createTag({
         tagName: 'v1.0.0',
-        sha: 'commit-sha-123',
+        sha: 'commit-sha-456',
         message: 'Release v1.0.0',
         gpgSign: false,
         force: true,
@@ -129,31 +286,54 @@ describe('GitHubAPI', () => {
       });
 
       expect(result.updated).toBe(true);
-      expect(mockHttpClient.delete).toHaveBeenCalled();
-      expect(mockHttpClient.post).toHaveBeenCalledTimes(2);
+      expect(mockHttpClient.delete).not.toHaveBeenCalled();
+      expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+      expect(mockHttpClient.patch).toHaveBeenCalledWith('/repos/owner/repo/git/refs/tags/v1.0.0', {
+        sha: 'tag-sha-456',
+        force: true
+      });
     });
   });
 
   describe('updateTag', () => {
-    it('should delete and recreate tag', async () => {
-      mockHttpClient.delete.mockResolvedValue(undefined);
-      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
-      mockHttpClient.post
-        .mockResolvedValueOnce({ sha: 'tag-sha-123' })
-        .mockResolvedValueOnce(undefined);
+    it('should force-update the ref without deleting the tag', async () => {
+      mockHttpClient.get.mockResolvedValue({ ref: 'refs/tags/v1', object: { sha: 'old-sha', type: 'commit' } });
+      mockHttpClient.patch.mockResolvedValueOnce(undefined);
 
       const result = await api.updateTag({
-        tagName: 'v1.0.0',
-        sha: 'commit-sha-123',
-        message: 'Updated release',
+        tagName: 'v1',
+        sha: 'new-sha',
         gpgSign: false,
         force: false,
         verbose: false
       });
 
-      expect(result.updated).toBe(false);
-      expect(result.created).toBe(true);
-      expect(mockHttpClient.delete).toHaveBeenCalled();
+      expect(result.updated).toBe(true);
+      expect(result.type).toBe('lightweight');
+      expect(mockHttpClient.delete).not.toHaveBeenCalled();
+      expect(mockHttpClient.patch).toHaveBeenCalledWith('/repos/owner/repo/git/refs/tags/v1', { sha: 'new-sha', force: true });
+    });
+  });
+
+  describe('resolveRef', () => {
+    it('should resolve a branch with slashes when no tag has the name', async () => {
+      mockHttpClient.get
+        .mockRejectedValueOnce(new Error('HTTP 404 Not Found'))
+        .mockResolvedValueOnce([
+          { ref: 'refs/heads/release/1.x', object: { sha: 'branch-sha' } },
+          { ref: 'refs/heads/release/1.x-hotfix', object: { sha: 'other-sha' } }
+        ]);
+
+      expect(await api.resolveRef('release/1.x')).toBe('branch-sha');
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/repos/owner/repo/git/refs/heads/release/1.x');
+    });
+
+    it('should peel annotated tags to their commit', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({ ref: 'refs/tags/v1.0.0', object: { sha: 'tag-object-sha', type: 'tag' } })
+        .mockResolvedValueOnce({ sha: 'tag-object-sha', message: 'Release', object: { sha: 'commit-sha', type: 'commit' } });
+
+      expect(await api.resolveRef('refs/tags/v1.0.0')).toBe('commit-sha');
     });
   });
 
@@ -168,6 +348,14 @@ describe('GitHubAPI', () => {
       );
     });
 
+    it('should encode the tag name in the ref path', async () => {
+      mockHttpClient.delete.mockResolvedValue(undefined);
+
+      await api.deleteTag('pkg/foo/v1.0.0+1');
+
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('/repos/owner/repo/git/refs/tags/pkg/foo/v1.0.0%2B1');
+    });
+
     it('should handle 404 gracefully', async () => {
       const error = new Error('HTTP 404 Not Found');
       mockHttpClient.delete.mockRejectedValue(error);
@@ -183,4 +371,3 @@ describe('GitHubAPI', () => {
     });
   });
 });
-
@@ -0,0 +1,254 @@
+import { GitLabAPI } from '../../platforms/gitlab';
+import { Logger } from '../../logger';
+import { HttpClient } from '../../platforms/http-client';
+import { TagRestoredError } from '../../tag-journal';
+
+// Mock HttpClient
+jest.mock('../../platforms/http-client');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+describe('GitLabAPI', () => {
+  let api: GitLabAPI;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.CI_JOB_TOKEN;
+
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      delete: jest.fn(),
+      request: jest.fn(),
+      getWithResponse: jest.fn()
+    } as unknown as jest.Mocked<HttpClient>;
+
+    (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
+
+    api = new GitLabAPI(
+      { owner: 'group/subgroup', repo: 'repo', platform: 'gitlab' },
+      {
+        type: 'gitlab',
+        baseUrl: 'https://gitlab.example.com',
+        token: 'test-token',
+        ignoreCertErrors: false,
+        verbose: false
+      },
+      mockLogger
+    );
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should normalize the base URL and use PRIVATE-TOKEN auth', () => {
+    expect(HttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({
+        baseUrl: 'https://gitlab.example.com/api/v4',
+        authScheme: 'private-token'
+      }),
+      mockLogger
+    );
+  });
+
+  it('should use JOB-TOKEN auth for CI_JOB_TOKEN', () => {
+    process.env.CI_JOB_TOKEN = 'job-token';
+    new GitLabAPI(
+      { owner: 'group', repo: 'repo', platform: 'gitlab' },
+      { type: 'gitlab', token: 'job-token', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+    expect(HttpClient).toHaveBeenLastCalledWith(
+      expect.objectContaining({ authScheme: 'job-token' }),
+      mockLogger
+    );
+  });
+
+  describe('tagExists', () => {
+    it('should URL-encode the nested project path', async () => {
+      mockHttpClient.get.mockResolvedValue({ name: 'v1.0.0' });
+
+      const result = await api.tagExists('v1.0.0');
+      expect(result).toBe(true);
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        '/projects/group%2Fsubgroup%2Frepo/repository/tags/v1.0.0'
+      );
+    });
+
+    it('should return false if tag does not exist', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+
+      const result = await api.tagExists('v1.0.0');
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('getTag', () => {
+    it('should report annotated tags by their tag object target', async () => {
+      mockHttpClient.get.mockResolvedValue({ name: 'v1.0.0', message: 'Release v1.0.0', target: 'tag-sha', commit: { id: 'commit-sha' } });
+
+      expect(await api.getTag('v1.0.0')).toEqual({
+        tagName: 'v1.0.0',
+        refSha: 'tag-sha',
+        commitSha: 'commit-sha',
+        type: 'annotated',
+        message: 'Release v1.0.0'
+      });
+    });
+
+    it('should report lightweight tags and return undefined on 404', async () => {
+      mockHttpClient.get.mockResolvedValueOnce({ name: 'v1.0.0', message: '', target: 'commit-sha', commit: { id: 'commit-sha' } });
+      expect(await api.getTag('v1.0.0')).toEqual({
+        tagName: 'v1.0.0',
+        refSha: 'commit-sha',
+        commitSha: 'commit-sha',
+        type: 'lightweight',
+        message: undefined
+      });
+
+      mockHttpClient.get.mockRejectedValueOnce(new Error('HTTP 404 Not Found'));
+      expect(await api.getTag('v2.0.0')).toBeUndefined();
+    });
+  });
+
+  describe('listTags', () => {
+    it('should follow the X-Next-Page header', async () => {
+      mockHttpClient.getWithResponse
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: new Headers({ 'x-next-page': '2' }),
+          body: [{ name: 'v2.0.0', commit: { id: 'sha-2' } }]
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: new Headers({ 'x-next-page': '' }),
+          body: [{ name: 'v1.0.0', commit: { id: 'sha-1' } }]
+        });
+
+      expect(await api.listTags()).toEqual([
+        { tagName: 'v2.0.0', commitSha: 'sha-2' },
+        { tagName: 'v1.0.0', commitSha: 'sha-1' }
+      ]);
+      expect(mockHttpClient.getWithResponse).toHaveBeenLastCalledWith('/projects/group%2Fsubgroup%2Frepo/repository/tags?per_page=100&page=2');
+    });
+  });
+
+  describe('createTag', () => {
+    it('should create an annotated tag when a message is provided', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+      mockHttpClient.post.mockResolvedValue({ name: 'v1.0.0' });
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha-123',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(result.created).toBe(true);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/projects/group%2Fsubgroup%2Frepo/repository/tags',
+        { tag_name: 'v1.0.0', ref: 'commit-sha-123', message: 'Release v1.0.0' }
+      );
+    });
+
+    it('should create a lightweight tag when no message is provided', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404 Not Found'));
+      mockHttpClient.post.mockResolvedValue({ name: 'v1.0.0' });
+
+      await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha-123',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/projects/group%2Fsubgroup%2Frepo/repository/tags',
+        { tag_name: 'v1.0.0', ref: 'commit-sha-123' }
+      );
+    });
+
+    it('should delete and recreate tag if force is true', async () => {
+      mockHttpClient.get.mockResolvedValue({ name: 'v1.0.0', target: 'old-sha', commit: { id: 'old-sha' } });
+      mockHttpClient.delete.mockResolvedValue(undefined);
+      mockHttpClient.post.mockResolvedValue({ name: 'v1.0.0' });
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha-123',
+        gpgSign: false,
+        force: true,
+        verbose: false
+      });
+
+      expect(result.updated).toBe(true);
+      expect(mockHttpClient.delete).toHaveBeenCalledWith(
+        '/projects/group%2Fsubgroup%2Frepo/repository/tags/v1.0.0'
+      );
+    });
+
+    it('should restore the previous tag when recreation fails', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({ name: 'v1.0.0', target: 'old-sha', commit: { id: 'old-sha' } })
+        .mockResolvedValueOnce({ name: 'v1.0.0', target: 'old-tag-sha', message: 'Old release', commit: { id: 'old-sha' } })
+        .mockRejectedValueOnce(new Error('HTTP 404 Not Found'))
+        .mockResolvedValueOnce({ name: 'v1.0.0', target: 'restored-tag-sha', message: 'Old release', commit: { id: 'old-sha' } });
+      mockHttpClient.delete.mockResolvedValue(undefined);
+      mockHttpClient.post
+        .mockRejectedValueOnce(new Error('HTTP 429 Too Many Requests'))
+        .mockResolvedValueOnce({ name: 'v1.0.0' });
+
+      const update = api.updateTag({ tagName: 'v1.0.0', sha: 'new-sha', gpgSign: false, force: false, verbose: false });
+
+      await expect(update).rejects.toThrow(TagRestoredError);
+      await expect(update).rejects.toThrow('restored it at old-sha');
+      expect(mockHttpClient.post).toHaveBeenLastCalledWith('/projects/group%2Fsubgroup%2Frepo/repository/tags', {
+        tag_name: 'v1.0.0',
+        ref: 'old-sha',
+        message: 'Old release'
+      });
+    });
+  });
+
+  describe('getHeadSha', () => {
+    it('should resolve the default branch head', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({ default_branch: 'develop' })
+        .mockResolvedValueOnce({ commit: { id: 'head-sha' } });
+
+      const sha = await api.getHeadSha();
+      expect(sha).toBe('head-sha');
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith(
+        '/projects/group%2Fsubgroup%2Frepo/repository/branches/develop'
+      );
+    });
+  });
+
+  describe('resolveCommit', () => {
+    it('should expand an abbreviated SHA', async () => {
+      mockHttpClient.get.mockResolvedValueOnce({ id: 'abc1234def5678abc1234def5678abc1234def56' });
+
+      expect(await api.resolveCommit('abc1234')).toBe('abc1234def5678abc1234def5678abc1234def56');
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/projects/group%2Fsubgroup%2Frepo/repository/commits/abc1234');
+    });
+
+    it('should explain when the SHA is not a commit', async () => {
+      mockHttpClient.get.mockRejectedValueOnce(new Error('HTTP 404 Not Found: {"message":"404 Commit Not Found"}'));
+
+      await expect(api.resolveCommit('abc1234')).rejects.toThrow('abc1234 does not name a commit');
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { GogsAPI, detectFromUrl, detectFromUrlByHostname, determineBaseUrl, isGogsVersion } from '../../platforms/gogs';
+import { Logger } from '../../logger';
+import { HttpClient } from '../../platforms/http-client';
+import * as git from '../../git';
+
+// Mock HttpClient and Git CLI helpers
+jest.mock('../../platforms/http-client');
+jest.mock('../../git');
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const originalFetch = global.fetch;
+
+describe('GogsAPI', () => {
+  let api: GogsAPI;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  const mockedGit = git as jest.Mocked<typeof git>;
+
+  // The tag list, with the repository endpoint answering with its clone URLs
+  const mockTags = (tags: unknown[]) =>
+    mockHttpClient.get.mockImplementation(async (path: string) =>
+      path === '/repos/owner/repo'
+        ? { clone_url: 'https://gogs.example.com/owner/repo.git', ssh_url: 'git@gogs.example.com:owner/repo.git' }
+        : tags
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      delete: jest.fn(),
+      request: jest.fn()
+    } as unknown as jest.Mocked<HttpClient>;
+
+    (HttpClient as jest.Mock).mockImplementation(() => mockHttpClient);
+    mockedGit.isGitRepository.mockResolvedValue(true);
+    mockedGit.getRemoteUrl.mockResolvedValue('git@gogs.example.com:owner/repo.git');
+    mockedGit.createTag.mockImplementation(async (options) => ({
+      tagName: options.tagName,
+      sha: options.sha,
+      objectSha: options.sha,
+      commitSha: options.sha,
+      type: 'lightweight',
+      exists: false,
+      created: true,
+      updated: false
+    }));
+
+    api = new GogsAPI(
+      { owner: 'owner', repo: 'repo', platform: 'gogs' },
+      { type: 'gogs', baseUrl: 'https://gogs.example.com', token: 'token', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    );
+  });
+
+  it('should normalize the base URL to /api/v1', () => {
+    expect(HttpClient).toHaveBeenCalledWith(
+      expect.objectContaining({ baseUrl: 'https://gogs.example.com/api/v1' }),
+      mockLogger
+    );
+  });
+
+  it('should require a base URL', () => {
+    expect(() => new GogsAPI(
+      { owner: 'owner', repo: 'repo', platform: 'gogs' },
+      { type: 'gogs', ignoreCertErrors: false, verbose: false },
+      mockLogger
+    )).toThrow('requires base_url');
+  });
+
+  describe('tagExists', () => {
+    it('should match the tag name exactly in the tag list', async () => {
+      mockHttpClient.get.mockResolvedValue([{ name: 'v1.0.0-rc1' }, { name: 'v1.0.0' }]);
+
+      expect(await api.tagExists('v1.0.0')).toBe(true);
+      expect(await api.tagExists('v1.0')).toBe(false);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/tags');
+    });
+  });
+
+  describe('getTag', () => {
+    it('should read the tag details from origin with Git in a checkout', async () => {
+      const info = { tagName: 'v1.0.0', refSha: 'tag-object-sha', commitSha: 'commit-sha', type: 'annotated' as const };
+      mockTags([{ name: 'v1.0.0', commit: { sha: 'commit-sha' } }]);
+      mockedGit.getTagInfoRemote.mockResolvedValue(info);
+
+      expect(await api.getTag('v1.0.0')).toBe(info);
+      expect(mockedGit.getTagInfoRemote).toHaveBeenCalledWith('v1.0.0', 'origin', mockLogger);
+    });
+
+    it('should not read tag details from an origin that is another repository', async () => {
+      mockTags([{ name: 'v1.0.0', commit: { sha: 'commit-sha' } }]);
+      mockedGit.getRemoteUrl.mockResolvedValue('https://gogs.example.com/owner/fork.git');
+
+      expect(await api.getTag('v1.0.0')).toEqual({ tagName: 'v1.0.0', refSha: 'commit-sha', commitSha: 'commit-sha', type: 'lightweight' });
+      expect(mockedGit.getTagInfoRemote).not.toHaveBeenCalled();
+    });
+
+    it('should use the authenticated API outside a checkout', async () => {
+      mockHttpClient.get.mockResolvedValue([{ name: 'v1.0.0', commit: { sha: 'commit-sha' } }]);
+      mockedGit.isGitRepository.mockResolvedValue(false);
+
+      expect(await api.getTag('v1.0.0')).toEqual({ tagName: 'v1.0.0', refSha: 'commit-sha', commitSha: 'commit-sha', type: 'lightweight' });
+      expect(await api.getTag('v2.0.0')).toBeUndefined();
+      expect(mockedGit.getTagInfoRemote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createTag', () => {
+    it('should create the tag with Git and push it without calling a tag API', async () => {
+      mockTags([]);
+      mockedGit.getTagInfoRemote.mockResolvedValue(undefined);
+
+      const result = await api.createTag({
+        tagName: 'v1.0.0',
+        sha: 'commit-sha',
+        message: 'Release v1.0.0',
+        gpgSign: false,
+        force: false,
+        verbose: false
+      });
+
+      expect(result.created).toBe(true);
+      expect(mockedGit.createTag).toHaveBeenCalledWith(expect.objectContaining({ tagName: 'v1.0.0', sha: 'commit-sha' }), mockLogger);
+      expect(mockedGit.pushTag).toHaveBeenCalledWith('v1.0.0', 'origin', 'token', false, mockLogger);
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+      expect(mockLogger.warning).not.toHaveBeenCalled();
+    });
+
+    it('should not recreate an existing tag without force', async () => {
+      mockTags([{ name: 'v1.0.0', commit: { sha: 'commit-sha' } }]);
+      mockedGit.getTagInfoRemote.mockResolvedValue({
+        tagName: 'v1.0.0',
+        refSha: 'commit-sha',
+        commitSha: 'commit-sha',
+        type: 'lightweight'
+      });
+
+      const result = await api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false });
+
+      expect(result.exists).toBe(true);
+      expect(result.created).toBe(false);
+      expect(mockedGit.createTag).not.toHaveBeenCalled();
+    });
+
+    it('should fail when push fails', async () => {
+      mockTags([]);
+      mockedGit.getTagInfoRemote.mockResolvedValue(undefined);
+      mockedGit.pushTag.mockRejectedValue(new Error('push rejected'));
+
+      await expect(
+        api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false })
+      ).rejects.toThrow('push rejected');
+    });
+
+    it('should explain that a local checkout is required', async () => {
+      mockedGit.isGitRepository.mockResolvedValue(false);
+
+      await expect(
+        api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false })
+      ).rejects.toThrow('Gogs has no API for creating or deleting tags');
+    });
+
+    it('should refuse to push when origin is another repository', async () => {
+      mockTags([]);
+      mockedGit.getRemoteUrl.mockResolvedValue('https://git.example.com/owner/repo.git');
+
+      await expect(
+        api.createTag({ tagName: 'v1.0.0', sha: 'commit-sha', gpgSign: false, force: false, verbose: false })
+      ).rejects.toThrow('origin is not the Gogs repository owner/repo');
+      expect(mockedGit.createTag).not.toHaveBeenCalled();
+      expect(mockedGit.pushTag).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHeadSha', () => {
+    it('should return the default branch commit', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce({ default_branch: 'main' })
+        .mockResolvedValueOnce({ name: 'main', commit: { id: 'head-sha' } });
+
+      expect(await api.getHeadSha()).toBe('head-sha');
+      expect(mockHttpClient.get).toHaveBeenNthCalledWith(2, '/repos/owner/repo/branches/main');
+    });
+  });
+});
+
+describe('Gogs detection', () => {
+  const logger = new Logger(false);
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should recognize Gogs version strings', () => {
+    expect(isGogsVersion('0.13.0')).toBe(true);
+    expect(isGogsVersion('1.21.11')).toBe(false);
+    expect(isGogsVersion('7.0.5+gitea-1.21.11')).toBe(false);
+  });
+
+  it('should detect gogs hostnames', () => {
+    expect(detectFromUrlByHostname(new URL('https://gogs.example.com/owner/repo'))).toBe('gogs');
+    expect(detectFromUrlByHostname(new URL('https://gitea.com/owner/repo'))).toBeUndefined();
+  });
+
+  it('should detect Gogs from the /api/v1/version response', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      new Response('{"version":"0.13.0"}', { status: 200, statusText: 'OK' })
+    );
+
+    expect(await detectFromUrl(new URL('https://git.example.com/owner/repo'), logger)).toBe('gogs');
+  });
+
+  it('should not detect Gitea versions', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      new Response('{"version":"1.21.11"}', { status: 200, statusText: 'OK' })
+    );
+
+    expect(await detectFromUrl(new URL('https://git.example.com/owner/repo'), logger)).toBeUndefined();
+  });
+
+  it('should derive the API URL', () => {
+    expect(determineBaseUrl('https://gogs.example.com/owner/repo.git')).toBe('https://gogs.example.com/api/v1');
+    expect(determineBaseUrl([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { HttpClient } from '../../platforms/http-client';
+import { Logger } from '../../logger';
+
+const originalFetch = global.fetch;
+
+describe('HttpClient', () => {
+  const logger = new Logger(false);
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should send the token in the Authorization header by default', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+    global.fetch = fetchMock;
+
+    const client = new HttpClient({ baseUrl: 'https://api.example.com/', token: 'secret', ignoreCertErrors: false, verbose: false }, logger);
+    await client.get('/repos/owner/repo');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.com/repos/owner/repo');
+    expect(init.headers.Authorization).toBe('token secret');
+  });
+
+  it('should append access_token for the query auth scheme', async () => {
+    const fetchMock = jest.fn().mockImplementation(() => Promise.resolve(new Response('[]', { status: 200 })));
+    global.fetch = fetchMock;
+
+    const client = new HttpClient(
+      { baseUrl: 'https://gitee.com/api/v5', token: 'a&b', authScheme: 'query', ignoreCertErrors: false, verbose: false },
+      logger
+    );
+    await client.get('/repos/owner/repo/tags');
+    await client.get('/repos/owner/repo/tags?page=2');
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://gitee.com/api/v5/repos/owner/repo/tags?access_token=a%26b');
+    expect(fetchMock.mock.calls[1][0]).toBe('https://gitee.com/api/v5/repos/owner/repo/tags?page=2&access_token=a%26b');
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBeUndefined();
+  });
+
+  it('should format a custom auth header for the header auth scheme', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+    global.fetch = fetchMock;
+
+    const client = new HttpClient(
+      {
+        baseUrl: 'https://forge.example/api',
+        token: 'secret',
+        authScheme: 'header',
+        authHeaderName: 'X-Api-Key',
+        authHeaderFormat: 'key={token}',
+        ignoreCertErrors: false,
+        verbose: false
+      },
+      logger
+    );
+    await client.get('/repos/owner/repo');
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers['X-Api-Key']).toBe('key=secret');
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  it('should strip the XSSI prefix before parsing JSON', async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response(")]}'\n{\"ref\":\"refs/tags/v1.0.0\"}", { status: 200 }));
+
+    const client = new HttpClient({ baseUrl: 'https://gerrit.example.com/a', ignoreCertErrors: false, verbose: false }, logger);
+
+    expect(await client.get('/projects/p/tags/v1.0.0')).toEqual({ ref: 'refs/tags/v1.0.0' });
+  });
+
+  it('should throw with the HTTP status on errors', async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response('{"message":"Not Found"}', { status: 404, statusText: 'Not Found' }));
+
+    const client = new HttpClient({ baseUrl: 'https://api.example.com', ignoreCertErrors: false, verbose: false }, logger);
+
+    await expect(client.get('/missing')).rejects.toThrow('HTTP 404 Not Found');
+  });
+
+  it('should map absolute URLs under the base URL back to paths', () => {
+    const client = new HttpClient({ baseUrl: 'https://ghe.example.com/api/v3/', ignoreCertErrors: false, verbose: false }, logger);
+
+    expect(client.pathFromUrl('https://ghe.example.com/api/v3/repositories/1/tags?page=2')).toBe('/repositories/1/tags?page=2');
+    expect(client.pathFromUrl('https://other.example.com/api/v3/repositories/1/tags')).toBeUndefined();
+  });
+});
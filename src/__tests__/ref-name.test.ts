@@ -0,0 +1,79 @@
+import { encodeRefPath, findRefFormatViolation, normalizeTagName, checkPlatformTagName } from '../ref-name';
+
+describe('encodeRefPath', () => {
+  it('should encode each path component and keep the slashes', () => {
+    expect(encodeRefPath('release/1.2.0+build#1')).toBe('release/1.2.0%2Bbuild%231');
+  });
+});
+
+describe('findRefFormatViolation', () => {
+  it.each(['v1.0.0', 'release/1.2.0', 'module/v2.1.0', 'v1.0.0-rc.1+build.5', 'versi\u00f3n-1', 'a@b', 'v1.lock.1'])('should accept %s', (name) => {
+    expect(findRefFormatViolation(name)).toBeUndefined();
+  });
+
+  it.each([
+    ['', 'cannot be empty'],
+    ['@', 'single character @'],
+    ['v1..2', "'..'"],
+    ['v1@{1}', "'@{'"],
+    ['v1 0', 'a space'],
+    ['v1~1', "'~'"],
+    ['v1^0', "'^'"],
+    ['v1:0', "':'"],
+    ['v1?', "'?'"],
+    ['v1*', "'*'"],
+    ['v1[0]', "'['"],
+    ['v1\\0', "'\\'"],
+    ['v1\u0007', 'U+0007'],
+    ['v1\u007f', 'U+007F'],
+    ['/v1', 'slash'],
+    ['v1/', 'slash'],
+    ['release//1', 'empty path components'],
+    ['v1.', 'end with a dot'],
+    ['.v1', 'starting with a dot (.v1)'],
+    ['release/.hidden', 'starting with a dot (.hidden)'],
+    ['foo.lock', 'ending with .lock (foo.lock)'],
+    ['foo.lock/v1', 'ending with .lock (foo.lock)']
+  ])('should reject %j', (name, reason) => {
+    expect(findRefFormatViolation(name)).toContain(reason);
+  });
+});
+
+describe('normalizeTagName', () => {
+  it('should normalize decomposed Unicode to NFC', () => {
+    const decomposed = 'versio\u0301n-1';
+
+    expect(normalizeTagName(decomposed)).toBe('versi\u00f3n-1');
+  });
+
+  it('should reject names starting with a dash', () => {
+    expect(() => normalizeTagName('-v1')).toThrow('Tag names cannot start with a dash');
+  });
+
+  it('should reject invisible and bidirectional formatting characters', () => {
+    expect(() => normalizeTagName('v1\u200b')).toThrow('invisible character U+200B');
+    expect(() => normalizeTagName('v1\u202e0')).toThrow('invisible character U+202E');
+  });
+
+  it('should report the git rule that was broken', () => {
+    expect(() => normalizeTagName('v1..2')).toThrow(`Invalid tag name: "v1..2". Tag names cannot contain '..'.`);
+  });
+});
+
+describe('checkPlatformTagName', () => {
+  it('should apply GitLab restrictions', () => {
+    expect(() => checkPlatformTagName('a'.repeat(40), 'gitlab')).toThrow('look like a commit SHA');
+    expect(() => checkPlatformTagName('HEAD', 'gitlab')).toThrow('HEAD');
+    expect(() => checkPlatformTagName('refs/tags/v1', 'gitlab')).toThrow('refs/heads/, refs/remotes/ or refs/tags/');
+    expect(() => checkPlatformTagName('release/1.2.0', 'gitlab')).not.toThrow();
+  });
+
+  it('should reject names Gerrit would rewrite', () => {
+    expect(() => checkPlatformTagName('refs/tags/v1', 'gerrit')).toThrow('Invalid tag name for gerrit');
+  });
+
+  it('should leave other platforms to git rules', () => {
+    expect(() => checkPlatformTagName('a'.repeat(40), 'github')).not.toThrow();
+    expect(() => checkPlatformTagName('HEAD', 'generic')).not.toThrow();
+  });
+});
@@ -65,6 +65,110 @@ describe('parseRepository', () => {
     });
   });
 
+  it('should parse GitLab URL with nested subgroups', () => {
+    const result = parseRepository('https://gitlab.com/group/subgroup/repo.git', mockLogger);
+    expect(result).toEqual({
+      owner: 'group/subgroup',
+      repo: 'repo',
+      url: 'https://gitlab.com/group/subgroup/repo.git',
+      platform: 'auto'
+    });
+  });
+
+  it('should ignore GitLab "/-/" path suffixes', () => {
+    const result = parseRepository('https://gitlab.com/group/repo/-/tree/main', mockLogger);
+    expect(result?.owner).toBe('group');
+    expect(result?.repo).toBe('repo');
+  });
+
+  it('should read nested groups from self-hosted GitLab URLs', () => {
+    expect(parseRepository('https://gitlab.example.com/group/subgroup/repo', mockLogger)?.owner).toBe('group/subgroup');
+    expect(parseRepository('https://git.example.com/group/subgroup/repo.git', mockLogger)?.owner).toBe('group/subgroup');
+    expect(parseRepository('https://git.example.com/group/subgroup/repo', mockLogger, 'gitlab')?.owner).toBe('group/subgroup');
+  });
+
+  it.each([
+    'https://github.com/owner/repo/tree/main',
+    'https://github.com/owner/repo/blob/main/README.md',
+    'https://bitbucket.org/owner/repo/src/main/README.md',
+    'https://gitea.example.com/owner/repo/src/branch/main'
+  ])('should keep owner/repo for browse URL %s', (repository) => {
+    const result = parseRepository(repository, mockLogger);
+    expect(result?.owner).toBe('owner');
+    expect(result?.repo).toBe('repo');
+  });
+
+  it('should parse single-segment project URLs with an empty owner', () => {
+    expect(parseRepository('https://gerrit.example.com/project.git', mockLogger)).toEqual({
+      owner: '',
+      repo: 'project',
+      url: 'https://gerrit.example.com/project.git',
+      platform: 'auto'
+    });
+    expect(parseRepository('https://git.example.com/project', mockLogger, 'gerrit')).toMatchObject({ owner: '', repo: 'project' });
+  });
+
+  it('should reject single-segment URLs for platforms that need an owner', () => {
+    expect(parseRepository('https://github.com/repo', mockLogger)).toBeUndefined();
+    expect(parseRepository('https://git.example.com/repo', mockLogger, 'gitea')).toBeUndefined();
+  });
+
+  it('should parse Azure DevOps URL', () => {
+    const result = parseRepository('https://org@dev.azure.com/org/project/_git/repo', mockLogger);
+    expect(result).toEqual({
+      owner: 'org/project',
+      repo: 'repo',
+      url: 'https://org@dev.azure.com/org/project/_git/repo',
+      platform: 'auto'
+    });
+  });
+
+  it('should parse Bitbucket Server clone and browse URLs', () => {
+    expect(parseRepository('https://bitbucket.example.com/scm/proj/repo.git', mockLogger)).toMatchObject({
+      owner: 'proj',
+      repo: 'repo'
+    });
+    expect(parseRepository('https://bitbucket.example.com/projects/PROJ/repos/repo/browse', mockLogger)).toMatchObject({
+      owner: 'PROJ',
+      repo: 'repo'
+    });
+    expect(parseRepository('https://bitbucket.example.com/users/jdoe/repos/repo/browse', mockLogger)).toMatchObject({
+      owner: '~jdoe',
+      repo: 'repo'
+    });
+  });
+
+  it('should only read Bitbucket Server paths on Bitbucket Server or unknown hosts', () => {
+    expect(parseRepository('https://gitlab.com/scm/tools/repo.git', mockLogger)?.owner).toBe('scm/tools');
+    expect(parseRepository('https://gitea.com/projects/repo', mockLogger)?.owner).toBe('projects');
+    expect(parseRepository('https://git.example.com/scm/tools/repo.git', mockLogger, 'gitlab')?.owner).toBe('scm/tools');
+    expect(parseRepository('https://git.example.com/projects/repo', mockLogger, 'gitea')?.owner).toBe('projects');
+    expect(parseRepository('https://git.example.com/scm/proj/repo.git', mockLogger, 'bitbucket-server')?.owner).toBe('proj');
+  });
+
+  it('should parse CodeCommit HTTPS and codecommit:: URLs with the region as owner', () => {
+    expect(parseRepository('https://git-codecommit.eu-west-1.amazonaws.com/v1/repos/MyRepo', mockLogger)).toMatchObject({
+      owner: 'eu-west-1',
+      repo: 'MyRepo'
+    });
+    expect(parseRepository('codecommit::us-east-2://profile@MyRepo', mockLogger)).toEqual({
+      owner: 'us-east-2',
+      repo: 'MyRepo',
+      url: 'codecommit::us-east-2://profile@MyRepo',
+      platform: 'auto'
+    });
+    expect(parseRepository('codecommit://MyRepo', mockLogger)).toMatchObject({ owner: '', repo: 'MyRepo' });
+  });
+
+  it('should parse nested owner/repo format', () => {
+    const result = parseRepository('group/subgroup/repo', mockLogger);
+    expect(result).toEqual({
+      owner: 'group/subgroup',
+      repo: 'repo',
+      platform: 'auto'
+    });
+  });
+
   it('should return auto platform for all URLs (detection handled by factory)', () => {
     const result = parseRepository('https://git.ravenwolf.org/owner/repo', mockLogger);
     expect(result?.platform).toBe('auto');
@@ -128,6 +232,18 @@ describe('getRepositoryInfo', () => {
     if (originalGithubServerUrl) process.env.GITHUB_SERVER_URL = originalGithubServerUrl;
   });
 
+  it('should use FORGEJO_REPOSITORY if no repository provided', async () => {
+    process.env.FORGEJO_REPOSITORY = 'forgejo-owner/forgejo-repo';
+    process.env.GITHUB_REPOSITORY = 'owner/repo';
+    (io.which as jest.Mock).mockResolvedValue('/usr/bin/git');
+    (exec.exec as jest.Mock).mockResolvedValue(1); // Not a git repo
+
+    const result = await getRepositoryInfo(undefined, 'auto', mockLogger);
+
+    expect(result.owner).toBe('forgejo-owner');
+    expect(result.repo).toBe('forgejo-repo');
+  });
+
   it('should throw error if no repository info available', async () => {
     delete process.env.GITHUB_REPOSITORY;
     (io.which as jest.Mock).mockResolvedValue('/usr/bin/git');
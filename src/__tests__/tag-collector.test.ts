@@ -0,0 +1,36 @@
+import { TagCollector, tagPatternToRegExp } from '../tag-collector';
+
+describe('tagPatternToRegExp', () => {
+  it('should match * and ? against the whole tag name', () => {
+    expect(tagPatternToRegExp('v1.*').test('v1.2.3')).toBe(true);
+    expect(tagPatternToRegExp('v1.*').test('xv1.2.3')).toBe(false);
+    expect(tagPatternToRegExp('v?').test('v1')).toBe(true);
+    expect(tagPatternToRegExp('v?').test('v10')).toBe(false);
+  });
+
+  it('should treat other characters literally', () => {
+    expect(tagPatternToRegExp('v1.0+build').test('v1.0+build')).toBe(true);
+    expect(tagPatternToRegExp('v1.0').test('v1x0')).toBe(false);
+  });
+});
+
+describe('TagCollector', () => {
+  it('should collect every tag without options', () => {
+    const collector = new TagCollector();
+    collector.add({ tagName: 'a', commitSha: '1' });
+    collector.add({ tagName: 'b', commitSha: '2' });
+
+    expect(collector.tags).toHaveLength(2);
+    expect(collector.full).toBe(false);
+  });
+
+  it('should stop at the limit and skip tags that do not match', () => {
+    const collector = new TagCollector({ pattern: 'v*', limit: 1 });
+    collector.add({ tagName: 'latest', commitSha: '1' });
+    collector.add({ tagName: 'v2', commitSha: '2' });
+    collector.add({ tagName: 'v1', commitSha: '3' });
+
+    expect(collector.tags).toEqual([{ tagName: 'v2', commitSha: '2' }]);
+    expect(collector.full).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import { deleteTags, isTagPattern, TagNotFoundError } from '../tag-delete';
+import { Logger } from '../logger';
+import { PlatformAPI } from '../types';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+describe('isTagPattern', () => {
+  it('should treat names with * or ? as globs', () => {
+    expect(isTagPattern('v1.*')).toBe(true);
+    expect(isTagPattern('v1.?.0')).toBe(true);
+    expect(isTagPattern('release/1.2.0')).toBe(false);
+  });
+});
+
+describe('deleteTags', () => {
+  let api: jest.Mocked<Pick<PlatformAPI, 'tagExists' | 'getTag' | 'listTags' | 'deleteTag'>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    api = {
+      tagExists: jest.fn().mockResolvedValue(false),
+      getTag: jest.fn().mockResolvedValue(undefined),
+      listTags: jest.fn().mockResolvedValue([]),
+      deleteTag: jest.fn().mockResolvedValue(undefined)
+    };
+  });
+
+  it('should delete a tag by name and report the commit it pointed to', async () => {
+    api.getTag.mockResolvedValue({ tagName: 'v1', refSha: 'tag-object', commitSha: 'commit-sha', type: 'annotated' });
+
+    expect(await deleteTags(api, ['v1'], false, mockLogger)).toEqual([{ tagName: 'v1', commitSha: 'commit-sha' }]);
+    expect(api.deleteTag).toHaveBeenCalledWith('v1');
+  });
+
+  it('should delete every tag matching a pattern once', async () => {
+    api.listTags.mockResolvedValue([
+      { tagName: 'v1.0.0-rc.1', commitSha: 'sha-1' },
+      { tagName: 'v1.0.0-rc.2', commitSha: 'sha-2' }
+    ]);
+    api.getTag.mockResolvedValue({ tagName: 'v1.0.0-rc.1', refSha: 'sha-1', commitSha: 'sha-1', type: 'lightweight' });
+
+    const deleted = await deleteTags(api, ['v1.0.0-rc.*', 'v1.0.0-rc.1'], false, mockLogger);
+
+    expect(api.listTags).toHaveBeenCalledWith({ pattern: 'v1.0.0-rc.*' });
+    expect(deleted.map((tag) => tag.tagName)).toEqual(['v1.0.0-rc.1', 'v1.0.0-rc.2']);
+    expect(api.deleteTag).toHaveBeenCalledTimes(2);
+  });
+
+  it('should delete a tag whose details the platform cannot read', async () => {
+    api.tagExists.mockResolvedValue(true);
+
+    expect(await deleteTags(api, ['v1'], false, mockLogger)).toEqual([{ tagName: 'v1' }]);
+    expect(api.deleteTag).toHaveBeenCalledWith('v1');
+  });
+
+  it('should skip missing tags unless fail_if_missing is set', async () => {
+    expect(await deleteTags(api, ['v1', 'v2.*'], false, mockLogger)).toEqual([]);
+    expect(api.deleteTag).not.toHaveBeenCalled();
+  });
+
+  it('should fail before deleting anything when a target is missing and fail_if_missing is set', async () => {
+    api.getTag.mockImplementation(async (tagName) =>
+      tagName === 'v1' ? { tagName: 'v1', refSha: 'sha-1', commitSha: 'sha-1', type: 'lightweight' } : undefined
+    );
+
+    await expect(deleteTags(api, ['v1', 'v2'], true, mockLogger)).rejects.toThrow(TagNotFoundError);
+    await expect(deleteTags(api, ['v1', 'v2'], true, mockLogger)).rejects.toThrow('No tag matches v2; nothing was deleted');
+    expect(api.deleteTag).not.toHaveBeenCalled();
+  });
+});
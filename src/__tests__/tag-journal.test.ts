@@ -0,0 +1,78 @@
+import { TagJournal, TagRestoredError } from '../tag-journal';
+import { Logger } from '../logger';
+import { PlatformAPI } from '../types';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+describe('TagJournal', () => {
+  let api: jest.Mocked<Pick<PlatformAPI, 'getTag' | 'deleteTag' | 'createTag'>>;
+
+  beforeEach(() => {
+    api = {
+      getTag: jest.fn(),
+      deleteTag: jest.fn().mockResolvedValue(undefined),
+      createTag: jest.fn()
+    };
+  });
+
+  it('should pass the result through when recreation succeeds', async () => {
+    api.getTag.mockResolvedValue({ tagName: 'v1', refSha: 'old-sha', commitSha: 'old-sha', type: 'lightweight' });
+    const journal = new TagJournal(api, mockLogger);
+
+    await journal.delete('v1');
+
+    expect(await journal.recreate(async () => 'created')).toBe('created');
+    expect(api.deleteTag).toHaveBeenCalledWith('v1');
+    expect(api.createTag).not.toHaveBeenCalled();
+  });
+
+  it('should restore an annotated tag with its message and throw TagRestoredError', async () => {
+    api.getTag.mockResolvedValue({ tagName: 'v1', refSha: 'tag-sha', commitSha: 'old-sha', type: 'annotated', message: 'Old' });
+    api.createTag.mockResolvedValue({
+      tagName: 'v1',
+      sha: 'old-sha',
+      objectSha: 'old-tag-object',
+      commitSha: 'old-sha',
+      type: 'annotated',
+      exists: false,
+      created: true,
+      updated: false
+    });
+    const journal = new TagJournal(api, mockLogger);
+
+    await journal.delete('v1');
+    const error = await journal.recreate(() => Promise.reject(new Error('HTTP 422'))).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TagRestoredError);
+    expect(error.restored.commitSha).toBe('old-sha');
+    expect(error.message).toBe('Failed to recreate tag v1; restored it at old-sha: HTTP 422');
+    expect(api.createTag).toHaveBeenCalledWith(expect.objectContaining({ tagName: 'v1', sha: 'old-sha', message: 'Old' }));
+  });
+
+  it('should rethrow as is when nothing was recorded', async () => {
+    api.getTag.mockResolvedValue(undefined);
+    const journal = new TagJournal(api, mockLogger);
+
+    await journal.delete('v1');
+
+    await expect(journal.recreate(() => Promise.reject(new Error('HTTP 500')))).rejects.toThrow('HTTP 500');
+    expect(api.createTag).not.toHaveBeenCalled();
+  });
+
+  it('should report when the restore fails too', async () => {
+    api.getTag.mockResolvedValue({ tagName: 'v1', refSha: 'old-sha', commitSha: 'old-sha', type: 'lightweight' });
+    api.createTag.mockRejectedValue(new Error('HTTP 503'));
+    const journal = new TagJournal(api, mockLogger);
+
+    await journal.delete('v1');
+
+    await expect(journal.recreate(() => Promise.reject(new Error('HTTP 429')))).rejects.toThrow(
+      'Failed to recreate tag v1 (HTTP 429) and to restore it at old-sha (HTTP 503)'
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { applyTag, TagExistsError } from '../tag-policy';
+import { Logger } from '../logger';
+import { PlatformAPI, TagInfo, TagOptions, TagResult } from '../types';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+} as unknown as Logger;
+
+const options: TagOptions = {
+  tagName: 'v1',
+  sha: 'new-sha',
+  message: 'Release v1',
+  gpgSign: false,
+  force: false,
+  verbose: false
+};
+
+const existingTag: TagInfo = {
+  tagName: 'v1',
+  refSha: 'old-tag-object',
+  commitSha: 'old-sha',
+  type: 'annotated',
+  message: 'Release v1'
+};
+
+const written: TagResult = {
+  tagName: 'v1',
+  sha: 'new-sha',
+  objectSha: 'new-tag-object',
+  commitSha: 'new-sha',
+  exists: false,
+  created: true,
+  updated: false,
+  type: 'annotated'
+};
+
+describe('applyTag', () => {
+  let api: jest.Mocked<Pick<PlatformAPI, 'tagExists' | 'getTag' | 'createTag' | 'updateTag'>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    api = {
+      tagExists: jest.fn().mockResolvedValue(true),
+      getTag: jest.fn().mockResolvedValue(existingTag),
+      createTag: jest.fn().mockResolvedValue(written),
+      updateTag: jest.fn().mockResolvedValue(written)
+    };
+  });
+
+  it('should create a missing tag whatever on_exists is', async () => {
+    api.tagExists.mockResolvedValue(false);
+
+    expect(await applyTag(api, options, 'fail', mockLogger)).toEqual(written);
+    expect(api.createTag).toHaveBeenCalledWith({ ...options, force: false });
+    expect(api.getTag).not.toHaveBeenCalled();
+  });
+
+  it('should leave an existing tag alone for skip', async () => {
+    expect(await applyTag(api, options, 'skip', mockLogger)).toEqual({
+      tagName: 'v1',
+      sha: 'new-sha',
+      objectSha: 'old-tag-object',
+      commitSha: 'old-sha',
+      exists: true,
+      created: false,
+      updated: false,
+      unchanged: false,
+      type: 'annotated'
+    });
+    expect(api.createTag).not.toHaveBeenCalled();
+    expect(api.updateTag).not.toHaveBeenCalled();
+    expect(mockLogger.warning).not.toHaveBeenCalled();
+  });
+
+  it('should warn about an existing tag for warn', async () => {
+    const result = await applyTag(api, options, 'warn', mockLogger);
+
+    expect(result.updated).toBe(false);
+    expect(mockLogger.warning).toHaveBeenCalledWith(expect.stringContaining('Tag v1 already exists at old-sha'));
+    expect(api.updateTag).not.toHaveBeenCalled();
+  });
+
+  it('should fail on an existing tag for fail', async () => {
+    await expect(applyTag(api, options, 'fail', mockLogger)).rejects.toThrow(TagExistsError);
+    await expect(applyTag(api, options, 'fail', mockLogger)).rejects.toThrow('Tag v1 already exists at old-sha and on_exists is fail');
+    expect(api.updateTag).not.toHaveBeenCalled();
+  });
+
+  it('should update a different tag for update-if-different and mark it updated', async () => {
+    const result = await applyTag(api, options, 'update-if-different', mockLogger);
+
+    expect(api.updateTag).toHaveBeenCalledWith({ ...options, force: true });
+    expect(result).toMatchObject({ exists: true, updated: true, commitSha: 'new-sha' });
+  });
+
+  it('should report a matching tag as unchanged for every mode but update', async () => {
+    api.getTag.mockResolvedValue({ ...existingTag, commitSha: 'new-sha' });
+
+    for (const onExists of ['skip', 'warn', 'fail', 'update-if-different'] as const) {
+      expect(await applyTag(api, options, onExists, mockLogger)).toMatchObject({ unchanged: true, updated: false });
+    }
+    expect(api.updateTag).not.toHaveBeenCalled();
+
+    await applyTag(api, options, 'update', mockLogger);
+    expect(api.updateTag).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report an existing tag through createTag when its details cannot be read', async () => {
+    api.getTag.mockResolvedValue(undefined);
+
+    await applyTag(api, options, 'skip', mockLogger);
+
+    expect(api.createTag).toHaveBeenCalledWith({ ...options, force: false });
+  });
+});
@@ -0,0 +1,92 @@
+import { describeCreatedTag, describeExistingTag, tagMatches } from '../tag-result';
+import { PlatformAPI, TagInfo } from '../types';
+
+describe('describeExistingTag', () => {
+  it('should report the ref target as the object and the peeled commit', () => {
+    expect(
+      describeExistingTag({ tagName: 'v1', refSha: 'tag-object', commitSha: 'commit-sha', type: 'annotated' })
+    ).toEqual({ objectSha: 'tag-object', commitSha: 'commit-sha', type: 'annotated' });
+  });
+});
+
+describe('describeCreatedTag', () => {
+  let api: jest.Mocked<Pick<PlatformAPI, 'getTag'>>;
+
+  beforeEach(() => {
+    api = { getTag: jest.fn() };
+  });
+
+  it('should not read lightweight tags back', async () => {
+    expect(await describeCreatedTag(api, 'v1', 'commit-sha', false)).toEqual({
+      objectSha: 'commit-sha',
+      commitSha: 'commit-sha',
+      type: 'lightweight'
+    });
+    expect(api.getTag).not.toHaveBeenCalled();
+  });
+
+  it('should read annotated tags back for the tag object SHA', async () => {
+    api.getTag.mockResolvedValue({ tagName: 'v1', refSha: 'tag-object', commitSha: 'commit-sha', type: 'annotated' });
+
+    expect(await describeCreatedTag(api, 'v1', 'commit-sha', true)).toEqual({
+      objectSha: 'tag-object',
+      commitSha: 'commit-sha',
+      type: 'annotated'
+    });
+  });
+
+  it('should fall back to the commit when the tag cannot be read back', async () => {
+    api.getTag.mockResolvedValue(undefined);
+
+    expect(await describeCreatedTag(api, 'v1', 'commit-sha', true)).toEqual({
+      objectSha: 'commit-sha',
+      commitSha: 'commit-sha',
+      type: 'annotated'
+    });
+  });
+});
+
+describe('tagMatches', () => {
+  const annotated: TagInfo = {
+    tagName: 'v1',
+    refSha: 'tag-object',
+    commitSha: 'abc123',
+    type: 'annotated',
+    message: 'Release v1\n'
+  };
+
+  it('should match the same commit, type and message', () => {
+    expect(tagMatches(annotated, { sha: 'ABC123', message: 'Release v1', gpgSign: false })).toBe(true);
+  });
+
+  it('should ignore whitespace git strips from messages', () => {
+    expect(tagMatches({ ...annotated, message: 'Release v1\n\nNotes  \n' }, { sha: 'abc123', message: 'Release v1\n\n\nNotes', gpgSign: false })).toBe(true);
+  });
+
+  it('should not match a different commit or message', () => {
+    expect(tagMatches(annotated, { sha: 'def456', message: 'Release v1', gpgSign: false })).toBe(false);
+    expect(tagMatches(annotated, { sha: 'abc123', message: 'Release v1.0', gpgSign: false })).toBe(false);
+  });
+
+  it('should not match a different type', () => {
+    expect(tagMatches(annotated, { sha: 'abc123', message: undefined, gpgSign: false })).toBe(false);
+    expect(
+      tagMatches({ tagName: 'v1', refSha: 'abc123', commitSha: 'abc123', type: 'lightweight' }, { sha: 'abc123', message: 'Release v1', gpgSign: false })
+    ).toBe(false);
+    expect(
+      tagMatches({ tagName: 'v1', refSha: 'abc123', commitSha: 'abc123', type: 'lightweight' }, { sha: 'abc123', message: undefined, gpgSign: false })
+    ).toBe(true);
+  });
+
+  it('should compare whether the tag is signed', () => {
+    const signed = { ...annotated, signature: '-----BEGIN PGP SIGNATURE-----' };
+
+    expect(tagMatches(signed, { sha: 'abc123', message: 'Release v1', gpgSign: true })).toBe(true);
+    expect(tagMatches(signed, { sha: 'abc123', message: 'Release v1', gpgSign: false })).toBe(false);
+    expect(tagMatches(annotated, { sha: 'abc123', message: 'Release v1', gpgSign: true })).toBe(false);
+  });
+
+  it('should not match when the platform does not report the message', () => {
+    expect(tagMatches({ ...annotated, message: undefined }, { sha: 'abc123', message: 'Release v1', gpgSign: false })).toBe(false);
+  });
+});
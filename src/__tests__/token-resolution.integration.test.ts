@@ -1,6 +1,23 @@
+import * as core from '@actions/core';
 import { resolveToken } from '../config';
 import { getRepositoryInfo } from '../repo-utils';
 import { Logger } from '../logger';
+import { GiteeAPI } from '../platforms/gitee';
+import { GitLabAPI } from '../platforms/gitlab';
+
+jest.mock('@actions/core', () => ({
+  getInput: jest.fn(),
+  setOutput: jest.fn(),
+  setFailed: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  setSecret: jest.fn()
+}));
+
+jest.mock('../platforms/gitee', () => ({ ...jest.requireActual('../platforms/gitee'), GiteeAPI: jest.fn() }));
+jest.mock('../platforms/gitlab', () => ({ ...jest.requireActual('../platforms/gitlab'), GitLabAPI: jest.fn() }));
 
 describe('Token Resolution Integration Tests', () => {
   const originalEnv = process.env;
@@ -166,5 +183,56 @@ describe('Token Resolution Integration Tests', () => {
       expect(resolvedToken).toBe('gitea-token-123');
     });
   });
-});
 
+  describe('Token resolution in run()', () => {
+    const sha = 'a'.repeat(40);
+    const fakeAPI = {
+      tagExists: jest.fn().mockResolvedValue(false),
+      getHeadSha: jest.fn().mockResolvedValue(sha),
+      createTag: jest.fn().mockResolvedValue({
+        tagName: 'v1.0.0',
+        sha,
+        objectSha: sha,
+        commitSha: sha,
+        exists: false,
+        created: true,
+        updated: false,
+        type: 'lightweight'
+      })
+    };
+
+    beforeAll(() => {
+      process.env.SKIP_RUN = 'true';
+    });
+
+    it.each([
+      ['gitee', 'https://gitee.com/owner/repo', 'GITEE_TOKEN', GiteeAPI],
+      ['gitlab', 'https://gitlab.example.com/group/subgroup/repo', 'CI_JOB_TOKEN', GitLabAPI]
+    ])('should pass the %s token from %s to the provider', async (repoType, repository, envVar, providerClass) => {
+      process.env[envVar] = 'platform-token';
+      (providerClass as unknown as jest.Mock).mockImplementation(() => fakeAPI);
+      (core.getInput as jest.Mock).mockImplementation((name: string) => {
+        switch (name) {
+          case 'tag_name':
+            return 'v1.0.0';
+          case 'repository':
+            return repository;
+          case 'repo_type':
+            return repoType;
+          default:
+            return '';
+        }
+      });
+
+      const { run } = await import('../index');
+      await run();
+
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(providerClass).toHaveBeenCalledWith(
+        expect.objectContaining({ repo: 'repo' }),
+        expect.objectContaining({ type: repoType, token: 'platform-token' }),
+        expect.anything()
+      );
+    });
+  });
+});
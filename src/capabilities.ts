@@ -0,0 +1,69 @@
+import { ActionInputs, PlatformCapabilities, RepoType } from './types';
+import { Logger } from './logger';
+
+/**
+ * Capabilities assumed for plugins and descriptors that do not declare their own
+ */
+export const DEFAULT_PLUGIN_CAPABILITIES: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: false,
+  releases: false,
+  skipPush: false
+};
+
+/**
+ * List the requested inputs the platform cannot honour, one message per mismatch
+ */
+export function findCapabilityMismatches(
+  platform: RepoType,
+  capabilities: PlatformCapabilities,
+  inputs: Pick<ActionInputs, 'tagMessage' | 'gpgSign' | 'gitUserName' | 'gitUserEmail' | 'tagDate' | 'onExists' | 'pushTag'>
+): string[] {
+  const mismatches: string[] = [];
+
+  if (inputs.tagMessage !== undefined && !capabilities.annotated) {
+    mismatches.push(`${platform} cannot create annotated tags; tag_message is ignored`);
+  }
+  if (inputs.tagMessage === undefined && !capabilities.lightweight) {
+    mismatches.push(`${platform} cannot create lightweight tags; an annotated tag with a placeholder message is created instead`);
+  }
+  if (inputs.gpgSign && !capabilities.signing) {
+    mismatches.push(`${platform} cannot sign tags; gpg_sign is ignored`);
+  }
+  if (inputs.tagMessage !== undefined && (inputs.gitUserName || inputs.gitUserEmail || inputs.tagDate) && !capabilities.tagger) {
+    mismatches.push(`${platform} cannot set the tagger; git_user_name/git_user_email/tag_date are ignored`);
+  }
+  if ((inputs.onExists === 'update' || inputs.onExists === 'update-if-different') && !capabilities.atomicUpdate) {
+    mismatches.push(`${platform} cannot move a tag atomically; an existing tag is deleted and recreated (and restored if recreation fails)`);
+  }
+  if (!inputs.pushTag && !capabilities.skipPush) {
+    mismatches.push(`${platform} creates tags on the server directly; push_tag: false is ignored`);
+  }
+
+  return mismatches;
+}
+
+/**
+ * Warn about inputs the platform cannot honour, or fail when strict_capabilities is set
+ */
+export function checkCapabilities(
+  platform: RepoType,
+  capabilities: PlatformCapabilities,
+  inputs: Pick<ActionInputs, 'tagMessage' | 'gpgSign' | 'gitUserName' | 'gitUserEmail' | 'tagDate' | 'onExists' | 'pushTag' | 'strictCapabilities'>,
+  logger: Logger
+): void {
+  const mismatches = findCapabilityMismatches(platform, capabilities, inputs);
+  if (mismatches.length === 0) {
+    return;
+  }
+
+  if (inputs.strictCapabilities) {
+    throw new Error(`Unsupported inputs for ${platform} (strict_capabilities): ${mismatches.join('; ')}`);
+  }
+  for (const mismatch of mismatches) {
+    logger.warning(mismatch);
+  }
+}
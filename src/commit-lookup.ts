@@ -0,0 +1,87 @@
+/**
+ * Raised when a SHA or ref does not name a commit in the repository
+ */
+export class CommitNotFoundError extends Error {
+  readonly sha: string;
+
+  constructor(sha: string, repository: string) {
+    super(`${sha} does not name a commit in ${repository}`);
+    this.name = 'CommitNotFoundError';
+    this.sha = sha;
+  }
+}
+
+/**
+ * Resolve a (possibly abbreviated) SHA through a platform's commit endpoint
+ *
+ * Forges answer 404 for unknown objects and 400/422 for malformed, ambiguous or non-commit SHAs; those
+ * become a CommitNotFoundError. A hex SHA must resolve to a commit SHA that extends it, which rejects
+ * endpoints that quietly peel a tag object or fall back to a branch of the same name.
+ */
+export async function lookupCommit(
+  sha: string,
+  repository: string,
+  lookup: () => Promise<string | undefined>
+): Promise<string> {
+  let resolved: string | undefined;
+  try {
+    resolved = await lookup();
+  } catch (error) {
+    if (error instanceof Error && /^HTTP (400|404|422)\b/.test(error.message)) {
+      throw new CommitNotFoundError(sha, repository);
+    }
+    throw error;
+  }
+
+  if (!resolved || (/^[0-9a-f]+$/i.test(sha) && !resolved.toLowerCase().startsWith(sha.toLowerCase()))) {
+    throw new CommitNotFoundError(sha, repository);
+  }
+  return resolved;
+}
+
+/**
+ * Per-platform lookups of a branch or tag by name, returning the (peeled) commit SHA or undefined when missing
+ */
+export interface RefLookups {
+  branch(name: string): Promise<string | undefined>;
+  tag(name: string): Promise<string | undefined>;
+}
+
+/**
+ * Resolve a branch name, tag name, refs/heads/... or refs/tags/... ref to the commit it points to
+ * A bare name is looked up as a tag first and then as a branch, the order git rev-parse uses.
+ */
+export async function lookupRef(ref: string, repository: string, lookups: RefLookups): Promise<string> {
+  const branch = ref.match(/^refs\/heads\/(.+)$/);
+  const tag = ref.match(/^refs\/tags\/(.+)$/);
+
+  let sha: string | undefined;
+  if (branch) {
+    sha = await lookups.branch(branch[1]);
+  } else if (tag) {
+    sha = await lookups.tag(tag[1]);
+  } else if (ref.startsWith('refs/')) {
+    throw new Error(`Cannot resolve ${ref} in ${repository}: only refs/heads/ and refs/tags/ refs can be resolved through the API`);
+  } else {
+    sha = (await lookups.tag(ref)) ?? (await lookups.branch(ref));
+  }
+
+  if (!sha) {
+    throw new CommitNotFoundError(ref, repository);
+  }
+  return sha;
+}
+
+/**
+ * Treat a 404 from a branch or tag lookup as a missing ref
+ */
+export async function missingOn404<T>(request: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('404')) {
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -1,5 +1,7 @@
 import * as core from '@actions/core';
-import { ActionInputs, RepoType } from './types';
+import { ActionInputs, OnExists, RepoType, TagOperation } from './types';
+import { normalizeTagName } from './ref-name';
+import { isTagPattern } from './tag-delete';
 
 /**
  * Parse boolean input with default value
@@ -20,15 +22,56 @@ function getOptionalInput(name: string): string | undefined {
   return value === '' ? undefined : value;
 }
 
+/**
+ * Parse a tag date given as an ISO 8601 date or a Unix timestamp in seconds
+ * Returns it as an ISO 8601 UTC date without milliseconds, which both Git and the APIs accept
+ */
+function parseTagDate(value: string, source: string): string {
+  const trimmed = value.trim();
+  const time = /^\d+$/.test(trimmed) ? Number(trimmed) * 1000 : Date.parse(trimmed);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${source}: ${value}. Use an ISO 8601 date or a Unix timestamp in seconds.`);
+  }
+  return new Date(time).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Parse and validate on_exists
+ */
+function parseOnExists(value: string): OnExists {
+  const validValues: OnExists[] = ['skip', 'fail', 'update', 'update-if-different', 'warn'];
+  const normalized = value.trim().toLowerCase();
+  if (validValues.includes(normalized as OnExists)) {
+    return normalized as OnExists;
+  }
+  throw new Error(`Invalid on_exists: ${value}. Must be one of: ${validValues.join(', ')}`);
+}
+
+/**
+ * Parse and validate operation
+ */
+function parseOperation(value: string): TagOperation {
+  const validValues: TagOperation[] = ['create', 'delete'];
+  const normalized = value.trim().toLowerCase();
+  if (validValues.includes(normalized as TagOperation)) {
+    return normalized as TagOperation;
+  }
+  throw new Error(`Invalid operation: ${value}. Must be one of: ${validValues.join(', ')}`);
+}
+
 /**
  * Parse and validate repo type
+ * With a platform plugin, other values are allowed and checked against the plugin's type once it is loaded
  */
-function parseRepoType(value: string): RepoType {
-  const validTypes: RepoType[] = ['github', 'gitea', 'bitbucket', 'generic', 'git', 'auto'];
+function parseRepoType(value: string, allowPluginType: boolean = false): RepoType {
+  const validTypes: RepoType[] = ['github', 'gitea', 'forgejo', 'gogs', 'gitee', 'gitlab', 'azure-devops', 'bitbucket', 'bitbucket-server', 'gerrit', 'codecommit', 'generic', 'git', 'auto'];
   const normalized = value.toLowerCase();
   if (validTypes.includes(normalized as RepoType)) {
     return normalized as RepoType;
   }
+  if (allowPluginType) {
+    return value as RepoType;
+  }
   throw new Error(
     `Invalid repo_type: ${value}. Must be one of: ${validTypes.join(', ')}`
   );
@@ -38,27 +81,53 @@ function parseRepoType(value: string): RepoType {
  * Get and validate action inputs
  */
 export function getInputs(): ActionInputs {
-  const tagName = core.getInput('tag_name', { required: true });
-  if (!tagName || tagName.trim() === '') {
+  const tagNameInput = core.getInput('tag_name', { required: true });
+  if (!tagNameInput || tagNameInput.trim() === '') {
     throw new Error('tag_name is required and cannot be empty');
   }
 
-  // Validate tag name format (basic validation)
-  if (!/^[^/]+$/.test(tagName)) {
-    throw new Error(
-      `Invalid tag name: ${tagName}. Tag names cannot contain forward slashes.`
-    );
+  const operation = parseOperation(getOptionalInput('operation') || 'create');
+  const failIfMissing = getBooleanInput('fail_if_missing', false);
+
+  // Deletes take one tag name or */? glob per line; creates take a single name
+  let tagName: string;
+  let deleteTargets: string[] | undefined;
+  if (operation === 'delete') {
+    tagName = tagNameInput.trim();
+    deleteTargets = tagNameInput
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line !== '')
+      .map((target) => (isTagPattern(target) ? target.normalize('NFC') : normalizeTagName(target)));
+  } else {
+    // Validate tag name format (git check-ref-format rules); hierarchical names such as release/1.2.0 are allowed
+    tagName = normalizeTagName(tagNameInput.trim());
+  }
+
+  const tagNamePattern = getOptionalInput('tag_name_pattern');
+  if (tagNamePattern) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(tagNamePattern);
+    } catch (error) {
+      throw new Error(`Invalid tag_name_pattern: ${error instanceof Error ? error.message : error}`);
+    }
+    if (operation === 'create' && !pattern.test(tagName)) {
+      throw new Error(`Tag name ${tagName} does not match tag_name_pattern ${tagNamePattern}`);
+    }
   }
 
   const tagMessage = getOptionalInput('tag_message');
   const tagSha = getOptionalInput('tag_sha');
+  const tagRef = getOptionalInput('tag_ref');
   const repository = getOptionalInput('repository');
   const token = getOptionalInput('token');
   const updateExisting = getBooleanInput('update_existing', false);
   const gpgSign = getBooleanInput('gpg_sign', false);
   const gpgKeyId = getOptionalInput('gpg_key_id');
+  const platformPlugin = getOptionalInput('platform_plugin');
   const repoTypeStr = core.getInput('repo_type') || 'auto';
-  const repoType = parseRepoType(repoTypeStr);
+  const repoType = parseRepoType(repoTypeStr, !!platformPlugin);
   const baseUrl = getOptionalInput('base_url');
   const ignoreCertErrors = getBooleanInput('ignore_cert_errors', false);
   const force = getBooleanInput('force', false);
@@ -66,6 +135,36 @@ export function getInputs(): ActionInputs {
   const pushTag = getBooleanInput('push_tag', true);
   const gitUserName = getOptionalInput('git_user_name');
   const gitUserEmail = getOptionalInput('git_user_email');
+  // tag_date wins over SOURCE_DATE_EPOCH, the reproducible-builds convention for a fixed timestamp
+  const tagDateInput = getOptionalInput('tag_date');
+  const sourceDateEpoch = process.env.SOURCE_DATE_EPOCH || undefined;
+  let tagDate: string | undefined;
+  if (tagDateInput) {
+    tagDate = parseTagDate(tagDateInput, 'tag_date');
+  } else if (sourceDateEpoch) {
+    tagDate = parseTagDate(sourceDateEpoch, 'SOURCE_DATE_EPOCH');
+  }
+  const strictCapabilities = getBooleanInput('strict_capabilities', false);
+
+  // force and update_existing are deprecated aliases for on_exists
+  const onExistsInput = getOptionalInput('on_exists');
+  let onExists: OnExists;
+  if (onExistsInput) {
+    if (force || updateExisting) {
+      throw new Error('on_exists cannot be combined with the deprecated force or update_existing inputs; remove them');
+    }
+    onExists = parseOnExists(onExistsInput);
+  } else if (force) {
+    onExists = 'update';
+  } else if (updateExisting) {
+    onExists = 'update-if-different';
+  } else {
+    onExists = 'skip';
+  }
+
+  if (tagSha?.trim() && tagRef?.trim()) {
+    throw new Error('tag_sha and tag_ref cannot both be set; use one to choose the commit to tag');
+  }
 
   // Validate GPG signing requirements
   if (gpgSign && !tagMessage) {
@@ -89,11 +188,17 @@ export function getInputs(): ActionInputs {
   const normalizedTagMessage = tagMessage?.trim() || undefined;
 
   return {
-    tagName: tagName.trim(),
+    operation,
+    tagName,
+    deleteTargets,
+    failIfMissing,
     tagMessage: normalizedTagMessage, // Normalize empty strings to undefined
+    tagNamePattern,
     tagSha: tagSha?.trim(),
+    tagRef: tagRef?.trim(),
     repository: repository?.trim(),
     token: token, // Don't set default here - will be resolved based on platform
+    onExists,
     updateExisting,
     gpgSign,
     gpgKeyId: gpgKeyId?.trim(),
@@ -104,7 +209,10 @@ export function getInputs(): ActionInputs {
     verbose,
     pushTag,
     gitUserName,
-    gitUserEmail
+    gitUserEmail,
+    tagDate,
+    platformPlugin: platformPlugin?.trim(),
+    strictCapabilities
   };
 }
 
@@ -124,8 +232,30 @@ export function resolveToken(token: string | undefined, platform: RepoType): str
       return process.env.GITHUB_TOKEN;
     case 'gitea':
       return process.env.GITEA_TOKEN || process.env.GITHUB_TOKEN; // Gitea Actions also provides GITHUB_TOKEN
+    case 'forgejo':
+      // Forgejo Actions provides FORGEJO_TOKEN (and GITHUB_TOKEN for compatibility)
+      return process.env.FORGEJO_TOKEN || process.env.GITEA_TOKEN || process.env.GITHUB_TOKEN;
+    case 'gogs':
+      return process.env.GOGS_TOKEN;
+    case 'gitee':
+      return process.env.GITEE_TOKEN;
+    case 'gitlab':
+      return process.env.GITLAB_TOKEN || process.env.CI_JOB_TOKEN; // GitLab CI provides CI_JOB_TOKEN
+    case 'azure-devops':
+      return process.env.AZURE_DEVOPS_TOKEN || process.env.SYSTEM_ACCESSTOKEN; // Azure Pipelines exposes SYSTEM_ACCESSTOKEN
     case 'bitbucket':
       return process.env.BITBUCKET_TOKEN;
+    case 'bitbucket-server':
+      return process.env.BITBUCKET_SERVER_TOKEN || process.env.BITBUCKET_TOKEN;
+    case 'gerrit':
+      // Gerrit authenticates with an HTTP password, sent as username:password
+      if (process.env.GERRIT_USERNAME && process.env.GERRIT_HTTP_PASSWORD) {
+        return `${process.env.GERRIT_USERNAME}:${process.env.GERRIT_HTTP_PASSWORD}`;
+      }
+      return undefined;
+    case 'codecommit':
+      // CodeCommit signs requests with AWS credentials (AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY) instead of a token
+      return undefined;
     case 'generic':
     case 'git':
     default:
@@ -133,6 +263,8 @@ export function resolveToken(token: string | undefined, platform: RepoType): str
       return (
         process.env.GITHUB_TOKEN ||
         process.env.GITEA_TOKEN ||
+        process.env.FORGEJO_TOKEN ||
+        process.env.GITLAB_TOKEN ||
         process.env.BITBUCKET_TOKEN
       );
   }
@@ -1,6 +1,8 @@
 import * as exec from '@actions/exec';
-import { TagOptions, TagResult } from './types';
+import { TagOptions, TagResult, TagInfo, TagSummary, ListTagsOptions, GitIdentity } from './types';
 import { Logger } from './logger';
+import { TagCollector } from './tag-collector';
+import { CommitNotFoundError } from './commit-lookup';
 
 /**
  * Check if we're in a Git repository
@@ -55,6 +57,65 @@ export async function getHeadSha(_logger: Logger): Promise<string> {
   return output.join('').trim();
 }
 
+/**
+ * Tagger identity auto-detected from the CI environment (actor and server URL)
+ */
+export function defaultGitIdentity(): GitIdentity {
+  const name =
+    process.env.GITHUB_ACTOR ||
+    process.env.GITEA_ACTOR ||
+    process.env.CI_COMMIT_AUTHOR ||
+    'GitHub Actions';
+
+  // Try to construct email from actor
+  const actor =
+    process.env.GITHUB_ACTOR ||
+    process.env.GITEA_ACTOR ||
+    process.env.CI_COMMIT_AUTHOR;
+  if (!actor) {
+    return { name, email: 'actions@github.com' };
+  }
+
+  // Determine platform and use appropriate noreply email format
+  const githubServerUrl = process.env.GITHUB_SERVER_URL;
+  const giteaServerUrl = process.env.GITEA_SERVER_URL;
+
+  if (githubServerUrl || process.env.GITHUB_ACTOR) {
+    // GitHub format: actor@users.noreply.{hostname}
+    const hostname = githubServerUrl
+      ? githubServerUrl.replace(/^https?:\/\//, '').replace(/\/$/, '')
+      : 'github.com';
+    return { name, email: `${actor}@users.noreply.${hostname}` };
+  }
+  if (giteaServerUrl || process.env.GITEA_ACTOR) {
+    // Gitea format: actor@noreply.{hostname}
+    const hostname = giteaServerUrl
+      ? giteaServerUrl.replace(/^https?:\/\//, '').replace(/\/$/, '')
+      : 'gitea.com';
+    return { name, email: `${actor}@noreply.${hostname}` };
+  }
+  // Default format for other platforms
+  const serverUrl = process.env.CI_SERVER_URL || 'github.com';
+  const hostname = serverUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+  return { name, email: `${actor}@noreply.${hostname}` };
+}
+
+/**
+ * Complete a requested tagger for APIs that need name, email and date together
+ * Returns undefined when no tagger field was requested, so the platform keeps its default (the token's user)
+ */
+export function resolveTagger(tagger?: Partial<GitIdentity>): GitIdentity | undefined {
+  if (!tagger || (!tagger.name && !tagger.email && !tagger.date)) {
+    return undefined;
+  }
+  const detected = defaultGitIdentity();
+  return {
+    name: tagger.name || detected.name,
+    email: tagger.email || detected.email,
+    ...(tagger.date ? { date: tagger.date } : {})
+  };
+}
+
 /**
  * Ensure git user.name and user.email are configured
  * Returns true if configuration was set, false if already configured
@@ -106,52 +167,10 @@ export async function ensureGitUserConfig(
     return false;
   }
 
-  // Determine values to use
-  let finalName = userName;
-  let finalEmail = userEmail;
-
-  // Auto-detect from environment variables if not provided
-  if (!finalName) {
-    finalName =
-      process.env.GITHUB_ACTOR ||
-      process.env.GITEA_ACTOR ||
-      process.env.CI_COMMIT_AUTHOR ||
-      'GitHub Actions';
-  }
-
-  if (!finalEmail) {
-    // Try to construct email from actor
-    const actor =
-      process.env.GITHUB_ACTOR ||
-      process.env.GITEA_ACTOR ||
-      process.env.CI_COMMIT_AUTHOR;
-    if (actor) {
-      // Determine platform and use appropriate noreply email format
-      const githubServerUrl = process.env.GITHUB_SERVER_URL;
-      const giteaServerUrl = process.env.GITEA_SERVER_URL;
-      
-      if (githubServerUrl || process.env.GITHUB_ACTOR) {
-        // GitHub format: actor@users.noreply.{hostname}
-        const hostname = githubServerUrl
-          ? githubServerUrl.replace(/^https?:\/\//, '').replace(/\/$/, '')
-          : 'github.com';
-        finalEmail = `${actor}@users.noreply.${hostname}`;
-      } else if (giteaServerUrl || process.env.GITEA_ACTOR) {
-        // Gitea format: actor@noreply.{hostname}
-        const hostname = giteaServerUrl
-          ? giteaServerUrl.replace(/^https?:\/\//, '').replace(/\/$/, '')
-          : 'gitea.com';
-        finalEmail = `${actor}@noreply.${hostname}`;
-      } else {
-        // Default format for other platforms
-        const serverUrl = process.env.CI_SERVER_URL || 'github.com';
-        const hostname = serverUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
-        finalEmail = `${actor}@noreply.${hostname}`;
-      }
-    } else {
-      finalEmail = 'actions@github.com';
-    }
-  }
+  // Determine values to use, auto-detecting from environment variables if not provided
+  const detected = defaultGitIdentity();
+  const finalName = userName || detected.name;
+  const finalEmail = userEmail || detected.email;
 
   // Set git config (local to repository)
   if (!nameSet && finalName) {
@@ -178,7 +197,7 @@ export async function createTag(
   options: TagOptions,
   logger: Logger
 ): Promise<TagResult> {
-  const { tagName, sha, message, gpgSign, gpgKeyId, gitUserName, gitUserEmail } =
+  const { tagName, sha, message, gpgSign, gpgKeyId, tagger } =
     options;
 
   logger.info(`Creating tag: ${tagName} at ${sha}`);
@@ -200,7 +219,7 @@ export async function createTag(
 
   // Ensure git user config is set for annotated tags (required by Git)
   if (isAnnotatedTag) {
-    await ensureGitUserConfig(logger, gitUserName, gitUserEmail);
+    await ensureGitUserConfig(logger, tagger?.name, tagger?.email);
   }
 
   // Check if tag already exists
@@ -210,6 +229,7 @@ export async function createTag(
     return {
       tagName,
       sha,
+      ...(await describeLocalTag(tagName, logger)),
       exists: true,
       created: false,
       updated: false
@@ -249,10 +269,17 @@ export async function createTag(
 
   // Create tag
   if (normalizedMessage) {
+    // The tagger comes from the committer identity; explicit fields override a configured user.name / user.email
+    const taggerEnv: Record<string, string> = {
+      ...(tagger?.name ? { GIT_COMMITTER_NAME: tagger.name } : {}),
+      ...(tagger?.email ? { GIT_COMMITTER_EMAIL: tagger.email } : {}),
+      ...(tagger?.date ? { GIT_COMMITTER_DATE: tagger.date } : {})
+    };
     logger.debug(`Git command: git tag ${tagArgs.join(' ')}`);
     await exec.exec('git', ['tag', ...tagArgs], {
       input: Buffer.from(normalizedMessage),
-      silent: !options.verbose
+      silent: !options.verbose,
+      ...(Object.keys(taggerEnv).length > 0 ? { env: { ...process.env, ...taggerEnv } as Record<string, string> } : {})
     });
   } else {
     // Lightweight tag
@@ -264,18 +291,54 @@ export async function createTag(
   }
 
   // Verify tag was created
-  const tagSha = await getTagSha(tagName, logger);
-  logger.info(`Tag created successfully: ${tagName} -> ${tagSha}`);
+  const tag = await describeLocalTag(tagName, logger);
+  logger.info(`Tag created successfully: ${tagName} -> ${tag.objectSha}`);
 
   return {
     tagName,
-    sha: tagSha,
+    sha,
+    ...tag,
     exists,
     created: true,
     updated: exists && options.force
   };
 }
 
+/**
+ * Object SHA, peeled commit SHA and type of a local tag
+ */
+async function describeLocalTag(
+  tagName: string,
+  logger: Logger
+): Promise<Pick<TagResult, 'objectSha' | 'commitSha' | 'type'>> {
+  const objectSha = await getTagSha(tagName, logger);
+  // ^{commit} peels tags of tags down to the commit
+  const commitSha = await getTagSha(`${tagName}^{commit}`, logger);
+  return { objectSha, commitSha, type: objectSha !== commitSha ? 'annotated' : 'lightweight' };
+}
+
+/**
+ * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names in the local repository
+ * Annotated tags are peeled to their commit; trees, blobs and unknown objects are rejected.
+ */
+export async function resolveCommitLocal(sha: string, _logger: Logger): Promise<string> {
+  const output: string[] = [];
+  const exitCode = await exec.exec('git', ['rev-parse', '--verify', '--quiet', '--end-of-options', `${sha}^{commit}`], {
+    silent: true,
+    ignoreReturnCode: true,
+    listeners: {
+      stdout: (data: Buffer) => {
+        output.push(data.toString());
+      }
+    }
+  });
+  const resolved = output.join('').trim();
+  if (exitCode !== 0 || !resolved) {
+    throw new CommitNotFoundError(sha, 'the local repository');
+  }
+  return resolved;
+}
+
 /**
  * Get the SHA that a tag points to
  */
@@ -294,13 +357,15 @@ export async function getTagSha(tagName: string, _logger: Logger): Promise<strin
 
 /**
  * Push tag to remote
+ * gitConfig holds extra `-c key=value` arguments (e.g. a credential helper) for the push
  */
 export async function pushTag(
   tagName: string,
   remote: string,
   token: string | undefined,
   force: boolean,
-  logger: Logger
+  logger: Logger,
+  gitConfig: string[] = []
 ): Promise<void> {
   logger.info(`Pushing tag ${tagName} to ${remote}`);
 
@@ -316,7 +381,9 @@ export async function pushTag(
     }
   }
 
-  const pushArgs = ['push', remote, tagName];
+  // A fully qualified refspec cannot match a branch of the same name or be read as a path
+  const refName = `refs/tags/${tagName}`;
+  const pushArgs = [...gitConfig, 'push', remote, `${refName}:${refName}`];
   if (force) {
     pushArgs.push('--force');
   }
@@ -328,9 +395,9 @@ export async function pushTag(
 }
 
 /**
- * Get remote URL
+ * Get the URL configured for a remote name
  */
-async function getRemoteUrl(remote: string, _logger: Logger): Promise<string | undefined> {
+export async function getRemoteUrl(remote: string, _logger: Logger): Promise<string | undefined> {
   const output: string[] = [];
   try {
     await exec.exec('git', ['config', '--get', `remote.${remote}.url`], {
@@ -382,6 +449,31 @@ export async function deleteTagLocally(
   });
 }
 
+/**
+ * Check if a tag exists on a remote (remote name or URL)
+ */
+export async function tagExistsRemote(
+  tagName: string,
+  remote: string,
+  logger: Logger,
+  gitConfig: string[] = []
+): Promise<boolean> {
+  const args = [...gitConfig, 'ls-remote', '--exit-code', '--tags', remote, `refs/tags/${tagName}`];
+  logger.debug(`Git command: git ${args.join(' ')}`);
+  const exitCode = await exec.exec('git', args, {
+    silent: true,
+    ignoreReturnCode: true
+  });
+  // ls-remote --exit-code returns 2 when no matching ref was found
+  if (exitCode === 2) {
+    return false;
+  }
+  if (exitCode !== 0) {
+    throw new Error(`git ls-remote failed with exit code ${exitCode}`);
+  }
+  return true;
+}
+
 /**
  * Delete a tag from remote
  */
@@ -389,7 +481,8 @@ export async function deleteTagRemote(
   tagName: string,
   remote: string,
   token: string | undefined,
-  logger: Logger
+  logger: Logger,
+  gitConfig: string[] = []
 ): Promise<void> {
   logger.info(`Deleting remote tag: ${tagName} from ${remote}`);
 
@@ -404,9 +497,227 @@ export async function deleteTagRemote(
     }
   }
 
-  logger.debug(`Git command: git push ${remote} --delete ${tagName}`);
-  await exec.exec('git', ['push', remote, '--delete', tagName], {
+  const refName = `refs/tags/${tagName}`;
+  logger.debug(`Git command: git push ${remote} --delete ${refName}`);
+  await exec.exec('git', [...gitConfig, 'push', remote, '--delete', refName], {
     silent: true
   });
 }
 
+/**
+ * Run a read-only git command and capture its stdout
+ */
+async function readGitOutput(args: string[]): Promise<{ exitCode: number; stdout: string }> {
+  const output: string[] = [];
+  const exitCode = await exec.exec('git', args, {
+    silent: true,
+    ignoreReturnCode: true,
+    listeners: {
+      stdout: (data: Buffer) => {
+        output.push(data.toString());
+      }
+    }
+  });
+  return { exitCode, stdout: output.join('') };
+}
+
+const SIGNATURE_START = /^-----BEGIN (PGP|SSH) SIGNATURE-----$|^-----BEGIN SIGNED MESSAGE-----$/m;
+
+/**
+ * Parse a "Name <email> 1700000000 +0100" identity line from a tag object
+ */
+function parseIdentity(value: string): GitIdentity | undefined {
+  const match = value.match(/^(.*?) <([^>]*)> (\d+) [+-]\d{4}$/);
+  if (!match) {
+    return undefined;
+  }
+  return { name: match[1], email: match[2], date: new Date(Number(match[3]) * 1000).toISOString() };
+}
+
+/**
+ * Parse the raw contents of a tag object (`git cat-file tag <sha>`)
+ */
+export function parseTagObject(raw: string): {
+  objectSha: string;
+  objectType: string;
+  tagger?: GitIdentity;
+  message?: string;
+  signature?: string;
+} {
+  const separator = raw.indexOf('\n\n');
+  const header = separator === -1 ? raw : raw.slice(0, separator);
+  let body = separator === -1 ? '' : raw.slice(separator + 2);
+
+  const fields: Record<string, string> = {};
+  for (const line of header.split('\n')) {
+    const space = line.indexOf(' ');
+    if (space > 0) {
+      fields[line.slice(0, space)] = line.slice(space + 1);
+    }
+  }
+
+  // The signature is appended to the message
+  let signature: string | undefined;
+  const signatureStart = body.search(SIGNATURE_START);
+  if (signatureStart !== -1) {
+    signature = body.slice(signatureStart).trimEnd();
+    body = body.slice(0, signatureStart);
+  }
+
+  return {
+    objectSha: fields.object,
+    objectType: fields.type,
+    tagger: fields.tagger ? parseIdentity(fields.tagger) : undefined,
+    message: body.replace(/\n+$/, '') || undefined,
+    signature
+  };
+}
+
+/**
+ * Read message, tagger and signature from a tag object in the local object store
+ * Returns undefined when the object is not available locally
+ */
+async function readTagObject(sha: string): Promise<ReturnType<typeof parseTagObject> | undefined> {
+  const { exitCode, stdout } = await readGitOutput(['cat-file', 'tag', sha]);
+  return exitCode === 0 ? parseTagObject(stdout) : undefined;
+}
+
+/**
+ * Get a local tag by exact name
+ */
+export async function getTagInfoLocal(tagName: string, logger: Logger): Promise<TagInfo | undefined> {
+  const refName = `refs/tags/${tagName}`;
+  logger.debug(`Git command: git for-each-ref ${refName}`);
+
+  // for-each-ref also matches refs below refName (refs/tags/v1/...), so compare the full ref name
+  const { stdout } = await readGitOutput(['for-each-ref', '--format=%(objectname) %(objecttype) %(refname)', refName]);
+  const entry = stdout
+    .split('\n')
+    .map((line) => line.trim().split(' '))
+    .find(([, , name]) => name === refName);
+  if (!entry) {
+    return undefined;
+  }
+  const [refSha, objectType] = entry;
+
+  // ^{} peels tags of tags down to the commit
+  const peeled = await readGitOutput(['rev-parse', '--verify', '--quiet', `${refSha}^{}`]);
+  const commitSha = peeled.stdout.trim() || refSha;
+
+  if (objectType !== 'tag') {
+    return { tagName, refSha, commitSha, type: 'lightweight' };
+  }
+  const tagObject = await readTagObject(refSha);
+  return {
+    tagName,
+    refSha,
+    commitSha,
+    type: 'annotated',
+    message: tagObject?.message,
+    tagger: tagObject?.tagger,
+    signature: tagObject?.signature
+  };
+}
+
+/**
+ * Get a tag on a remote (remote name or URL) by exact name
+ * Message, tagger and signature are only filled in when the tag object has been fetched locally.
+ */
+export async function getTagInfoRemote(
+  tagName: string,
+  remote: string,
+  logger: Logger,
+  gitConfig: string[] = []
+): Promise<TagInfo | undefined> {
+  const refName = `refs/tags/${tagName}`;
+  const args = [...gitConfig, 'ls-remote', '--tags', remote, refName];
+  logger.debug(`Git command: git ${args.join(' ')}`);
+  const { exitCode, stdout } = await readGitOutput(args);
+  if (exitCode !== 0) {
+    throw new Error(`git ls-remote failed with exit code ${exitCode}`);
+  }
+
+  // Annotated tags are listed twice: the tag object, then the peeled commit as <ref>^{}
+  let refSha: string | undefined;
+  let peeledSha: string | undefined;
+  for (const line of stdout.split('\n')) {
+    const [sha, name] = line.trim().split('\t');
+    if (name === refName) {
+      refSha = sha;
+    } else if (name === `${refName}^{}`) {
+      peeledSha = sha;
+    }
+  }
+  if (!refSha) {
+    return undefined;
+  }
+  if (!peeledSha) {
+    return { tagName, refSha, commitSha: refSha, type: 'lightweight' };
+  }
+
+  const tagObject = await readTagObject(refSha);
+  return {
+    tagName,
+    refSha,
+    commitSha: peeledSha,
+    type: 'annotated',
+    message: tagObject?.message,
+    tagger: tagObject?.tagger,
+    signature: tagObject?.signature
+  };
+}
+
+/**
+ * List local tags, newest first, with annotated tags peeled to their commit
+ */
+export async function listTagsLocal(options: ListTagsOptions, logger: Logger): Promise<TagSummary[]> {
+  const args = ['for-each-ref', '--sort=-creatordate', '--format=%(refname:strip=2) %(objectname) %(*objectname)', 'refs/tags'];
+  logger.debug(`Git command: git ${args.join(' ')}`);
+  const { exitCode, stdout } = await readGitOutput(args);
+  if (exitCode !== 0) {
+    throw new Error(`git for-each-ref failed with exit code ${exitCode}`);
+  }
+
+  const collector = new TagCollector(options);
+  for (const line of stdout.split('\n')) {
+    // %(*objectname) is empty for lightweight tags
+    const [tagName, objectSha, peeledSha] = line.trim().split(' ');
+    if (tagName && objectSha) {
+      collector.add({ tagName, commitSha: peeledSha || objectSha });
+    }
+  }
+  return collector.tags;
+}
+
+/**
+ * List the tags on a remote with annotated tags peeled to their commit
+ */
+export async function listTagsRemote(
+  options: ListTagsOptions,
+  remote: string,
+  logger: Logger,
+  gitConfig: string[] = []
+): Promise<TagSummary[]> {
+  const args = [...gitConfig, 'ls-remote', '--tags', remote];
+  logger.debug(`Git command: git ${args.join(' ')}`);
+  const { exitCode, stdout } = await readGitOutput(args);
+  if (exitCode !== 0) {
+    throw new Error(`git ls-remote failed with exit code ${exitCode}`);
+  }
+
+  // The peeled <ref>^{} line follows the tag object line and replaces its SHA
+  const tags = new Map<string, string>();
+  for (const line of stdout.split('\n')) {
+    const [sha, name] = line.trim().split('\t');
+    if (!sha || !name?.startsWith('refs/tags/')) {
+      continue;
+    }
+    tags.set(name.slice('refs/tags/'.length).replace(/\^\{\}$/, ''), sha);
+  }
+
+  const collector = new TagCollector(options);
+  for (const [tagName, commitSha] of tags) {
+    collector.add({ tagName, commitSha });
+  }
+  return collector.tags;
+}
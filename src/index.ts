@@ -1,10 +1,141 @@
 import * as core from '@actions/core';
-import { getInputs, resolveToken } from './config';
+import { getInputs } from './config';
 import { Logger } from './logger';
 import { getRepositoryInfo } from './repo-utils';
-import { isGitRepository, getHeadSha, createTag, pushTag } from './git';
-import { createPlatformAPI } from './platforms/platform-factory';
-import { PlatformAPI, TagOptions, RepoType } from './types';
+import {
+  isGitRepository,
+  getHeadSha,
+  resolveCommitLocal,
+  createTag,
+  pushTag,
+  getTagInfoLocal,
+  tagExistsLocally,
+  listTagsLocal,
+  deleteTagLocally,
+  tagExistsRemote,
+  getTagInfoRemote,
+  listTagsRemote,
+  deleteTagRemote
+} from './git';
+import { createPlatformAPI, loadPlatformPlugin, PlatformProvider } from './platforms/platform-factory';
+import { checkCapabilities } from './capabilities';
+import { checkPlatformTagName } from './ref-name';
+import { TagRestoredError } from './tag-journal';
+import { applyTag } from './tag-policy';
+import { deleteTags } from './tag-delete';
+import { PlatformAPI, TagOptions, TagResult, RepoType, PlatformCapabilities, ActionInputs, RepositoryInfo } from './types';
+
+/**
+ * Git CLI operations for deleting tags. A checkout usually has no tags (actions/checkout does not fetch them),
+ * so when push_tag is enabled and origin is configured, tags are looked up and deleted on origin as well.
+ */
+function localGitDeleteAPI(
+  repoInfo: RepositoryInfo,
+  token: string | undefined,
+  pushTag: boolean,
+  logger: Logger
+): Pick<PlatformAPI, 'tagExists' | 'getTag' | 'listTags' | 'deleteTag'> {
+  const useRemote = pushTag && !!repoInfo.url;
+  if (!useRemote) {
+    logger.debug('push_tag is false or no remote is configured, only local tags are deleted');
+  }
+  return {
+    tagExists: async (tagName) =>
+      (await tagExistsLocally(tagName, logger)) || (useRemote && (await tagExistsRemote(tagName, 'origin', logger))),
+    getTag: async (tagName) =>
+      (await getTagInfoLocal(tagName, logger)) ?? (useRemote ? await getTagInfoRemote(tagName, 'origin', logger) : undefined),
+    listTags: async (options = {}) => {
+      const tags = await listTagsLocal(options, logger);
+      if (!useRemote) {
+        return tags;
+      }
+      const names = new Set(tags.map((tag) => tag.tagName));
+      return [...tags, ...(await listTagsRemote(options, 'origin', logger)).filter((tag) => !names.has(tag.tagName))];
+    },
+    deleteTag: async (tagName) => {
+      if (await tagExistsLocally(tagName, logger)) {
+        await deleteTagLocally(tagName, logger);
+      }
+      if (useRemote && (await tagExistsRemote(tagName, 'origin', logger))) {
+        await deleteTagRemote(tagName, 'origin', token, logger);
+      }
+    }
+  };
+}
+
+/**
+ * Git CLI operations for creating tags. As for deletes, a tag that only exists on origin counts as existing
+ * when push_tag is enabled and origin is configured, so on_exists applies to it instead of a rejected push.
+ */
+function localGitCreateAPI(
+  repoInfo: RepositoryInfo,
+  pushTag: boolean,
+  logger: Logger
+): Pick<PlatformAPI, 'tagExists' | 'getTag' | 'createTag' | 'updateTag'> {
+  const useRemote = pushTag && !!repoInfo.url;
+  return {
+    tagExists: async (tagName) =>
+      (await tagExistsLocally(tagName, logger)) || (useRemote && (await tagExistsRemote(tagName, 'origin', logger))),
+    getTag: async (tagName) =>
+      (await getTagInfoLocal(tagName, logger)) ?? (useRemote ? await getTagInfoRemote(tagName, 'origin', logger) : undefined),
+    createTag: (options) => createTag(options, logger),
+    updateTag: (options) => createTag({ ...options, force: true }, logger)
+  };
+}
+
+/**
+ * Detect the platform, create its API with a token resolved for it, and record the detected platform
+ */
+async function connectPlatform(
+  repoInfo: RepositoryInfo,
+  inputs: ActionInputs,
+  plugins: PlatformProvider[],
+  logger: Logger
+): Promise<{ api: PlatformAPI; capabilities: PlatformCapabilities; token?: string }> {
+  const { platform, api, capabilities, token } = await createPlatformAPI(
+    repoInfo,
+    inputs.repoType,
+    {
+      token: inputs.token,
+      baseUrl: inputs.baseUrl,
+      ignoreCertErrors: inputs.ignoreCertErrors,
+      verbose: inputs.verbose,
+      pushTag: inputs.pushTag,
+      plugins
+    },
+    logger
+  );
+  repoInfo.platform = platform;
+  return { api, capabilities, token };
+}
+
+/**
+ * Delete the tags named by tag_name (operation: delete) and set the delete outputs
+ */
+async function runDelete(
+  api: Pick<PlatformAPI, 'tagExists' | 'getTag' | 'listTags' | 'deleteTag'>,
+  inputs: ActionInputs,
+  platform: RepoType,
+  logger: Logger
+): Promise<void> {
+  const deleted = await deleteTags(api, inputs.deleteTargets ?? [inputs.tagName], inputs.failIfMissing, logger);
+  const previousSha = deleted.length === 1 ? deleted[0].commitSha ?? '' : '';
+
+  core.setOutput('tag_name', inputs.tagName);
+  core.setOutput('tag_deleted', String(deleted.length > 0));
+  core.setOutput('tag_previous_sha', previousSha);
+  core.setOutput('deleted_tags', JSON.stringify(deleted.map((tag) => ({ tag_name: tag.tagName, sha: tag.commitSha ?? null }))));
+  core.setOutput('platform', platform);
+
+  if (inputs.verbose) {
+    logger.debug('=== OUTPUTS ===');
+    logger.debug(`tag_deleted: ${deleted.length > 0}`);
+    logger.debug(`tag_previous_sha: ${previousSha}`);
+    logger.debug(`deleted_tags: ${deleted.map((tag) => tag.tagName).join(', ') || 'none'}`);
+    logger.debug(`platform: ${platform}`);
+  }
+  logger.info(`Deleted ${deleted.length} tag(s)`);
+}
 
 /**
  * Main action function
@@ -15,13 +146,22 @@ export async function run(): Promise<void> {
     const inputs = getInputs();
     const logger = new Logger(inputs.verbose);
 
-    logger.info(`Creating/updating tag: ${inputs.tagName}`);
+    logger.info(inputs.operation === 'delete' ? `Deleting tags: ${inputs.tagName}` : `Creating/updating tag: ${inputs.tagName}`);
+    if (inputs.force) {
+      logger.warning('force is deprecated; use on_exists: update');
+    }
+    if (inputs.updateExisting) {
+      logger.warning('update_existing is deprecated; use on_exists: update-if-different');
+    }
     
     // Log all inputs when verbose is enabled
     if (inputs.verbose) {
       logger.debug('=== INPUTS ===');
+      logger.debug(`operation: ${inputs.operation}`);
       logger.debug(`tag_name: ${inputs.tagName}`);
+      logger.debug(`tag_name_pattern: ${inputs.tagNamePattern || 'undefined'}`);
       logger.debug(`tag_sha: ${inputs.tagSha || 'undefined (will use HEAD)'}`);
+      logger.debug(`tag_ref: ${inputs.tagRef || 'undefined'}`);
       if (inputs.tagMessage === undefined) {
         logger.debug(`tag_message: undefined (will create lightweight tag)`);
       } else {
@@ -35,17 +175,22 @@ export async function run(): Promise<void> {
       logger.debug(`token: ${inputs.token ? '*** (explicitly provided)' : 'undefined (will resolve from env based on platform)'}`);
       logger.debug(`repo_type: ${inputs.repoType}`);
       logger.debug(`base_url: ${inputs.baseUrl || 'undefined (will auto-detect)'}`);
-      logger.debug(`update_existing: ${inputs.updateExisting}`);
+      logger.debug(`on_exists: ${inputs.onExists}`);
       logger.debug(`gpg_sign: ${inputs.gpgSign}`);
       logger.debug(`gpg_key_id: ${inputs.gpgKeyId || 'undefined'}`);
       logger.debug(`ignore_cert_errors: ${inputs.ignoreCertErrors}`);
-      logger.debug(`force: ${inputs.force}`);
       logger.debug(`push_tag: ${inputs.pushTag}`);
       logger.debug(`git_user_name: ${inputs.gitUserName || 'undefined (will auto-detect)'}`);
       logger.debug(`git_user_email: ${inputs.gitUserEmail || 'undefined (will auto-detect)'}`);
+      logger.debug(`tag_date: ${inputs.tagDate || 'undefined (current time)'}`);
       logger.debug(`verbose: ${inputs.verbose}`);
+      logger.debug(`platform_plugin: ${inputs.platformPlugin || 'undefined'}`);
+      logger.debug(`strict_capabilities: ${inputs.strictCapabilities}`);
     }
 
+    // Load the custom platform provider, if any, before platform detection
+    const plugins = inputs.platformPlugin ? [loadPlatformPlugin(inputs.platformPlugin, logger)] : [];
+
     // Get repository information
     const repoInfo = await getRepositoryInfo(
       inputs.repository,
@@ -53,12 +198,11 @@ export async function run(): Promise<void> {
       logger
     );
 
-    // Resolve token based on detected platform
-    const resolvedToken = resolveToken(inputs.token, repoInfo.platform);
+    // Detect the platform and resolve a blank token from it; creating and deleting tags both start here
+    const { api: platformAPI, capabilities, token: resolvedToken } = await connectPlatform(repoInfo, inputs, plugins, logger);
 
     // Determine if we should use local Git or platform API
-    // For github, gitea, and bitbucket platforms, always use the platform API
-    // For generic and git platforms, use local Git CLI
+    // For generic and git platforms in a Git checkout, use local Git CLI; everything else uses the platform API
     const useLocalGit = await isGitRepository(logger);
     const usePlatformAPI = !useLocalGit || (repoInfo.platform !== 'generic' && repoInfo.platform !== 'git');
 
@@ -74,33 +218,31 @@ export async function run(): Promise<void> {
     } else {
       logger.debug(`Use local Git: ${useLocalGit}, Use platform API: ${usePlatformAPI}`);
     }
+    logger.info(usePlatformAPI ? `Using ${repoInfo.platform} API` : 'Using local Git CLI');
+
+    if (inputs.operation === 'delete') {
+      const api = usePlatformAPI ? platformAPI : localGitDeleteAPI(repoInfo, resolvedToken, inputs.pushTag, logger);
+      await runDelete(api, inputs, repoInfo.platform, logger);
+      return;
+    }
+
+    checkPlatformTagName(inputs.tagName, repoInfo.platform);
+    checkCapabilities(repoInfo.platform, capabilities, inputs, logger);
 
     // Get SHA to tag
     let sha = inputs.tagSha;
     if (!sha) {
       if (usePlatformAPI) {
         // When using platform API, get HEAD SHA from the remote repository
-        const { platform, api: platformAPI } = await createPlatformAPI(
-          repoInfo,
-          inputs.repoType,
-          {
-            token: resolvedToken,
-            baseUrl: inputs.baseUrl,
-            ignoreCertErrors: inputs.ignoreCertErrors,
-            verbose: inputs.verbose,
-            pushTag: inputs.pushTag
-          },
-          logger
-        );
-        repoInfo.platform = platform;
-        sha = await platformAPI.getHeadSha();
-        logger.debug(`Using HEAD SHA from remote repository: ${sha}`);
-      } else if (useLocalGit) {
-        sha = await getHeadSha(logger);
+        if (inputs.tagRef) {
+          sha = await platformAPI.resolveRef(inputs.tagRef);
+          logger.debug(`Using ${inputs.tagRef} from remote repository: ${sha}`);
+        } else {
+          sha = await platformAPI.getHeadSha();
+          logger.debug(`Using HEAD SHA from remote repository: ${sha}`);
+        }
       } else {
-        throw new Error(
-          'tag_sha is required when not running in a local Git repository and not using a platform API'
-        );
+        sha = inputs.tagRef ? await resolveCommitLocal(inputs.tagRef, logger) : await getHeadSha(logger);
       }
     }
 
@@ -115,10 +257,13 @@ export async function run(): Promise<void> {
       message: inputs.tagMessage,
       gpgSign: inputs.gpgSign,
       gpgKeyId: inputs.gpgKeyId,
-      force: inputs.force,
+      force: false, // applyTag decides whether an existing tag is written again
       verbose: inputs.verbose,
-      gitUserName: inputs.gitUserName,
-      gitUserEmail: inputs.gitUserEmail
+      tagger: {
+        name: inputs.gitUserName,
+        email: inputs.gitUserEmail,
+        date: inputs.tagDate
+      }
     };
 
     // Log tag options when verbose is enabled
@@ -129,89 +274,60 @@ export async function run(): Promise<void> {
       logger.debug(`message: ${tagOptions.message === undefined ? 'undefined (lightweight tag)' : `length=${tagOptions.message.length} (annotated tag)`}`);
       logger.debug(`gpgSign: ${tagOptions.gpgSign}`);
       logger.debug(`gpgKeyId: ${tagOptions.gpgKeyId || 'undefined'}`);
-      logger.debug(`force: ${tagOptions.force}`);
-      logger.debug(`gitUserName: ${tagOptions.gitUserName || 'undefined'}`);
-      logger.debug(`gitUserEmail: ${tagOptions.gitUserEmail || 'undefined'}`);
+      logger.debug(`tagger: ${JSON.stringify(tagOptions.tagger)}`);
     }
 
-    let result;
+    let result: TagResult;
 
-    if (useLocalGit && !usePlatformAPI) {
+    if (!usePlatformAPI) {
       // Use local Git CLI directly
-      logger.info('Using local Git CLI');
-      result = await createTag(tagOptions, logger);
+      if (inputs.tagSha) {
+        tagOptions.sha = await resolveCommitLocal(inputs.tagSha, logger);
+      }
+      result = await applyTag(localGitCreateAPI(repoInfo, inputs.pushTag, logger), tagOptions, inputs.onExists, logger);
 
-      // Push to remote if push_tag is enabled and we have a remote configured
+      // Push to remote if push_tag is enabled and we have a remote configured. A tag that was left alone is
+      // only pushed when origin does not have it yet; a failed push fails the action before any output is set.
       if (inputs.pushTag && repoInfo.url) {
-        try {
+        if (result.created || result.updated || !(await tagExistsRemote(inputs.tagName, 'origin', logger))) {
           logger.info(`Pushing tag ${inputs.tagName} to remote`);
           await pushTag(
             inputs.tagName,
             'origin',
             resolvedToken,
-            inputs.force,
+            result.updated,
             logger
           );
           logger.info(`Tag ${inputs.tagName} pushed successfully`);
-        } catch (error) {
-          logger.warning(`Failed to push tag: ${error}`);
+        } else {
+          logger.debug(`Tag ${inputs.tagName} is already on origin, skipping tag push`);
         }
       } else if (!inputs.pushTag) {
         logger.debug('push_tag is false, skipping tag push');
       }
     } else {
-      // Use platform API via factory (hostname-first, then per-platform detection)
-      const { platform, api: platformAPI } = await createPlatformAPI(
-        repoInfo,
-        inputs.repoType,
-        {
-          token: resolvedToken,
-          baseUrl: inputs.baseUrl,
-          ignoreCertErrors: inputs.ignoreCertErrors,
-          verbose: inputs.verbose,
-          pushTag: inputs.pushTag
-        },
-        logger
-      );
-      repoInfo.platform = platform;
-      logger.info(`Using ${platform} API`);
-
-      // Check if tag exists
-      const exists = await platformAPI.tagExists(inputs.tagName);
-
-      if (exists && !inputs.updateExisting) {
-        // Tag exists and we're not updating
-        logger.info(`Tag ${inputs.tagName} already exists`);
-        result = {
-          tagName: inputs.tagName,
-          sha,
-          exists: true,
-          created: false,
-          updated: false
-        };
-      } else if (exists && inputs.updateExisting) {
-        // Tag exists and we should update it
-        logger.info(`Updating existing tag: ${inputs.tagName}`);
-        result = await platformAPI.updateTag(tagOptions);
-      } else {
-        // Tag doesn't exist, create it (whether update_existing is true or false)
-        logger.info(`Creating new tag: ${inputs.tagName}`);
-        result = await platformAPI.createTag(tagOptions);
+      // Expand an abbreviated tag_sha and make sure it names a commit before anything is written
+      if (inputs.tagSha) {
+        tagOptions.sha = await platformAPI.resolveCommit(inputs.tagSha);
+        logger.debug(`Resolved tag_sha ${inputs.tagSha} to ${tagOptions.sha}`);
       }
+
+      result = await applyTag(platformAPI, tagOptions, inputs.onExists, logger);
     }
 
     // Set outputs
-    if (inputs.updateExisting && result.updated !== true) {
-      // In update mode, ensure outputs reflect an attempted update even if the platform response
-      // did not mark it as such (e.g., legacy APIs that don't signal updates explicitly).
-      result = { ...result, updated: true, exists: true };
-    }
     core.setOutput('tag_name', result.tagName);
     core.setOutput('tag_sha', result.sha);
     core.setOutput('tag_exists', result.exists.toString());
     core.setOutput('tag_updated', result.updated.toString());
     core.setOutput('tag_created', result.created.toString());
+    core.setOutput('tag_unchanged', String(result.unchanged === true));
+    core.setOutput('tag_object_sha', result.objectSha);
+    core.setOutput('tag_commit_sha', result.commitSha);
+    core.setOutput('tag_type', result.type);
+    core.setOutput('tag_restored', 'false');
     core.setOutput('platform', repoInfo.platform);
+    core.setOutput('capabilities', JSON.stringify(capabilities));
 
     // Log all outputs when verbose is enabled
     if (inputs.verbose) {
@@ -221,11 +337,21 @@ export async function run(): Promise<void> {
       logger.debug(`tag_exists: ${result.exists}`);
       logger.debug(`tag_updated: ${result.updated}`);
       logger.debug(`tag_created: ${result.created}`);
+      logger.debug(`tag_unchanged: ${result.unchanged === true}`);
+      logger.debug(`tag_object_sha: ${result.objectSha}`);
+      logger.debug(`tag_commit_sha: ${result.commitSha}`);
+      logger.debug(`tag_type: ${result.type}`);
       logger.debug(`platform: ${repoInfo.platform}`);
+      logger.debug(`capabilities: ${JSON.stringify(capabilities)}`);
     }
 
     logger.info('Action completed successfully');
   } catch (error) {
+    if (error instanceof TagRestoredError) {
+      // The update failed but the previous tag was put back
+      core.setOutput('tag_restored', 'true');
+      core.setOutput('tag_restored_sha', error.restored.commitSha);
+    }
     if (error instanceof Error) {
       core.setFailed(error.message);
     } else {
@@ -0,0 +1,113 @@
+import { createHash, createHmac } from 'crypto';
+
+/**
+ * AWS credentials read from the standard environment variables
+ */
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/**
+ * Request to sign with AWS Signature Version 4
+ */
+export interface SigV4Request {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  region: string;
+  service: string;
+  credentials: AwsCredentials;
+  date?: Date;
+}
+
+/**
+ * Read AWS credentials from AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN
+ * Returns undefined when the key pair is not set
+ */
+export function getAwsCredentialsFromEnv(): AwsCredentials | undefined {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) {
+    return undefined;
+  }
+  return {
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: process.env.AWS_SESSION_TOKEN || undefined
+  };
+}
+
+function sha256Hex(data: string): string {
+  return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+/**
+ * RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* unescaped)
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ * Returns the request headers plus host, x-amz-date, x-amz-security-token (if any) and Authorization
+ */
+export function signRequest(request: SigV4Request): Record<string, string> {
+  const url = new URL(request.url);
+  const amzDate = (request.date || new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: url.host,
+    'x-amz-date': amzDate
+  };
+  if (request.credentials.sessionToken) {
+    headers['x-amz-security-token'] = request.credentials.sessionToken;
+  }
+
+  const canonicalHeaderEntries = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const canonicalHeaders = canonicalHeaderEntries.map(([name, value]) => `${name}:${value}\n`).join('');
+  const signedHeaders = canonicalHeaderEntries.map(([name]) => name).join(';');
+
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([key, value]) => `${uriEncode(key)}=${uriEncode(value)}`)
+    .sort()
+    .join('&');
+  const canonicalUri = url.pathname
+    .split('/')
+    .map((segment) => uriEncode(decodeURIComponent(segment)))
+    .join('/') || '/';
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    sha256Hex(request.body)
+  ].join('\n');
+
+  const scope = `${dateStamp}/${request.region}/${request.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${request.credentials.secretAccessKey}`, dateStamp), request.region), request.service),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${request.credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
@@ -0,0 +1,345 @@
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  HttpResponse,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
+import { Logger } from '../logger';
+import { describeExistingTag, describeCreatedTag } from '../tag-result';
+import { TagJournal } from '../tag-journal';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef } from '../commit-lookup';
+import { HttpClient } from './http-client';
+
+const API_VERSION = '7.1';
+const ANNOTATED_TAGS_API_VERSION = '7.1-preview.1';
+const ZERO_SHA = '0000000000000000000000000000000000000000';
+
+interface GitRef {
+  name: string;
+  objectId: string;
+  /** Commit behind an annotated tag; only returned with peelTags=true */
+  peeledObjectId?: string;
+}
+
+interface GitRefUpdateResult {
+  name: string;
+  success: boolean;
+  updateStatus: string;
+}
+
+/**
+ * Azure DevOps Services / Server API client (Git Refs and Annotated Tags APIs)
+ *
+ * The repository owner holds everything before `_git` in the repository URL
+ * (`{organization}/{project}` on Services, `{collection}/{project}` on Server). The base URL may
+ * already carry part of it (e.g. https://host/tfs/DefaultCollection), which is then left out of the owner.
+ */
+export class AzureDevOpsAPI implements PlatformAPI {
+  private client: HttpClient;
+  private repoInfo: RepositoryInfo;
+  private logger: Logger;
+  private basePathSegments: string[];
+
+  constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    const baseUrl = config.baseUrl || 'https://dev.azure.com';
+    this.client = new HttpClient(
+      {
+        baseUrl,
+        token: config.token,
+        authScheme: 'basic', // Personal access tokens use Basic auth with an empty user name
+        ignoreCertErrors: config.ignoreCertErrors,
+        verbose: config.verbose
+      },
+      logger
+    );
+    this.repoInfo = repoInfo;
+    this.logger = logger;
+    this.basePathSegments = new URL(baseUrl).pathname.split('/').filter(segment => segment).map(segment => decodeURIComponent(segment));
+  }
+
+  /**
+   * Repository API path (owner segments are re-encoded to handle project names with spaces)
+   */
+  private get repositoryPath(): string {
+    let segments = this.repoInfo.owner.split('/').filter(segment => segment).map(segment => decodeURIComponent(segment));
+    // Leave out the collection (and project) the base URL already points at
+    const base = this.basePathSegments;
+    if (base.length > 0 && base.every((segment, i) => segments[i] === segment)) {
+      segments = segments.slice(base.length);
+    }
+    const owner = segments.map(segment => `/${encodeURIComponent(segment)}`).join('');
+    return `${owner}/_apis/git/repositories/${encodeURIComponent(this.repoInfo.repo)}`;
+  }
+
+  /**
+   * Find a ref by exact name (the refs filter is a prefix match)
+   */
+  private async findRef(refName: string, peelTags = false): Promise<GitRef | undefined> {
+    const filter = encodeURIComponent(refName.replace(/^refs\//, ''));
+    const path = `${this.repositoryPath}/refs?filter=${filter}${peelTags ? '&peelTags=true' : ''}&api-version=${API_VERSION}`;
+    const response = await this.client.get<{ value: GitRef[] }>(path);
+    return (response.value || []).find(ref => ref.name === refName);
+  }
+
+  /**
+   * Apply a single ref update and fail if the server rejects it
+   */
+  private async updateRef(name: string, oldObjectId: string, newObjectId: string): Promise<void> {
+    const path = `${this.repositoryPath}/refs?api-version=${API_VERSION}`;
+    const response = await this.client.post<{ value: GitRefUpdateResult[] }>(path, [
+      { name, oldObjectId, newObjectId }
+    ]);
+    const result = response?.value?.[0];
+    if (result && !result.success) {
+      throw new Error(`Failed to update ref ${name}: ${result.updateStatus}`);
+    }
+  }
+
+  /**
+   * Check if a tag exists
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    const ref = await this.findRef(`refs/tags/${tagName}`);
+    return !!ref;
+  }
+
+  /**
+   * Get a tag by exact name
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    const ref = await this.findRef(`refs/tags/${tagName}`, true);
+    if (!ref) {
+      return undefined;
+    }
+    if (!ref.peeledObjectId) {
+      return { tagName, refSha: ref.objectId, commitSha: ref.objectId, type: 'lightweight' };
+    }
+
+    // The Annotated Tags API does not return the signature
+    const path = `${this.repositoryPath}/annotatedtags/${ref.objectId}?api-version=${ANNOTATED_TAGS_API_VERSION}`;
+    const tag = await this.client.get<{ message?: string; taggedBy?: { name: string; email: string; date: string } }>(path);
+    return {
+      tagName,
+      refSha: ref.objectId,
+      commitSha: ref.peeledObjectId,
+      type: 'annotated',
+      message: tag.message,
+      tagger: tag.taggedBy
+    };
+  }
+
+  /**
+   * List tags, following the x-ms-continuationtoken header
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+    const basePath = `${this.repositoryPath}/refs?filter=tags/&peelTags=true&$top=1000&api-version=${API_VERSION}`;
+    let path: string | undefined = basePath;
+
+    while (path && !collector.full) {
+      const response: HttpResponse<{ value: GitRef[] }> = await this.client.getWithResponse(path);
+      for (const ref of response.body.value || []) {
+        collector.add({ tagName: ref.name.replace(/^refs\/tags\//, ''), commitSha: ref.peeledObjectId || ref.objectId });
+      }
+      const continuationToken = response.headers.get('x-ms-continuationtoken');
+      path = continuationToken ? `${basePath}&continuationToken=${encodeURIComponent(continuationToken)}` : undefined;
+    }
+    return collector.tags;
+  }
+
+  /**
+   * Create a tag
+   */
+  async createTag(options: TagOptions): Promise<TagResult> {
+    const { tagName, sha, message } = options;
+
+    this.logger.info(`Creating Azure DevOps tag: ${tagName} at ${sha}`);
+
+    // Check if tag exists
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
+      this.logger.warning(`Tag ${tagName} already exists`);
+      return {
+        tagName,
+        sha,
+        ...describeExistingTag(existing),
+        exists: true,
+        created: false,
+        updated: false
+      };
+    }
+
+    if (existing && !message) {
+      // A lightweight tag is moved with a single ref update from the object it points to now, so it never disappears
+      await this.updateRef(`refs/tags/${tagName}`, existing.refSha, sha);
+      this.logger.info(`Tag updated successfully: ${tagName}`);
+      return {
+        tagName,
+        sha,
+        exists: true,
+        created: false,
+        updated: true,
+        ...(await describeCreatedTag(this, tagName, sha, false))
+      };
+    }
+
+    // The Annotated Tags API creates the tag object and its ref together and cannot overwrite a ref,
+    // so an annotated tag is deleted first; the journal restores it if recreation fails
+    const journal = new TagJournal(this, this.logger);
+    if (exists && options.force) {
+      await journal.delete(tagName);
+    }
+
+    await journal.recreate(async () => {
+      if (message) {
+        // Annotated tag via the Annotated Tags API (creates both the tag object and the ref)
+        const path = `${this.repositoryPath}/annotatedtags?api-version=${ANNOTATED_TAGS_API_VERSION}`;
+        await this.client.post(path, {
+          name: tagName,
+          taggedObject: { objectId: sha },
+          message
+        });
+      } else {
+        // Lightweight tag: create the ref directly
+        await this.updateRef(`refs/tags/${tagName}`, ZERO_SHA, sha);
+      }
+    });
+
+    this.logger.info(`Tag created successfully: ${tagName}`);
+
+    return {
+      tagName,
+      sha,
+      exists: false,
+      created: true,
+      updated: exists && options.force,
+      ...(await describeCreatedTag(this, tagName, sha, !!message))
+    };
+  }
+
+  /**
+   * Update a tag: lightweight tags are moved in place, annotated tags are deleted and recreated
+   * (restoring the previous tag if recreation fails)
+   */
+  async updateTag(options: TagOptions): Promise<TagResult> {
+    return this.createTag({ ...options, force: true });
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    this.logger.info(`Deleting Azure DevOps tag: ${tagName}`);
+    const refName = `refs/tags/${tagName}`;
+    const ref = await this.findRef(refName);
+    if (!ref) {
+      this.logger.debug(`Tag ${tagName} does not exist, skipping delete`);
+      return;
+    }
+    await this.updateRef(refName, ref.objectId, ZERO_SHA);
+  }
+
+  /**
+   * Get the HEAD SHA from the default branch
+   */
+  async getHeadSha(): Promise<string> {
+    // Get repository info to find default branch (e.g. refs/heads/main)
+    const repository = await this.client.get<{ defaultBranch?: string }>(
+      `${this.repositoryPath}?api-version=${API_VERSION}`
+    );
+    const defaultBranch = repository.defaultBranch || 'refs/heads/main';
+
+    const ref = await this.findRef(defaultBranch);
+    if (!ref) {
+      throw new Error(`No ref found for branch ${defaultBranch}`);
+    }
+    return ref.objectId;
+  }
+
+  /**
+   * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    return lookupCommit(sha, `${this.repoInfo.owner}/${this.repoInfo.repo}`, async () => {
+      const commit = await this.client.get<{ commitId: string }>(
+        `${this.repositoryPath}/commits/${encodeURIComponent(sha)}?api-version=${API_VERSION}`
+      );
+      return commit.commitId;
+    });
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => (await this.findRef(`refs/heads/${name}`))?.objectId,
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
+}
+
+function isAzureDevOpsHostname(hostname: string): boolean {
+  return hostname === 'dev.azure.com' || hostname.endsWith('.dev.azure.com') || hostname.endsWith('.visualstudio.com');
+}
+
+/**
+ * Azure DevOps creates annotated or lightweight tags but does not sign or set the tagger;
+ * the refs API moves a tag from its current object in one update
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: true,
+  releases: false,
+  skipPush: false
+};
+
+export function detectFromUrlByHostname(url: URL): RepoType | undefined {
+  const hostname = url.hostname.toLowerCase();
+  if (isAzureDevOpsHostname(hostname)) {
+    return 'azure-devops';
+  }
+  return undefined;
+}
+
+export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType | undefined> {
+  // Azure DevOps Server is usually on a custom host, but its repository URLs always contain /_git/
+  if (url.pathname.split('/').includes('_git')) {
+    logger.debug(`Azure DevOps detect: ${url.href} contains /_git/`);
+    return 'azure-devops';
+  }
+  return undefined;
+}
+
+export function determineBaseUrl(urls: string | string[]): string | undefined {
+  const urlArray = Array.isArray(urls) ? urls : [urls];
+
+  // Keep the path up to /_git, so on-premises collection URLs (https://host/tfs/DefaultCollection) keep
+  // their collection. An explicit base URL (first entry) overrides the repository URL.
+  for (const urlStr of urlArray) {
+    if (!urlStr) continue;
+    try {
+      const url = new URL(urlStr);
+      const origin = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+      const path = url.pathname.replace(/\/_git(\/.*)?$/, '').replace(/\/+$/, '');
+      return `${origin}${path}`;
+    } catch {
+      // Not a valid URL, skip
+    }
+  }
+
+  // Default Azure DevOps Services URL
+  return 'https://dev.azure.com';
+}
@@ -0,0 +1,298 @@
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
+import { Logger } from '../logger';
+import { describeExistingTag, describeCreatedTag } from '../tag-result';
+import { TagJournal } from '../tag-journal';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef } from '../commit-lookup';
+import { HttpClient } from './http-client';
+import { encodeRefPath } from '../ref-name';
+
+/**
+ * Bitbucket Server / Data Center API client
+ *
+ * Reads use the core REST API (/rest/api/1.0); tag creation and deletion use the
+ * git REST API (/rest/git/1.0). The repository owner is the project key (or ~user
+ * for personal repositories) and the base URL is the server root including any context path.
+ */
+export class BitbucketServerAPI implements PlatformAPI {
+  private client: HttpClient;
+  private repoInfo: RepositoryInfo;
+  private logger: Logger;
+
+  constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    if (!config.baseUrl) {
+      throw new Error('Bitbucket Server requires base_url or a repository URL to determine the server address');
+    }
+    this.client = new HttpClient(
+      {
+        baseUrl: config.baseUrl,
+        token: config.token,
+        authScheme: 'bearer', // HTTP access tokens and personal access tokens
+        ignoreCertErrors: config.ignoreCertErrors,
+        verbose: config.verbose
+      },
+      logger
+    );
+    this.repoInfo = repoInfo;
+    this.logger = logger;
+  }
+
+  private get repoPath(): string {
+    return `/projects/${encodeURIComponent(this.repoInfo.owner)}/repos/${encodeURIComponent(this.repoInfo.repo)}`;
+  }
+
+  /**
+   * Check if a tag exists
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    try {
+      const path = `/rest/api/1.0${this.repoPath}/tags/${encodeRefPath(tagName)}`;
+      await this.client.get(path);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a tag by exact name
+   * The REST API reports the tag object SHA (hash) but not the message or tagger.
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    let tag: { id: string; latestCommit: string; hash?: string | null };
+    try {
+      tag = await this.client.get(`/rest/api/1.0${this.repoPath}/tags/${encodeRefPath(tagName)}`);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    // hash is the tag object for annotated tags
+    if (!tag.hash || tag.hash === tag.latestCommit) {
+      return { tagName, refSha: tag.latestCommit, commitSha: tag.latestCommit, type: 'lightweight' };
+    }
+    return { tagName, refSha: tag.hash, commitSha: tag.latestCommit, type: 'annotated' };
+  }
+
+  /**
+   * List tags, following nextPageStart until the last page
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+    let start: number | undefined = 0;
+
+    while (start !== undefined && !collector.full) {
+      const page: {
+        values: Array<{ displayId: string; latestCommit: string }>;
+        isLastPage: boolean;
+        nextPageStart?: number;
+      } = await this.client.get(`/rest/api/1.0${this.repoPath}/tags?start=${start}&limit=100`);
+      for (const tag of page.values) {
+        collector.add({ tagName: tag.displayId, commitSha: tag.latestCommit });
+      }
+      start = page.isLastPage ? undefined : page.nextPageStart;
+    }
+    return collector.tags;
+  }
+
+  /**
+   * Create a tag
+   */
+  async createTag(options: TagOptions): Promise<TagResult> {
+    const { tagName, sha, message } = options;
+
+    this.logger.info(`Creating Bitbucket Server tag: ${tagName} at ${sha}`);
+
+    // Check if tag exists
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
+      this.logger.warning(`Tag ${tagName} already exists`);
+      return {
+        tagName,
+        sha,
+        ...describeExistingTag(existing),
+        exists: true,
+        created: false,
+        updated: false
+      };
+    }
+
+    // Delete existing tag if force is enabled; the journal restores it if recreation fails
+    const journal = new TagJournal(this, this.logger);
+    if (exists && options.force) {
+      await journal.delete(tagName);
+    }
+
+    // Bitbucket Server creates an annotated tag when a message is given, lightweight otherwise
+    const tagData: { name: string; startPoint: string; message?: string } = {
+      name: tagName,
+      startPoint: sha
+    };
+    if (message) {
+      tagData.message = message;
+    }
+
+    await journal.recreate(() => this.client.post(`/rest/git/1.0${this.repoPath}/tags`, tagData));
+
+    this.logger.info(`Tag created successfully: ${tagName}`);
+
+    return {
+      tagName,
+      sha,
+      exists: false,
+      created: true,
+      updated: exists && options.force,
+      ...(await describeCreatedTag(this, tagName, sha, !!message))
+    };
+  }
+
+  /**
+   * Update a tag (delete and recreate, restoring the previous tag if recreation fails)
+   */
+  async updateTag(options: TagOptions): Promise<TagResult> {
+    return this.createTag({ ...options, force: true });
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    this.logger.info(`Deleting Bitbucket Server tag: ${tagName}`);
+    const path = `/rest/git/1.0${this.repoPath}/tags/${encodeRefPath(tagName)}`;
+    try {
+      await this.client.delete(path);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        this.logger.debug(`Tag ${tagName} does not exist, skipping delete`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the HEAD SHA from the default branch
+   */
+  async getHeadSha(): Promise<string> {
+    const path = `/rest/api/1.0${this.repoPath}/branches/default`;
+    const branch = await this.client.get<{ id: string; latestCommit: string }>(path);
+    if (!branch || !branch.latestCommit) {
+      throw new Error('No default branch found');
+    }
+    return branch.latestCommit;
+  }
+
+  /**
+   * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    return lookupCommit(sha, `${this.repoInfo.owner}/${this.repoInfo.repo}`, async () => {
+      const commit = await this.client.get<{ id: string }>(
+        `/rest/api/1.0${this.repoPath}/commits/${encodeURIComponent(sha)}`
+      );
+      return commit.id;
+    });
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => {
+        // There is no single-branch endpoint; filter the branch list and match the ref exactly
+        const branches = await this.client.get<{ values: Array<{ id: string; latestCommit: string }> }>(
+          `/rest/api/1.0${this.repoPath}/branches?filterText=${encodeURIComponent(name)}&limit=100`
+        );
+        return branches.values.find((branch) => branch.id === `refs/heads/${name}`)?.latestCommit;
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
+}
+
+/**
+ * Bitbucket Server creates annotated or lightweight tags but does not sign or set the tagger
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: false,
+  releases: false,
+  skipPush: false
+};
+
+export function detectFromUrlByHostname(url: URL): RepoType | undefined {
+  const hostname = url.hostname.toLowerCase();
+  // bitbucket.org is Bitbucket Cloud; any other "bitbucket" host is self-hosted Server / Data Center
+  if (hostname.includes('bitbucket') && !hostname.endsWith('bitbucket.org')) {
+    return 'bitbucket-server';
+  }
+  return undefined;
+}
+
+async function headOk(url: string, logger: Logger): Promise<boolean> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 2000);
+  try {
+    const response = await fetch(url, { method: 'HEAD', signal: controller.signal });
+    clearTimeout(timeoutId);
+    if (response.ok || response.status === 401 || response.status === 403) {
+      logger.debug(`Bitbucket Server detect: ${url} status ${response.status}`);
+      return true;
+    }
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === 'AbortError') {
+      logger.debug(`Bitbucket Server detect timeout: ${url}`);
+    }
+  }
+  return false;
+}
+
+export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType | undefined> {
+  const base = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+  if (await headOk(`${base}/rest/api/1.0`, logger)) {
+    return 'bitbucket-server';
+  }
+  return undefined;
+}
+
+export function determineBaseUrl(urls: string | string[]): string | undefined {
+  const urlArray = Array.isArray(urls) ? urls : [urls];
+
+  for (const urlStr of urlArray) {
+    if (!urlStr) continue;
+    try {
+      const url = new URL(urlStr);
+      const origin = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+      // Keep any context path (e.g. https://host/bitbucket) in front of the REST, clone or browse paths
+      const match = url.pathname.match(/^(.*?)\/(rest|scm|projects|users)(\/|$)/);
+      return match ? `${origin}${match[1]}` : origin;
+    } catch {
+      // Not a valid URL, skip
+    }
+  }
+
+  // Bitbucket Server has no default host
+  return undefined;
+}
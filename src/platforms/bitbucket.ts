@@ -1,9 +1,25 @@
-import { PlatformAPI, TagOptions, TagResult, RepositoryInfo, PlatformConfig, RepoType } from '../types';
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
 import { Logger } from '../logger';
+import { describeExistingTag, describeCreatedTag } from '../tag-result';
+import { TagJournal } from '../tag-journal';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef, missingOn404 } from '../commit-lookup';
 import { HttpClient } from './http-client';
+import { encodeRefPath } from '../ref-name';
 
 /**
- * Bitbucket API client
+ * Bitbucket Cloud API client
  */
 export class BitbucketAPI implements PlatformAPI {
   private client: HttpClient;
@@ -11,9 +27,7 @@ export class BitbucketAPI implements PlatformAPI {
   private logger: Logger;
 
   constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
-    // Bitbucket uses different API versions for cloud vs server
-    // Cloud: https://api.bitbucket.org/2.0
-    // Server: https://<server>/rest/api/1.0
+    // Bitbucket Cloud API (Bitbucket Server / Data Center is handled by BitbucketServerAPI)
     const baseUrl = config.baseUrl || 'https://api.bitbucket.org/2.0';
     this.client = new HttpClient(
       {
@@ -33,7 +47,7 @@ export class BitbucketAPI implements PlatformAPI {
    */
   async tagExists(tagName: string): Promise<boolean> {
     try {
-      const path = `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/tags/${tagName}`;
+      const path = `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/tags/${encodeRefPath(tagName)}`;
       await this.client.get(path);
       return true;
     } catch (error) {
@@ -44,6 +58,51 @@ export class BitbucketAPI implements PlatformAPI {
     }
   }
 
+  /**
+   * Get a tag by exact name
+   * Bitbucket does not expose tag object SHAs, so refSha is the tagged commit for annotated tags too.
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    let tag: { name: string; target: { hash: string }; message?: string | null; date?: string | null; tagger?: { raw: string } | null };
+    try {
+      tag = await this.client.get(`/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/tags/${encodeRefPath(tagName)}`);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    // Lightweight tags come back without a tagger; raw is "Name <email>"
+    const tagger = tag.tagger?.raw.match(/^(.*?)\s*<([^>]*)>$/);
+    return {
+      tagName,
+      refSha: tag.target.hash,
+      commitSha: tag.target.hash,
+      type: tag.tagger ? 'annotated' : 'lightweight',
+      message: tag.message || undefined,
+      tagger: tagger ? { name: tagger[1], email: tagger[2], date: tag.date || undefined } : undefined
+    };
+  }
+
+  /**
+   * List tags, following the next link of each page
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+    let path: string | undefined = `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/tags?pagelen=100`;
+
+    while (path && !collector.full) {
+      const page: { values: Array<{ name: string; target: { hash: string } }>; next?: string } =
+        await this.client.get(path);
+      for (const tag of page.values) {
+        collector.add({ tagName: tag.name, commitSha: tag.target.hash });
+      }
+      path = page.next ? this.client.pathFromUrl(page.next) : undefined;
+    }
+    return collector.tags;
+  }
+
   /**
    * Create a tag
    */
@@ -53,47 +112,54 @@ export class BitbucketAPI implements PlatformAPI {
     this.logger.info(`Creating Bitbucket tag: ${tagName} at ${sha}`);
 
     // Check if tag exists
-    const exists = await this.tagExists(tagName);
-    if (exists && !options.force) {
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
       this.logger.warning(`Tag ${tagName} already exists`);
       return {
         tagName,
         sha,
+        ...describeExistingTag(existing),
         exists: true,
         created: false,
         updated: false
       };
     }
 
-    // Delete existing tag if force is enabled
+    // Delete existing tag if force is enabled; the journal restores it if recreation fails
+    const journal = new TagJournal(this, this.logger);
     if (exists && options.force) {
-      await this.deleteTag(tagName);
+      await journal.delete(tagName);
     }
 
-    // Create tag via Bitbucket API
+    // Bitbucket creates an annotated tag when a message is given, lightweight otherwise
     const path = `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/tags`;
-    const tagData = {
+    const tagData: { name: string; target: { hash: string }; message?: string } = {
       name: tagName,
       target: {
         hash: sha
-      },
-      message: message || `Tag ${tagName}`
+      }
     };
+    if (message) {
+      tagData.message = message;
+    }
 
-    try {
-      await this.client.post(path, tagData);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message.toLowerCase() : '';
-      // If the tag already exists and force is enabled, delete and retry
-      if ((msg.includes('409') || msg.includes('422') || msg.includes('already exists')) && options.force) {
-        this.logger.info(`Tag ${tagName} exists but force is enabled, deleting and recreating`);
-        await this.deleteTag(tagName);
-        // Retry creation
+    await journal.recreate(async () => {
+      try {
         await this.client.post(path, tagData);
-      } else {
-        throw error;
+      } catch (error) {
+        const msg = error instanceof Error ? error.message.toLowerCase() : '';
+        // If the tag already exists and force is enabled, delete and retry
+        if ((msg.includes('409') || msg.includes('422') || msg.includes('already exists')) && options.force) {
+          this.logger.info(`Tag ${tagName} exists but force is enabled, deleting and recreating`);
+          await journal.delete(tagName);
+          // Retry creation
+          await this.client.post(path, tagData);
+        } else {
+          throw error;
+        }
       }
-    }
+    });
 
     this.logger.info(`Tag created successfully: ${tagName}`);
 
@@ -102,16 +168,16 @@ export class BitbucketAPI implements PlatformAPI {
       sha,
       exists: false,
       created: true,
-      updated: exists && options.force
+      updated: exists && options.force,
+      ...(await describeCreatedTag(this, tagName, sha, !!message))
     };
   }
 
   /**
-   * Update a tag (delete and recreate)
+   * Update a tag (delete and recreate, restoring the previous tag if recreation fails)
    */
   async updateTag(options: TagOptions): Promise<TagResult> {
-    await this.deleteTag(options.tagName);
-    return this.createTag(options);
+    return this.createTag({ ...options, force: true });
   }
 
   /**
@@ -119,7 +185,7 @@ export class BitbucketAPI implements PlatformAPI {
    */
   async deleteTag(tagName: string): Promise<void> {
     this.logger.info(`Deleting Bitbucket tag: ${tagName}`);
-    const path = `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/tags/${tagName}`;
+    const path = `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/tags/${encodeRefPath(tagName)}`;
     try {
       await this.client.delete(path);
     } catch (error) {
@@ -141,15 +207,58 @@ export class BitbucketAPI implements PlatformAPI {
     const defaultBranch = repoInfo.mainbranch?.name || 'main';
 
     // Get the HEAD SHA from the default branch
-    const refPath = `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/branches/${defaultBranch}`;
+    const refPath = `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/branches/${encodeRefPath(defaultBranch)}`;
     const refInfo = await this.client.get<{ target: { hash: string } }>(refPath);
     return refInfo.target.hash;
   }
+
+  /**
+   * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    return lookupCommit(sha, `${this.repoInfo.owner}/${this.repoInfo.repo}`, async () => {
+      const commit = await this.client.get<{ hash: string }>(
+        `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/commit/${encodeURIComponent(sha)}`
+      );
+      return commit.hash;
+    });
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => {
+        const branch = await missingOn404(() =>
+          this.client.get<{ target: { hash: string } }>(
+            `/repositories/${this.repoInfo.owner}/${this.repoInfo.repo}/refs/branches/${encodeRefPath(name)}`
+          )
+        );
+        return branch?.target.hash;
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
 }
 
+/**
+ * Bitbucket Cloud creates annotated or lightweight tags but drops the tagger
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: false,
+  releases: false,
+  skipPush: false
+};
+
 export function detectFromUrlByHostname(url: URL): RepoType | undefined {
   const hostname = url.hostname.toLowerCase();
-  if (hostname.includes('bitbucket.org') || hostname.includes('bitbucket')) {
+  // Bitbucket Cloud only lives on bitbucket.org; other "bitbucket" hosts are Bitbucket Server
+  if (hostname.endsWith('bitbucket.org')) {
     return 'bitbucket';
   }
   return undefined;
@@ -176,7 +285,8 @@ async function headOk(url: string, logger: Logger): Promise<boolean> {
 
 export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType | undefined> {
   const base = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
-  const paths = ['/rest/api/1.0', '/2.0'];
+  // /rest/api/1.0 is Bitbucket Server, handled by its own provider
+  const paths = ['/2.0'];
   for (const path of paths) {
     if (await headOk(`${base}${path}`, logger)) {
       return 'bitbucket';
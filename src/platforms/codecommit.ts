@@ -0,0 +1,360 @@
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
+import { Logger } from '../logger';
+import { describeExistingTag } from '../tag-result';
+import { lookupRef } from '../commit-lookup';
+import { signRequest, getAwsCredentialsFromEnv } from './aws-sigv4';
+import {
+  isGitRepository,
+  tagExistsRemote,
+  getTagInfoRemote,
+  listTagsRemote,
+  createTag as createTagLocal,
+  pushTag,
+  deleteTagRemote,
+  deleteTagLocally,
+  resolveCommitLocal
+} from '../git';
+
+const REGION_PATTERN = /^[a-z]{2}(-[a-z]+)+-\d+$/;
+const CODECOMMIT_HOST_PATTERN = /^(git-)?codecommit(-fips)?\.([a-z0-9-]+)\.amazonaws\.com(\.cn)?$/;
+
+/**
+ * Git credential helper arguments for CodeCommit HTTPS remotes (uses the AWS CLI and the same AWS credentials)
+ */
+const HTTPS_CREDENTIAL_HELPER = [
+  '-c', 'credential.helper=',
+  '-c', 'credential.helper=!aws codecommit credential-helper $@',
+  '-c', 'credential.UseHttpPath=true'
+];
+
+/**
+ * Extract the AWS region from a CodeCommit HTTPS, API endpoint or GRC (codecommit::region://) URL
+ */
+export function regionFromUrl(urlStr: string): string | undefined {
+  const grcMatch = urlStr.match(/^codecommit::([a-z0-9-]+):\/\//);
+  if (grcMatch) {
+    return grcMatch[1];
+  }
+  try {
+    const hostMatch = new URL(urlStr).hostname.toLowerCase().match(CODECOMMIT_HOST_PATTERN);
+    return hostMatch ? hostMatch[3] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * AWS CodeCommit client
+ *
+ * CodeCommit has no tag API: branch heads are resolved through the SigV4-signed JSON API,
+ * and tags are created with the Git CLI and pushed over HTTPS (AWS CLI credential helper)
+ * or a codecommit:: remote (git-remote-codecommit). The repository owner holds the region.
+ */
+export class CodeCommitAPI implements PlatformAPI {
+  private endpoint: string;
+  private region: string;
+  private repoInfo: RepositoryInfo;
+  private config: PlatformConfig;
+  private logger: Logger;
+
+  constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    const region = REGION_PATTERN.test(repoInfo.owner)
+      ? repoInfo.owner
+      : process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION;
+    if (!region) {
+      throw new Error('CodeCommit requires an AWS region: use a regional repository URL or set AWS_REGION');
+    }
+    this.region = region;
+    this.endpoint = (config.baseUrl || `https://codecommit.${region}.amazonaws.com`).replace(/\/$/, '');
+    this.repoInfo = repoInfo;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Git remote to push to, plus any config it needs
+   */
+  private get remote(): { url: string; gitConfig: string[] } {
+    const url = this.repoInfo.url || `https://git-codecommit.${this.region}.amazonaws.com/v1/repos/${this.repoInfo.repo}`;
+    // git-remote-codecommit signs requests itself; HTTPS remotes need the credential helper
+    return { url, gitConfig: url.startsWith('codecommit:') ? [] : HTTPS_CREDENTIAL_HELPER };
+  }
+
+  /**
+   * Call a CodeCommit JSON API action with a SigV4-signed request
+   */
+  private async callApi<T>(action: string, payload: Record<string, unknown>): Promise<T> {
+    const credentials = getAwsCredentialsFromEnv();
+    if (!credentials) {
+      throw new Error('CodeCommit requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY to be set');
+    }
+
+    const url = `${this.endpoint}/`;
+    const body = JSON.stringify(payload);
+    const headers = signRequest({
+      method: 'POST',
+      url,
+      headers: {
+        'Content-Type': 'application/x-amz-json-1.1',
+        'X-Amz-Target': `CodeCommit_20150413.${action}`
+      },
+      body,
+      region: this.region,
+      service: 'codecommit',
+      credentials
+    });
+
+    this.logger.debug(`HTTP POST ${url} (${action})`);
+    const response = await fetch(url, { method: 'POST', headers, body });
+    const responseText = await response.text();
+
+    let responseBody: unknown;
+    try {
+      responseBody = JSON.parse(responseText);
+    } catch {
+      responseBody = responseText;
+    }
+
+    this.logger.debug(`HTTP Response: ${response.status} ${response.statusText}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}: ${JSON.stringify(responseBody)}`);
+    }
+    return responseBody as T;
+  }
+
+  /**
+   * Tag writes need a local clone to push from
+   */
+  private async requireLocalRepository(): Promise<void> {
+    if (!(await isGitRepository(this.logger))) {
+      throw new Error(
+        'CodeCommit has no API for creating or deleting tags; run the action in a checkout of the repository so the tag can be pushed with Git'
+      );
+    }
+  }
+
+  /**
+   * Make sure the commit is in the CodeCommit repository before tagging it, so a tag is never pushed for a
+   * commit that only exists in the local clone (or in another repository)
+   */
+  private async requireCommit(sha: string): Promise<void> {
+    try {
+      await this.callApi<{ commit: { commitId: string } }>('GetCommit', {
+        repositoryName: this.repoInfo.repo,
+        commitId: sha
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('CommitIdDoesNotExistException')) {
+        throw new Error(`Commit ${sha} does not exist in CodeCommit repository ${this.repoInfo.repo}; push it before tagging`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a tag exists on the CodeCommit remote
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    const { url, gitConfig } = this.remote;
+    return tagExistsRemote(tagName, url, this.logger, gitConfig);
+  }
+
+  /**
+   * Get a tag on the CodeCommit remote by exact name
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    const { url, gitConfig } = this.remote;
+    return getTagInfoRemote(tagName, url, this.logger, gitConfig);
+  }
+
+  /**
+   * List the tags on the CodeCommit remote
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const { url, gitConfig } = this.remote;
+    return listTagsRemote(options, url, this.logger, gitConfig);
+  }
+
+  /**
+   * Create a tag locally and push it to CodeCommit
+   */
+  async createTag(options: TagOptions): Promise<TagResult> {
+    const { tagName, sha } = options;
+
+    this.logger.info(`Creating CodeCommit tag: ${tagName} at ${sha}`);
+    await this.requireLocalRepository();
+
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
+      this.logger.warning(`Tag ${tagName} already exists`);
+      return {
+        tagName,
+        sha,
+        ...describeExistingTag(existing),
+        exists: true,
+        created: false,
+        updated: false
+      };
+    }
+
+    await this.requireCommit(sha);
+    const result = await createTagLocal(options, this.logger);
+
+    if (this.config.pushTag === false) {
+      this.logger.debug('push_tag is false, skipping tag push');
+    } else {
+      const { url, gitConfig } = this.remote;
+      await pushTag(tagName, url, undefined, options.force, this.logger, gitConfig);
+      this.logger.info(`Tag created successfully: ${tagName}`);
+    }
+
+    return {
+      ...result,
+      exists,
+      created: true,
+      updated: exists && options.force
+    };
+  }
+
+  /**
+   * Update a tag (force-push the recreated tag)
+   */
+  async updateTag(options: TagOptions): Promise<TagResult> {
+    return this.createTag({ ...options, force: true });
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    this.logger.info(`Deleting CodeCommit tag: ${tagName}`);
+    await this.requireLocalRepository();
+
+    if (await this.tagExists(tagName)) {
+      const { url, gitConfig } = this.remote;
+      await deleteTagRemote(tagName, url, undefined, this.logger, gitConfig);
+    } else {
+      this.logger.debug(`Tag ${tagName} does not exist, skipping remote delete`);
+    }
+    await deleteTagLocally(tagName, this.logger);
+  }
+
+  /**
+   * Get the HEAD SHA from the default branch
+   */
+  async getHeadSha(): Promise<string> {
+    const repository = await this.callApi<{ repositoryMetadata: { defaultBranch?: string } }>('GetRepository', {
+      repositoryName: this.repoInfo.repo
+    });
+    const defaultBranch = repository.repositoryMetadata?.defaultBranch || 'main';
+
+    const branch = await this.callApi<{ branch: { branchName: string; commitId: string } }>('GetBranch', {
+      repositoryName: this.repoInfo.repo,
+      branchName: defaultBranch
+    });
+    if (!branch.branch || !branch.branch.commitId) {
+      throw new Error(`No commit found for branch ${defaultBranch}`);
+    }
+    return branch.branch.commitId;
+  }
+
+  /**
+   * Expand a (possibly abbreviated) SHA in the local clone the tag is created in
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    await this.requireLocalRepository();
+    return resolveCommitLocal(sha, this.logger);
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, this.repoInfo.repo, {
+      branch: async (name) => {
+        try {
+          const branch = await this.callApi<{ branch: { commitId: string } }>('GetBranch', {
+            repositoryName: this.repoInfo.repo,
+            branchName: name
+          });
+          return branch.branch?.commitId;
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('BranchDoesNotExistException')) {
+            return undefined;
+          }
+          throw error;
+        }
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
+}
+
+/**
+ * Tags are created with the Git CLI, so everything Git supports is honoured; CodeCommit has no releases
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: true,
+  tagger: true,
+  atomicUpdate: true,
+  releases: false,
+  skipPush: true
+};
+
+export function detectFromUrlByHostname(url: URL): RepoType | undefined {
+  if (url.protocol === 'codecommit:' || CODECOMMIT_HOST_PATTERN.test(url.hostname.toLowerCase())) {
+    return 'codecommit';
+  }
+  return undefined;
+}
+
+export async function detectFromUrl(_url: URL, _logger: Logger): Promise<RepoType | undefined> {
+  // CodeCommit only lives on amazonaws.com hosts, so hostname detection is sufficient
+  return undefined;
+}
+
+export function determineBaseUrl(urls: string | string[]): string | undefined {
+  const urlArray = Array.isArray(urls) ? urls : [urls];
+
+  // An explicit endpoint without a repository path (e.g. a local stand-in) is used as-is
+  if (urlArray.length > 0 && urlArray[0] && !regionFromUrl(urlArray[0])) {
+    try {
+      const url = new URL(urlArray[0]);
+      if ((url.protocol === 'http:' || url.protocol === 'https:') && (url.pathname === '/' || url.pathname === '')) {
+        return urlArray[0].replace(/\/$/, '');
+      }
+    } catch {
+      // Not a valid URL, continue
+    }
+  }
+
+  // Derive the regional API endpoint from repository URLs
+  for (const urlStr of urlArray) {
+    if (!urlStr) continue;
+    const region = regionFromUrl(urlStr);
+    if (region) {
+      return `https://codecommit.${region}.amazonaws.com`;
+    }
+  }
+
+  const region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION;
+  if (region) {
+    return `https://codecommit.${region}.amazonaws.com`;
+  }
+
+  return undefined;
+}
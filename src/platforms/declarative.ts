@@ -0,0 +1,547 @@
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  HttpClientOptions,
+  PlatformCapabilities
+} from '../types';
+import { Logger } from '../logger';
+import { TagJournal } from '../tag-journal';
+import { DEFAULT_PLUGIN_CAPABILITIES } from '../capabilities';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef, missingOn404 } from '../commit-lookup';
+import { describeExistingTag } from '../tag-result';
+import { HttpClient } from './http-client';
+import type { PlatformProvider } from './platform-factory';
+
+/**
+ * One HTTP call in a platform descriptor
+ *
+ * path and string values in body may use the placeholders {owner}, {repo}, {tag}, {sha},
+ * {message}, {branch} and (listTags only) {page}. A body value that is exactly "{message}" is left out when the
+ * tag has no message. response is a JSON path (e.g. "commit.id" or "data[0].sha") into the
+ * response body.
+ */
+export interface DeclarativeOperation {
+  method?: string;
+  path: string;
+  body?: unknown;
+  response?: string;
+  /** tagExists only: when response selects an array, the item field holding the tag name */
+  nameField?: string;
+}
+
+/**
+ * A platform described by a YAML/JSON file instead of code (platform_plugin input)
+ */
+export interface PlatformDescriptor {
+  type: string;
+  /** Default API base URL, used when none can be derived from the repository URL */
+  baseUrl?: string;
+  /** API path appended to the repository host when deriving the base URL (e.g. /api/v1) */
+  apiPath?: string;
+  detect?: {
+    /** Hostnames (or parent domains) served by this platform */
+    hostnames?: string[];
+    /** Path probed on the repository host; any 2xx response identifies the platform */
+    probe?: string;
+  };
+  /** Token placement: a header with a {token} format, or a query parameter. Defaults to "Authorization: token {token}" */
+  auth?: {
+    header?: string;
+    format?: string;
+    query?: string;
+  };
+  /** Overrides for the default capabilities (annotated and lightweight tags only) */
+  capabilities?: Partial<PlatformCapabilities>;
+  operations: {
+    tagExists: DeclarativeOperation;
+    /** Optional: read a tag; each field is a JSON path into the selected response */
+    getTag?: DeclarativeOperation & {
+      fields: Partial<Record<'refSha' | 'message' | 'taggerName' | 'taggerEmail' | 'taggerDate' | 'signature', string>> & {
+        commitSha: string;
+      };
+    };
+    /** Optional: one page of tags; response selects the array, and a {page} placeholder (from 1) pages until an empty page */
+    listTags?: DeclarativeOperation & {
+      fields: { name: string; commitSha: string };
+    };
+    createTag: DeclarativeOperation;
+    deleteTag: DeclarativeOperation;
+    getHeadSha: DeclarativeOperation & {
+      /** Branch to read, or a call that returns the default branch name */
+      defaultBranch?: string | DeclarativeOperation;
+    };
+    /** Optional: look up {sha}; response selects the full commit SHA. Without it tag_sha is used as given */
+    resolveCommit?: DeclarativeOperation;
+  };
+}
+
+type Placeholders = Partial<Record<'owner' | 'repo' | 'tag' | 'sha' | 'message' | 'branch' | 'page', string>>;
+
+const OPERATION_NAMES = ['tagExists', 'createTag', 'deleteTag', 'getHeadSha'] as const;
+
+/**
+ * Read a value from a JSON path such as "commit.id" or "values[0].name"
+ */
+export function selectJsonPath(value: unknown, jsonPath: string): unknown {
+  const segments = jsonPath.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  let current = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function fillPath(template: string, values: Placeholders): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: keyof Placeholders) => {
+    const value = values[name];
+    return value === undefined ? match : encodeURIComponent(value);
+  });
+}
+
+function fillBody(template: unknown, values: Placeholders): unknown {
+  if (typeof template === 'string') {
+    return template.replace(/\{(\w+)\}/g, (match, name: keyof Placeholders) => values[name] ?? match);
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => fillBody(item, values));
+  }
+  if (template && typeof template === 'object') {
+    const filled: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(template)) {
+      if (item === '{message}' && !values.message) {
+        continue;
+      }
+      filled[key] = fillBody(item, values);
+    }
+    return filled;
+  }
+  return template;
+}
+
+/**
+ * Platform API driven by a descriptor: each PlatformAPI method is one (or two) HTTP calls
+ */
+export class DeclarativeAPI implements PlatformAPI {
+  private client: HttpClient;
+  private descriptor: PlatformDescriptor;
+  private repoInfo: RepositoryInfo;
+  private logger: Logger;
+
+  constructor(descriptor: PlatformDescriptor, repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    const baseUrl = config.baseUrl || descriptor.baseUrl;
+    if (!baseUrl) {
+      throw new Error(`${descriptor.type} requires base_url or a repository URL to determine the server address`);
+    }
+
+    const auth = descriptor.auth || {};
+    const authOptions: Pick<HttpClientOptions, 'authScheme' | 'authHeaderName' | 'authHeaderFormat' | 'authQueryParam'> =
+      auth.query
+        ? { authScheme: 'query', authQueryParam: auth.query }
+        : auth.header || auth.format
+          ? { authScheme: 'header', authHeaderName: auth.header, authHeaderFormat: auth.format }
+          : { authScheme: 'token' };
+
+    this.client = new HttpClient(
+      {
+        baseUrl,
+        token: config.token,
+        ...authOptions,
+        ignoreCertErrors: config.ignoreCertErrors,
+        verbose: config.verbose
+      },
+      logger
+    );
+    this.descriptor = descriptor;
+    this.repoInfo = repoInfo;
+    this.logger = logger;
+  }
+
+  /**
+   * Run a descriptor operation and return the selected part of the response
+   */
+  private async call(operation: DeclarativeOperation, values: Placeholders): Promise<unknown> {
+    const all = { owner: this.repoInfo.owner, repo: this.repoInfo.repo, ...values };
+    const body = operation.body === undefined ? undefined : fillBody(operation.body, all);
+    const response = await this.client.request<unknown>(
+      (operation.method || 'GET').toUpperCase(),
+      fillPath(operation.path, all),
+      body
+    );
+    return operation.response ? selectJsonPath(response, operation.response) : response;
+  }
+
+  /**
+   * Check if a tag exists
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    const operation = this.descriptor.operations.tagExists;
+    let selected: unknown;
+    try {
+      selected = await this.call(operation, { tag: tagName });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return false;
+      }
+      throw error;
+    }
+
+    if (!operation.response) {
+      return true;
+    }
+    // A list endpoint: look the tag up by name
+    if (Array.isArray(selected)) {
+      return selected.some((item) =>
+        operation.nameField ? selectJsonPath(item, operation.nameField) === tagName : item === tagName
+      );
+    }
+    return selected !== undefined && selected !== null && selected !== '' && selected !== false;
+  }
+
+  /**
+   * Get a tag by name; the tag is annotated when its ref SHA differs from the commit SHA
+   * Without a getTag operation the details are unknown and undefined is returned, as for a missing tag.
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    const operation = this.descriptor.operations.getTag;
+    if (!operation) {
+      this.logger.debug(`Platform descriptor ${this.descriptor.type} does not define operations.getTag; tag details are unavailable`);
+      return undefined;
+    }
+
+    let selected: unknown;
+    try {
+      selected = await this.call(operation, { tag: tagName });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return undefined;
+      }
+      throw error;
+    }
+    if (selected === undefined || selected === null) {
+      return undefined;
+    }
+
+    const field = (name: keyof typeof operation.fields): string | undefined => {
+      const path = operation.fields[name];
+      const value = path ? selectJsonPath(selected, path) : undefined;
+      return typeof value === 'string' && value ? value : undefined;
+    };
+    const commitSha = field('commitSha');
+    if (!commitSha) {
+      throw new Error(`No commit SHA found for tag ${tagName}`);
+    }
+    const refSha = field('refSha') || commitSha;
+    const taggerName = field('taggerName');
+    const taggerEmail = field('taggerEmail');
+
+    return {
+      tagName,
+      refSha,
+      commitSha,
+      type: refSha !== commitSha ? 'annotated' : 'lightweight',
+      message: field('message'),
+      tagger: taggerName || taggerEmail
+        ? { name: taggerName || '', email: taggerEmail || '', date: field('taggerDate') }
+        : undefined,
+      signature: field('signature')
+    };
+  }
+
+  /**
+   * List tags, requesting pages while the path has a {page} placeholder and pages are not empty
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const operation = this.descriptor.operations.listTags;
+    if (!operation) {
+      throw new Error(`Platform descriptor ${this.descriptor.type} does not define operations.listTags`);
+    }
+
+    const collector = new TagCollector(options);
+    const paged = operation.path.includes('{page}');
+    for (let page = 1; !collector.full; page++) {
+      const selected = await this.call(operation, { page: String(page) });
+      const items = Array.isArray(selected) ? selected : [];
+      for (const item of items) {
+        const tagName = selectJsonPath(item, operation.fields.name);
+        const commitSha = selectJsonPath(item, operation.fields.commitSha);
+        if (typeof tagName === 'string' && typeof commitSha === 'string') {
+          collector.add({ tagName, commitSha });
+        }
+      }
+      if (!paged || items.length === 0) {
+        break;
+      }
+    }
+    return collector.tags;
+  }
+
+  /**
+   * Create a tag
+   */
+  async createTag(options: TagOptions): Promise<TagResult> {
+    const { tagName, sha, message } = options;
+
+    this.logger.info(`Creating ${this.descriptor.type} tag: ${tagName} at ${sha}`);
+
+    // Check if tag exists
+    const exists = await this.tagExists(tagName);
+    if (exists && !options.force) {
+      this.logger.warning(`Tag ${tagName} already exists`);
+      return {
+        tagName,
+        sha,
+        ...(await this.describeTag(tagName, sha, !!message)),
+        exists: true,
+        created: false,
+        updated: false
+      };
+    }
+
+    // Delete existing tag if force is enabled; the journal restores it if recreation fails
+    const journal = new TagJournal(this, this.logger);
+    if (exists && options.force) {
+      await journal.delete(tagName);
+    }
+
+    await journal.recreate(() => this.call(this.descriptor.operations.createTag, { tag: tagName, sha, message }));
+
+    this.logger.info(`Tag created successfully: ${tagName}`);
+
+    return {
+      tagName,
+      sha,
+      exists: false,
+      created: true,
+      updated: exists && options.force,
+      ...(await this.describeTag(tagName, sha, !!message))
+    };
+  }
+
+  /**
+   * Read the tag back through getTag when the descriptor defines it; otherwise assume it points at sha
+   */
+  private async describeTag(
+    tagName: string,
+    sha: string,
+    annotated: boolean
+  ): Promise<Pick<TagResult, 'objectSha' | 'commitSha' | 'type'>> {
+    const tag = await this.getTag(tagName);
+    return tag ? describeExistingTag(tag) : { objectSha: sha, commitSha: sha, type: annotated ? 'annotated' : 'lightweight' };
+  }
+
+  /**
+   * Update a tag (delete and recreate, restoring the previous tag if recreation fails)
+   */
+  async updateTag(options: TagOptions): Promise<TagResult> {
+    return this.createTag({ ...options, force: true });
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    this.logger.info(`Deleting ${this.descriptor.type} tag: ${tagName}`);
+    try {
+      await this.call(this.descriptor.operations.deleteTag, { tag: tagName });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        this.logger.debug(`Tag ${tagName} does not exist, skipping delete`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the HEAD SHA, reading the default branch first when the descriptor asks for it
+   */
+  async getHeadSha(): Promise<string> {
+    const operation = this.descriptor.operations.getHeadSha;
+
+    let branch: string | undefined;
+    if (typeof operation.defaultBranch === 'string') {
+      branch = operation.defaultBranch;
+    } else if (operation.defaultBranch) {
+      const selected = await this.call(operation.defaultBranch, {});
+      branch = typeof selected === 'string' && selected ? selected : undefined;
+    }
+
+    const sha = await this.call(operation, { branch });
+    if (typeof sha !== 'string' || !sha) {
+      throw new Error(`No commit found${branch ? ` for branch ${branch}` : ''}`);
+    }
+    return sha;
+  }
+
+  /**
+   * Expand a (possibly abbreviated) SHA through the descriptor's resolveCommit call, when it has one
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    const operation = this.descriptor.operations.resolveCommit;
+    if (!operation) {
+      this.logger.warning(
+        `${this.descriptor.type} descriptor has no resolveCommit operation; ${sha} is used as given without checking that it names a commit`
+      );
+      return sha;
+    }
+    return lookupCommit(sha, `${this.repoInfo.owner}/${this.repoInfo.repo}`, async () => {
+      const selected = await this.call(operation, { sha });
+      return typeof selected === 'string' ? selected : undefined;
+    });
+  }
+
+  /**
+   * Resolve a branch through the getHeadSha call and a tag through getTag, when the descriptor defines it
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => {
+        const sha = await missingOn404(() => this.call(this.descriptor.operations.getHeadSha, { branch: name }));
+        return typeof sha === 'string' && sha ? sha : undefined;
+      },
+      tag: async (name) => (this.descriptor.operations.getTag ? (await this.getTag(name))?.commitSha : undefined)
+    });
+  }
+}
+
+function validateOperation(value: unknown, name: string, source: string): void {
+  const operation = value as Record<string, unknown> | undefined;
+  if (!operation || typeof operation !== 'object' || typeof operation.path !== 'string') {
+    throw new Error(`Invalid platform descriptor ${source}: operations.${name}.path must be a string`);
+  }
+  if (operation.method !== undefined && typeof operation.method !== 'string') {
+    throw new Error(`Invalid platform descriptor ${source}: operations.${name}.method must be a string`);
+  }
+  if (operation.response !== undefined && typeof operation.response !== 'string') {
+    throw new Error(`Invalid platform descriptor ${source}: operations.${name}.response must be a string`);
+  }
+}
+
+/**
+ * Build a platform provider from a parsed descriptor
+ */
+export function createDeclarativeProvider(candidate: unknown, source: string): PlatformProvider {
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error(`Invalid platform descriptor ${source}: expected a mapping`);
+  }
+  const descriptor = candidate as PlatformDescriptor;
+  if (typeof descriptor.type !== 'string' || descriptor.type.trim() === '') {
+    throw new Error(`Invalid platform descriptor ${source}: 'type' must be a non-empty string`);
+  }
+  if (!descriptor.operations || typeof descriptor.operations !== 'object') {
+    throw new Error(`Invalid platform descriptor ${source}: 'operations' is required`);
+  }
+  for (const name of OPERATION_NAMES) {
+    validateOperation(descriptor.operations[name], name, source);
+  }
+  const getTag = descriptor.operations.getTag;
+  if (getTag !== undefined) {
+    validateOperation(getTag, 'getTag', source);
+    if (!getTag.fields || typeof getTag.fields.commitSha !== 'string') {
+      throw new Error(`Invalid platform descriptor ${source}: operations.getTag.fields.commitSha must be a string`);
+    }
+  }
+  const listTags = descriptor.operations.listTags;
+  if (listTags !== undefined) {
+    validateOperation(listTags, 'listTags', source);
+    if (!listTags.fields || typeof listTags.fields.name !== 'string' || typeof listTags.fields.commitSha !== 'string') {
+      throw new Error(`Invalid platform descriptor ${source}: operations.listTags.fields.name and commitSha must be strings`);
+    }
+  }
+  if (descriptor.operations.resolveCommit !== undefined) {
+    validateOperation(descriptor.operations.resolveCommit, 'resolveCommit', source);
+  }
+  const defaultBranch = descriptor.operations.getHeadSha.defaultBranch;
+  if (defaultBranch !== undefined && typeof defaultBranch !== 'string') {
+    validateOperation(defaultBranch, 'getHeadSha.defaultBranch', source);
+  }
+
+  const type = descriptor.type as RepoType;
+  const hostnames = (descriptor.detect?.hostnames || []).map((hostname) => hostname.toLowerCase());
+  const apiPath = descriptor.apiPath ? `/${descriptor.apiPath.replace(/^\/+|\/+$/g, '')}` : '';
+
+  return {
+    type,
+    capabilities: { ...DEFAULT_PLUGIN_CAPABILITIES, ...descriptor.capabilities },
+    detectFromUrlByHostname: (url) => {
+      const hostname = url.hostname.toLowerCase();
+      return hostnames.some((h) => hostname === h || hostname.endsWith(`.${h}`)) ? type : undefined;
+    },
+    detectFromUrl: async (url, logger) => {
+      const probe = descriptor.detect?.probe;
+      if (!probe) {
+        return undefined;
+      }
+      const base = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 2000);
+      try {
+        const response = await fetch(`${base}${probe}`, { method: 'GET', signal: controller.signal });
+        clearTimeout(timeoutId);
+        logger.debug(`${type} detect: ${base}${probe} status ${response.status}`);
+        return response.ok ? type : undefined;
+      } catch (error) {
+        clearTimeout(timeoutId);
+        if (error instanceof Error && error.name === 'AbortError') {
+          logger.debug(`${type} detect timeout: ${base}`);
+        }
+        return undefined;
+      }
+    },
+    determineBaseUrl: (urls) => {
+      const urlArray = Array.isArray(urls) ? urls : [urls];
+
+      // Check if first URL is an explicit API URL
+      if (urlArray.length > 0 && urlArray[0] && apiPath) {
+        try {
+          if (new URL(urlArray[0]).pathname.startsWith(apiPath)) {
+            return urlArray[0];
+          }
+        } catch {
+          // Not a valid URL, continue
+        }
+      }
+
+      // Derive the API URL from the repository host
+      if (apiPath) {
+        for (const urlStr of urlArray) {
+          if (!urlStr) continue;
+          try {
+            const url = new URL(urlStr);
+            return `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}${apiPath}`;
+          } catch {
+            // Not a valid URL, skip
+          }
+        }
+      }
+
+      if (descriptor.baseUrl) {
+        return descriptor.baseUrl;
+      }
+
+      // No API path or default: the API is served from the repository host root
+      for (const urlStr of urlArray) {
+        if (!urlStr) continue;
+        try {
+          const url = new URL(urlStr);
+          return `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+        } catch {
+          // Not a valid URL, skip
+        }
+      }
+      return undefined;
+    },
+    createAPI: (repoInfo, config, logger) => new DeclarativeAPI(descriptor, repoInfo, config, logger)
+  };
+}
@@ -0,0 +1,95 @@
+import { RepositoryInfo, PlatformConfig, RepoType, PlatformCapabilities } from '../types';
+import { Logger } from '../logger';
+import { GiteaAPI, fetchServerVersion } from './gitea';
+
+/**
+ * Forgejo API client (Codeberg and self-hosted Forgejo)
+ *
+ * Forgejo is a Gitea fork and still serves a compatible /api/v1, so this builds on GiteaAPI.
+ * It is a platform of its own for Codeberg as the default server, FORGEJO_TOKEN / FORGEJO_SERVER_URL
+ * from Forgejo Actions and Forgejo naming in logs and errors.
+ */
+export class ForgejoAPI extends GiteaAPI {
+  protected readonly platformName: string = 'Forgejo';
+
+  constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    super(repoInfo, { ...config, baseUrl: config.baseUrl || 'https://codeberg.org/api/v1' }, logger);
+  }
+}
+
+/**
+ * Only a "forgejo" marker identifies Forgejo (e.g. "1.20.0-0-forgejo"); a "+gitea-" suffix alone is not enough
+ */
+export function isForgejoVersion(version: string): boolean {
+  return version.toLowerCase().includes('forgejo');
+}
+
+/**
+ * Same as Gitea: the tag API is shared
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: false,
+  releases: true,
+  skipPush: false
+};
+
+export function detectFromUrlByHostname(url: URL): RepoType | undefined {
+  const hostname = url.hostname.toLowerCase();
+  if (hostname === 'codeberg.org' || hostname.endsWith('.codeberg.org') || hostname.includes('forgejo')) {
+    return 'forgejo';
+  }
+  return undefined;
+}
+
+export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType | undefined> {
+  const base = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+  // /api/forgejo/v1/version is only served by Forgejo; older releases mark /api/v1/version instead
+  if (await fetchServerVersion(base, logger, '/api/forgejo/v1/version')) {
+    return 'forgejo';
+  }
+  const version = await fetchServerVersion(base, logger);
+  if (version && isForgejoVersion(version)) {
+    return 'forgejo';
+  }
+  return undefined;
+}
+
+export function determineBaseUrl(urls: string | string[]): string | undefined {
+  const urlArray = Array.isArray(urls) ? urls : [urls];
+
+  // Check if first URL is an explicit API URL (contains /api)
+  if (urlArray.length > 0 && urlArray[0]) {
+    try {
+      const url = new URL(urlArray[0]);
+      if (url.pathname.includes('/api')) {
+        return urlArray[0];
+      }
+    } catch {
+      // Not a valid URL, continue
+    }
+  }
+
+  // Check repository/origin URLs to derive API URL
+  for (const urlStr of urlArray) {
+    if (!urlStr) continue;
+    try {
+      const url = new URL(urlStr);
+      return `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}/api/v1`;
+    } catch {
+      // Not a valid URL, skip
+    }
+  }
+
+  // Check Forgejo Actions environment variables (GITHUB_SERVER_URL is set for compatibility)
+  const serverUrl = process.env.FORGEJO_SERVER_URL || process.env.GITHUB_SERVER_URL;
+  if (serverUrl) {
+    return `${serverUrl.replace(/\/$/, '')}/api/v1`;
+  }
+
+  // Default to Codeberg
+  return 'https://codeberg.org/api/v1';
+}
@@ -1,12 +1,26 @@
-import { PlatformAPI, TagOptions, TagResult, RepositoryInfo, PlatformConfig, RepoType } from '../types';
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
 import { Logger } from '../logger';
 import {
   tagExistsLocally,
+  getTagInfoLocal,
+  listTagsLocal,
   createTag as createTagLocal,
   pushTag,
   deleteTagRemote,
   deleteTagLocally,
-  getHeadSha
+  getHeadSha,
+  resolveCommitLocal
 } from '../git';
 
 /**
@@ -31,6 +45,20 @@ export class GenericGitAPI implements PlatformAPI {
     return tagExistsLocally(tagName, this.logger);
   }
 
+  /**
+   * Get a local tag by exact name
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    return getTagInfoLocal(tagName, this.logger);
+  }
+
+  /**
+   * List local tags
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    return listTagsLocal(options, this.logger);
+  }
+
   /**
    * Create a tag
    */
@@ -76,27 +104,11 @@ export class GenericGitAPI implements PlatformAPI {
   }
 
   /**
-   * Update a tag (delete and recreate)
+   * Update a tag: recreate it locally and force-push, which replaces the remote ref in one step
    */
   async updateTag(options: TagOptions): Promise<TagResult> {
     this.logger.info(`Updating tag using Git CLI: ${options.tagName}`);
-
-    // Delete from remote first if exists
-    if (this.repoInfo.url) {
-      try {
-        await deleteTagRemote(
-          options.tagName,
-          'origin',
-          this.config.token,
-          this.logger
-        );
-      } catch (error) {
-        this.logger.debug(`Tag may not exist remotely: ${error}`);
-      }
-    }
-
-    // Create new tag (which will overwrite local if force is enabled)
-    return this.createTag(options);
+    return this.createTag({ ...options, force: true });
   }
 
   /**
@@ -124,8 +136,35 @@ export class GenericGitAPI implements PlatformAPI {
   async getHeadSha(): Promise<string> {
     return getHeadSha(this.logger);
   }
+
+  /**
+   * Expand a (possibly abbreviated) SHA with git rev-parse
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    return resolveCommitLocal(sha, this.logger);
+  }
+
+  /**
+   * Resolve a branch, tag or ref with git rev-parse
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return resolveCommitLocal(ref, this.logger);
+  }
 }
 
+/**
+ * Git CLI: updates force-push the new tag, so the remote ref is replaced in place
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: true,
+  tagger: true,
+  atomicUpdate: true,
+  releases: false,
+  skipPush: true
+};
+
 export function detectFromUrlByHostname(_url: URL): RepoType | undefined {
   // Generic detection does not detect from hostname
   return undefined;
@@ -0,0 +1,358 @@
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
+import { Logger } from '../logger';
+import { describeExistingTag, describeCreatedTag } from '../tag-result';
+import { TagJournal } from '../tag-journal';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef, missingOn404 } from '../commit-lookup';
+import { HttpClient } from './http-client';
+
+/** Tags requested per page */
+const PAGE_SIZE = 100;
+
+/**
+ * Gerrit Code Review API client
+ *
+ * Authenticates with an HTTP password: pass the token as "username:http-password".
+ * Authenticated requests go through the /a/ prefix, as Gerrit requires.
+ */
+export class GerritAPI implements PlatformAPI {
+  private client: HttpClient;
+  private repoInfo: RepositoryInfo;
+  private logger: Logger;
+  private contextPath: string;
+
+  constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    const serverUrl = (config.baseUrl || '').replace(/\/+$/, '');
+    if (!serverUrl) {
+      throw new Error('Gerrit requires base_url or a repository URL to determine the server address');
+    }
+    this.client = new HttpClient(
+      {
+        baseUrl: config.token ? `${serverUrl}/a` : serverUrl,
+        token: config.token,
+        authScheme: 'basic',
+        ignoreCertErrors: config.ignoreCertErrors,
+        verbose: config.verbose
+      },
+      logger
+    );
+    this.repoInfo = repoInfo;
+    this.logger = logger;
+    this.contextPath = new URL(serverUrl).pathname.replace(/\/+$/, '');
+  }
+
+  /**
+   * Project API path. Gerrit project names may contain slashes (e.g. platform/build),
+   * so the full project name is encoded as a single segment.
+   */
+  private get projectPath(): string {
+    const projectName = (this.repoInfo.url && projectFromUrl(this.repoInfo.url, this.contextPath)) || this.projectFromRepoInfo();
+    return `/projects/${encodeURIComponent(projectName)}`;
+  }
+
+  /**
+   * Project name from owner/repo, for repositories given without a URL
+   */
+  private projectFromRepoInfo(): string {
+    // Clone URLs may carry the authenticated /a/ prefix, which is not part of the project name
+    const owner = this.repoInfo.owner.replace(/^a(\/|$)/, '');
+    return owner ? `${owner}/${this.repoInfo.repo}` : this.repoInfo.repo;
+  }
+
+  /**
+   * Check if a tag exists
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    try {
+      const path = `${this.projectPath}/tags/${encodeURIComponent(tagName)}`;
+      await this.client.get(path);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a tag by exact name
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    let tag: {
+      ref: string;
+      revision: string;
+      object?: string;
+      message?: string;
+      tagger?: { name: string; email: string; date: string };
+    };
+    try {
+      tag = await this.client.get(`${this.projectPath}/tags/${encodeURIComponent(tagName)}`);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    // revision is the tag object for annotated tags; object is the commit it points to
+    if (!tag.object) {
+      return { tagName, refSha: tag.revision, commitSha: tag.revision, type: 'lightweight' };
+    }
+    return {
+      tagName,
+      refSha: tag.revision,
+      commitSha: tag.object,
+      type: 'annotated',
+      message: tag.message,
+      tagger: tag.tagger
+        ? {
+            name: tag.tagger.name,
+            email: tag.tagger.email,
+            // Gerrit timestamps are UTC "2013-02-21 11:16:39.000000000"
+            date: `${tag.tagger.date.replace(' ', 'T').replace(/\.\d+$/, '')}Z`
+          }
+        : undefined
+    };
+  }
+
+  /**
+   * List tags page by page (Gerrit pages with a limit and a skip count)
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+
+    for (let skip = 0; !collector.full; skip += PAGE_SIZE) {
+      const tags = await this.client.get<Array<{ ref: string; revision: string; object?: string }>>(
+        `${this.projectPath}/tags/?n=${PAGE_SIZE}&S=${skip}`
+      );
+      for (const tag of tags) {
+        // object is the commit for annotated tags; revision is the commit for lightweight ones
+        collector.add({ tagName: tag.ref.replace(/^refs\/tags\//, ''), commitSha: tag.object || tag.revision });
+      }
+      if (tags.length < PAGE_SIZE) {
+        break;
+      }
+    }
+    return collector.tags;
+  }
+
+  /**
+   * Create a tag
+   */
+  async createTag(options: TagOptions): Promise<TagResult> {
+    const { tagName, sha, message } = options;
+
+    this.logger.info(`Creating Gerrit tag: ${tagName} at ${sha}`);
+
+    if (options.gpgSign) {
+      this.logger.warning('Gerrit tags REST API does not accept signatures; push a locally signed tag instead. Creating unsigned tag');
+    }
+
+    // Check if tag exists
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
+      this.logger.warning(`Tag ${tagName} already exists`);
+      return {
+        tagName,
+        sha,
+        ...describeExistingTag(existing),
+        exists: true,
+        created: false,
+        updated: false
+      };
+    }
+
+    // Delete existing tag if force is enabled; the journal restores it if recreation fails
+    const journal = new TagJournal(this, this.logger);
+    if (exists && options.force) {
+      await journal.delete(tagName);
+    }
+
+    // Gerrit creates an annotated tag when a message is given, lightweight otherwise
+    const tagInput: { revision: string; message?: string } = { revision: sha };
+    if (message) {
+      tagInput.message = message;
+    }
+
+    await journal.recreate(() => this.client.put(`${this.projectPath}/tags/${encodeURIComponent(tagName)}`, tagInput));
+
+    this.logger.info(`Tag created successfully: ${tagName}`);
+
+    return {
+      tagName,
+      sha,
+      exists: false,
+      created: true,
+      updated: exists && options.force,
+      ...(await describeCreatedTag(this, tagName, sha, !!message))
+    };
+  }
+
+  /**
+   * Update a tag (delete and recreate, restoring the previous tag if recreation fails)
+   */
+  async updateTag(options: TagOptions): Promise<TagResult> {
+    return this.createTag({ ...options, force: true });
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    this.logger.info(`Deleting Gerrit tag: ${tagName}`);
+    const path = `${this.projectPath}/tags/${encodeURIComponent(tagName)}`;
+    try {
+      await this.client.delete(path);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        this.logger.debug(`Tag ${tagName} does not exist, skipping delete`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the HEAD SHA from the branch the project HEAD points to
+   */
+  async getHeadSha(): Promise<string> {
+    // HEAD is returned as a JSON string, e.g. "refs/heads/master"
+    const headRef = await this.client.get<string>(`${this.projectPath}/HEAD`);
+    const branchName = (headRef || 'refs/heads/master').replace(/^refs\/heads\//, '');
+
+    const branch = await this.client.get<{ ref: string; revision: string }>(
+      `${this.projectPath}/branches/${encodeURIComponent(branchName)}`
+    );
+    return branch.revision;
+  }
+
+  /**
+   * Check that a full SHA names a commit in the project
+   * Gerrit only looks up full SHAs, so an abbreviated one is rejected instead of being reported as not found
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    if (!/^[0-9a-f]{40}$/i.test(sha)) {
+      throw new Error(`Gerrit can only look up full 40-character commit SHAs; pass the full SHA instead of ${sha}`);
+    }
+    return lookupCommit(sha, decodeURIComponent(this.projectPath.replace(/^\/projects\//, '')), async () => {
+      const commit = await this.client.get<{ commit: string }>(`${this.projectPath}/commits/${encodeURIComponent(sha)}`);
+      return commit.commit;
+    });
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, decodeURIComponent(this.projectPath.replace(/^\/projects\//, '')), {
+      branch: async (name) => {
+        const branch = await missingOn404(() =>
+          this.client.get<{ revision: string }>(`${this.projectPath}/branches/${encodeURIComponent(name)}`)
+        );
+        return branch?.revision;
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
+}
+
+/**
+ * Gerrit creates annotated or lightweight tags but does not accept signatures or a tagger
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: false,
+  releases: false,
+  skipPush: false
+};
+
+/**
+ * Gerrit project name from a clone, REST or SSH URL: the path after the server's context path
+ * and the /a/ prefix, or the name in a /projects/{name} REST path
+ */
+function projectFromUrl(repositoryUrl: string, contextPath: string): string | undefined {
+  let pathname: string;
+  try {
+    pathname = new URL(repositoryUrl).pathname;
+  } catch {
+    return undefined;
+  }
+  if (contextPath && pathname.startsWith(`${contextPath}/`)) {
+    pathname = pathname.slice(contextPath.length);
+  }
+  const segments = pathname.split('/').filter((segment) => segment);
+  if (segments[0] === 'a') {
+    segments.shift();
+  }
+  if (segments[0] === 'projects' && segments.length > 1) {
+    return decodeURIComponent(segments[1]);
+  }
+  const project = segments.join('/').replace(/\.git$/, '');
+  return project || undefined;
+}
+
+export function detectFromUrlByHostname(url: URL): RepoType | undefined {
+  const hostname = url.hostname.toLowerCase();
+  if (hostname.includes('gerrit') || hostname.endsWith('-review.googlesource.com')) {
+    return 'gerrit';
+  }
+  return undefined;
+}
+
+export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType | undefined> {
+  const base = determineBaseUrl(url.href);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 2000);
+  try {
+    // Every Gerrit JSON response starts with the )]}' XSSI guard
+    const response = await fetch(`${base}/config/server/version`, { method: 'GET', signal: controller.signal });
+    clearTimeout(timeoutId);
+    if (response.ok && (await response.text()).startsWith(")]}'")) {
+      logger.debug(`Gerrit detect: ${base}/config/server/version status ${response.status}`);
+      return 'gerrit';
+    }
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === 'AbortError') {
+      logger.debug(`Gerrit detect timeout: ${base}`);
+    }
+  }
+  return undefined;
+}
+
+export function determineBaseUrl(urls: string | string[]): string | undefined {
+  const urlArray = Array.isArray(urls) ? urls : [urls];
+
+  // Gerrit REST endpoints live under the server's context path (e.g. https://host/r); the project comes from the repository
+  for (const urlStr of urlArray) {
+    if (!urlStr) continue;
+    try {
+      const url = new URL(urlStr);
+      const origin = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+      // Keep the context path in front of the authenticated /a/ prefix or a REST /projects/ path
+      const match = url.pathname.match(/^(.*?)\/(a|projects)(\/|$)/);
+      return match ? `${origin}${match[1]}` : origin;
+    } catch {
+      // Not a valid URL, skip
+    }
+  }
+
+  // Gerrit has no default host
+  return undefined;
+}
@@ -1,8 +1,27 @@
-import { PlatformAPI, TagOptions, TagResult, RepositoryInfo, PlatformConfig, RepoType } from '../types';
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
 import { Logger } from '../logger';
+import { describeExistingTag, describeCreatedTag } from '../tag-result';
+import { TagJournal } from '../tag-journal';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef, missingOn404 } from '../commit-lookup';
 import { HttpClient } from './http-client';
+import { encodeRefPath } from '../ref-name';
 
-function normalizeGiteaBaseUrl(baseUrl: string): string {
+/** Tags per page (Gitea caps limit at MAX_RESPONSE_ITEMS, 50 by default) */
+const PAGE_SIZE = 50;
+
+export function normalizeGiteaBaseUrl(baseUrl: string): string {
   const trimmed = baseUrl.replace(/\/+$/, '');
   // If already points to an api path, keep it. Otherwise, append /api/v1.
   if (trimmed.match(/\/api\/v\d+$/)) {
@@ -15,9 +34,10 @@ function normalizeGiteaBaseUrl(baseUrl: string): string {
  * Gitea API client
  */
 export class GiteaAPI implements PlatformAPI {
-  private client: HttpClient;
-  private repoInfo: RepositoryInfo;
-  private logger: Logger;
+  protected client: HttpClient;
+  protected repoInfo: RepositoryInfo;
+  protected logger: Logger;
+  protected readonly platformName: string = 'Gitea';
 
   constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
     const baseUrl = normalizeGiteaBaseUrl(config.baseUrl || 'https://gitea.com/api/v1');
@@ -38,19 +58,82 @@ export class GiteaAPI implements PlatformAPI {
    * Check if a tag exists
    */
   async tagExists(tagName: string): Promise<boolean> {
+    const exists = (await this.getTag(tagName)) !== undefined;
+    this.logger.debug(`${this.platformName} tag ${tagName} ${exists ? 'exists' : 'does not exist'}`);
+    return exists;
+  }
+
+  /**
+   * Get a tag by exact name, peeling tag objects down to the commit
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    type GitRef = { ref: string; object: { sha: string; type: string } };
+    type AnnotatedTag = {
+      sha: string;
+      message: string;
+      tagger?: { name: string; email: string; date: string };
+      object: { sha: string; type: string };
+      verification?: { signature?: string };
+    };
+
+    const repoPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}`;
+    let refs: GitRef | GitRef[];
     try {
-      const path = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/tags/${tagName}`;
-      await this.client.get(path);
-      this.logger.debug(`Gitea tag ${tagName} exists`);
-      return true;
+      refs = await this.client.get<GitRef | GitRef[]>(`${repoPath}/git/refs/tags/${encodeRefPath(tagName)}`);
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
-        this.logger.debug(`Gitea tag ${tagName} does not exist (404)`);
-        return false;
+        return undefined;
       }
-      this.logger.debug(`Gitea tagExists error for ${tagName}: ${error}`);
+      this.logger.debug(`${this.platformName} getTag error for ${tagName}: ${error}`);
       throw error;
     }
+
+    // The refs endpoint matches by prefix (v1 also lists v1.0.0), so look for the exact ref
+    const ref = (Array.isArray(refs) ? refs : [refs]).find((r) => r.ref === `refs/tags/${tagName}`);
+    if (!ref) {
+      return undefined;
+    }
+    if (ref.object.type !== 'tag') {
+      return { tagName, refSha: ref.object.sha, commitSha: ref.object.sha, type: 'lightweight' };
+    }
+
+    const tag = await this.client.get<AnnotatedTag>(`${repoPath}/git/tags/${ref.object.sha}`);
+    let target = tag.object;
+    while (target.type === 'tag') {
+      target = (await this.client.get<AnnotatedTag>(`${repoPath}/git/tags/${target.sha}`)).object;
+    }
+
+    return {
+      tagName,
+      refSha: ref.object.sha,
+      commitSha: target.sha,
+      type: 'annotated',
+      message: tag.message,
+      tagger: tag.tagger,
+      signature: tag.verification?.signature || undefined
+    };
+  }
+
+  /**
+   * List tags page by page
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+    const repoPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}`;
+
+    for (let page = 1; !collector.full; page++) {
+      const tags = await this.client.get<Array<{ name: string; commit: { sha: string } }>>(
+        `${repoPath}/tags?page=${page}&limit=${PAGE_SIZE}`
+      );
+      // Servers cap limit at MAX_RESPONSE_ITEMS, so a short page is not the last one; only an empty page is
+      if (tags.length === 0) {
+        break;
+      }
+      for (const tag of tags) {
+        collector.add({ tagName: tag.name, commitSha: tag.commit.sha });
+      }
+    }
+    return collector.tags;
   }
 
   /**
@@ -59,7 +142,7 @@ export class GiteaAPI implements PlatformAPI {
   async createTag(options: TagOptions): Promise<TagResult> {
     const { tagName, sha, message } = options;
 
-    this.logger.info(`Creating Gitea tag: ${tagName} at ${sha}`);
+    this.logger.info(`Creating ${this.platformName} tag: ${tagName} at ${sha}`);
     
     // Debug logging for message
     if (options.verbose) {
@@ -70,32 +153,38 @@ export class GiteaAPI implements PlatformAPI {
     }
 
     // Check if tag exists
-    const existsOriginal = await this.tagExists(tagName);
+    const existing = await this.getTag(tagName);
+    const existsOriginal = existing !== undefined;
     const updateRequested = !!options.force;
 
-    if (existsOriginal && !updateRequested) {
+    if (existing && !updateRequested) {
       this.logger.warning(`Tag ${tagName} already exists`);
       return {
         tagName,
         sha,
+        ...describeExistingTag(existing),
         exists: true,
         created: false,
         updated: false
       };
     }
 
-    // Delete existing tag if force is enabled
+    // Delete existing tag if force is enabled; the journal restores it if recreation fails
+    const journal = new TagJournal(this, this.logger);
     if (existsOriginal && updateRequested) {
-      await this.deleteTag(tagName);
+      await journal.delete(tagName);
     }
 
-    // Attempt primary Gitea tag creation endpoint
+    // Attempt primary Gitea tag creation endpoint (annotated with a message, lightweight without)
     const createTagPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/tags`;
-    const tagData = {
+    const tagData: { tag_name: string; target: string; message?: string } = {
       tag_name: tagName,
-      target: sha,
-      message: message || `Tag ${tagName}`
+      target: sha
     };
+    if (message) {
+      tagData.message = message;
+    }
+    let type: 'annotated' | 'lightweight' = message ? 'annotated' : 'lightweight';
 
     const tryCreateViaRefs = async (): Promise<void> => {
       // Fallback: create a lightweight tag ref (works on older / stricter Gitea)
@@ -104,51 +193,65 @@ export class GiteaAPI implements PlatformAPI {
         ref: `refs/tags/${tagName}`,
         sha
       };
-      this.logger.warning(`Primary Gitea tag create failed; falling back to refs API for ${tagName}`);
+      this.logger.warning(`Primary ${this.platformName} tag create failed; falling back to refs API for ${tagName}`);
       await this.client.post(refPath, payload);
+      if (type === 'annotated') {
+        this.logger.warning(`The refs API creates lightweight tags; the message for ${tagName} was dropped`);
+      }
+      type = 'lightweight';
     };
 
-    try {
-      await this.client.post(createTagPath, tagData);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message.toLowerCase() : '';
-      // If the tag already exists and force is enabled, delete and retry
-      if (msg.includes('409') && msg.includes('tag already exists')) {
-        if (updateRequested) {
-          // Force update: delete and retry
-          this.logger.info(`Tag ${tagName} exists but force is enabled, deleting and recreating`);
-          await this.deleteTag(tagName);
-          // Retry creation
-          try {
-            await this.client.post(createTagPath, tagData);
-          } catch (retryError) {
-            // If retry also fails with 405/404, try fallback
-            const retryMsg = retryError instanceof Error ? retryError.message.toLowerCase() : '';
-            if (retryMsg.includes('405') || retryMsg.includes('404')) {
-              await tryCreateViaRefs();
-            } else {
-              throw retryError;
+    // Resolves to false when the tag turns out to exist already and force is off
+    const created = await journal.recreate(async (): Promise<boolean> => {
+      try {
+        await this.client.post(createTagPath, tagData);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message.toLowerCase() : '';
+        // If the tag already exists and force is enabled, delete and retry
+        if (msg.includes('409') && msg.includes('tag already exists')) {
+          if (updateRequested) {
+            // Force update: delete and retry
+            this.logger.info(`Tag ${tagName} exists but force is enabled, deleting and recreating`);
+            await journal.delete(tagName);
+            // Retry creation
+            try {
+              await this.client.post(createTagPath, tagData);
+            } catch (retryError) {
+              // If retry also fails with 405/404, try fallback
+              const retryMsg = retryError instanceof Error ? retryError.message.toLowerCase() : '';
+              if (retryMsg.includes('405') || retryMsg.includes('404')) {
+                await tryCreateViaRefs();
+              } else {
+                throw retryError;
+              }
             }
+          } else {
+            // No force: surface a graceful result
+            this.logger.warning(`Tag ${tagName} already exists (detected during create)`);
+            return false;
           }
         } else {
-          // No force: surface a graceful result
-          this.logger.warning(`Tag ${tagName} already exists (detected during create)`);
-          return {
-            tagName,
-            sha,
-            exists: true,
-            created: false,
-            updated: false
-          };
-        }
-      } else {
-        // Fallback to refs API on method/endpoint errors (405/404)
-        if (msg.includes('405') || msg.includes('404')) {
-          await tryCreateViaRefs();
-        } else {
-          throw error;
+          // Fallback to refs API on method/endpoint errors (405/404)
+          if (msg.includes('405') || msg.includes('404')) {
+            await tryCreateViaRefs();
+          } else {
+            throw error;
+          }
         }
       }
+      return true;
+    });
+    if (!created) {
+      // Report the tag that got there first
+      const current = await this.getTag(tagName);
+      return {
+        tagName,
+        sha,
+        ...(current ? describeExistingTag(current) : { objectSha: sha, commitSha: sha, type }),
+        exists: true,
+        created: false,
+        updated: false
+      };
     }
 
     this.logger.info(`Tag created successfully: ${tagName}`);
@@ -158,15 +261,15 @@ export class GiteaAPI implements PlatformAPI {
       sha,
       exists: existsOriginal || updateRequested,
       created: !existsOriginal,
-      updated: updateRequested
+      updated: updateRequested,
+      ...(await describeCreatedTag(this, tagName, sha, type === 'annotated'))
     };
   }
 
   /**
-   * Update a tag (delete and recreate)
+   * Update a tag (delete and recreate, restoring the previous tag if recreation fails)
    */
   async updateTag(options: TagOptions): Promise<TagResult> {
-    await this.deleteTag(options.tagName);
     return this.createTag({ ...options, force: true });
   }
 
@@ -174,9 +277,9 @@ export class GiteaAPI implements PlatformAPI {
    * Delete a tag
    */
   async deleteTag(tagName: string): Promise<void> {
-    this.logger.info(`Deleting Gitea tag: ${tagName}`);
+    this.logger.info(`Deleting ${this.platformName} tag: ${tagName}`);
     // Delete the ref
-    const path = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/tags/${tagName}`;
+    const path = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/tags/${encodeRefPath(tagName)}`;
     try {
       await this.client.delete(path);
     } catch (error) {
@@ -199,15 +302,56 @@ export class GiteaAPI implements PlatformAPI {
 
     // Get the HEAD SHA from the default branch
     // Gitea API returns an array for /git/refs/heads/ endpoint
-    const refPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/heads/${defaultBranch}`;
+    const refPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/heads/${encodeRefPath(defaultBranch)}`;
     const refInfoArray = await this.client.get<Array<{ object: { sha: string } }>>(refPath);
     if (refInfoArray.length === 0) {
       throw new Error(`No ref found for branch ${defaultBranch}`);
     }
     return refInfoArray[0].object.sha;
   }
+
+  /**
+   * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    return lookupCommit(sha, `${this.repoInfo.owner}/${this.repoInfo.repo}`, async () => {
+      // Leave out the diff stats, file list and signature check; only the SHA is needed
+      const commit = await this.client.get<{ sha: string }>(
+        `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/commits/${encodeURIComponent(sha)}?stat=false&verification=false&files=false`
+      );
+      return commit.sha;
+    });
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => {
+        const branch = await missingOn404(() =>
+          this.client.get<{ commit: { id: string } }>(`/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/branches/${encodeRefPath(name)}`)
+        );
+        return branch?.commit.id;
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
 }
 
+/**
+ * Gitea creates annotated or lightweight tags but does not sign or set the tagger
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: false,
+  releases: true,
+  skipPush: false
+};
+
 export function detectFromUrlByHostname(url: URL): RepoType | undefined {
   const hostname = url.hostname.toLowerCase();
   if (hostname.includes('gitea.com') || hostname.includes('gitea')) {
@@ -253,6 +397,33 @@ export function determineBaseUrl(urls: string | string[]): string | undefined {
   return 'https://gitea.com/api/v1';
 }
 
+/**
+ * Read the server version from /api/v1/version (shared by Gitea-family detectors)
+ * Returns undefined when the endpoint is missing or does not return a version
+ */
+export async function fetchServerVersion(base: string, logger: Logger, path = '/api/v1/version'): Promise<string | undefined> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 2000);
+  try {
+    const response = await fetch(`${base}${path}`, { method: 'GET', signal: controller.signal });
+    clearTimeout(timeoutId);
+    if (!response.ok) {
+      return undefined;
+    }
+    const body = (await response.json()) as { version?: unknown };
+    if (body && typeof body.version === 'string') {
+      logger.debug(`Server version at ${base}: ${body.version}`);
+      return body.version;
+    }
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === 'AbortError') {
+      logger.debug(`Version probe timeout: ${base}`);
+    }
+  }
+  return undefined;
+}
+
 async function headOk(url: string, logger: Logger): Promise<boolean> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 2000);
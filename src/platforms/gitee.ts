@@ -0,0 +1,287 @@
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
+import { Logger } from '../logger';
+import { describeExistingTag, describeCreatedTag } from '../tag-result';
+import { TagJournal } from '../tag-journal';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef, missingOn404 } from '../commit-lookup';
+import { HttpClient } from './http-client';
+import { encodeRefPath } from '../ref-name';
+
+/** Tags per page (the largest per_page Gitee accepts) */
+const PAGE_SIZE = 100;
+
+/**
+ * Tag entry of the v5 tags list; only annotated tags carry a tagger
+ */
+interface GiteeTag {
+  name: string;
+  message?: string | null;
+  commit: { sha: string };
+  tagger?: { name: string; email: string; date: string } | null;
+}
+
+/**
+ * Gitee API client (API v5)
+ *
+ * Gitee expects the token as an access_token query parameter rather than a header.
+ */
+export class GiteeAPI implements PlatformAPI {
+  private client: HttpClient;
+  private repoInfo: RepositoryInfo;
+  private logger: Logger;
+
+  constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    this.client = new HttpClient(
+      {
+        baseUrl: config.baseUrl || 'https://gitee.com/api/v5',
+        token: config.token,
+        authScheme: 'query',
+        ignoreCertErrors: config.ignoreCertErrors,
+        verbose: config.verbose
+      },
+      logger
+    );
+    this.repoInfo = repoInfo;
+    this.logger = logger;
+  }
+
+  private get repoPath(): string {
+    return `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}`;
+  }
+
+  /**
+   * Find a tag in the paginated tag list, stopping at the page that has it
+   * (v5 has no single-tag endpoint)
+   */
+  private async findTag(tagName: string): Promise<GiteeTag | undefined> {
+    for (let page = 1; ; page++) {
+      const tags = await this.client.get<GiteeTag[]>(`${this.repoPath}/tags?page=${page}&per_page=${PAGE_SIZE}`);
+      if (!Array.isArray(tags)) {
+        return undefined;
+      }
+      const tag = tags.find((t) => t.name === tagName);
+      if (tag || tags.length < PAGE_SIZE) {
+        return tag;
+      }
+    }
+  }
+
+  /**
+   * Check if a tag exists
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    return (await this.findTag(tagName)) !== undefined;
+  }
+
+  /**
+   * Get a tag by exact name
+   * Gitee does not expose tag object SHAs, so refSha is the tagged commit for annotated tags too.
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    const tag = await this.findTag(tagName);
+    if (!tag) {
+      return undefined;
+    }
+
+    // Only annotated tags carry a tagger
+    return {
+      tagName,
+      refSha: tag.commit.sha,
+      commitSha: tag.commit.sha,
+      type: tag.tagger ? 'annotated' : 'lightweight',
+      message: tag.tagger ? tag.message || undefined : undefined,
+      tagger: tag.tagger || undefined
+    };
+  }
+
+  /**
+   * List tags page by page
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+
+    for (let page = 1; !collector.full; page++) {
+      const tags = await this.client.get<Array<{ name: string; commit: { sha: string } }>>(
+        `${this.repoPath}/tags?page=${page}&per_page=${PAGE_SIZE}`
+      );
+      for (const tag of tags) {
+        collector.add({ tagName: tag.name, commitSha: tag.commit.sha });
+      }
+      if (tags.length < PAGE_SIZE) {
+        break;
+      }
+    }
+    return collector.tags;
+  }
+
+  /**
+   * Create a tag
+   */
+  async createTag(options: TagOptions): Promise<TagResult> {
+    const { tagName, sha, message } = options;
+
+    this.logger.info(`Creating Gitee tag: ${tagName} at ${sha}`);
+
+    // Check if tag exists
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
+      this.logger.warning(`Tag ${tagName} already exists`);
+      return {
+        tagName,
+        sha,
+        ...describeExistingTag(existing),
+        exists: true,
+        created: false,
+        updated: false
+      };
+    }
+
+    // Delete existing tag if force is enabled; the journal restores it if recreation fails
+    const journal = new TagJournal(this, this.logger);
+    if (exists && options.force) {
+      await journal.delete(tagName);
+    }
+
+    // refs accepts a branch name or commit SHA
+    const tagData: { refs: string; tag_name: string; tag_message?: string } = {
+      refs: sha,
+      tag_name: tagName
+    };
+    if (message) {
+      tagData.tag_message = message;
+    }
+
+    await journal.recreate(() => this.client.post(`${this.repoPath}/tags`, tagData));
+
+    this.logger.info(`Tag created successfully: ${tagName}`);
+
+    return {
+      tagName,
+      sha,
+      exists: false,
+      created: true,
+      updated: exists && options.force,
+      ...(await describeCreatedTag(this, tagName, sha, !!message))
+    };
+  }
+
+  /**
+   * Update a tag (delete and recreate, restoring the previous tag if recreation fails)
+   */
+  async updateTag(options: TagOptions): Promise<TagResult> {
+    return this.createTag({ ...options, force: true });
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    this.logger.info(`Deleting Gitee tag: ${tagName}`);
+    const path = `${this.repoPath}/tags/${encodeRefPath(tagName)}`;
+    try {
+      await this.client.delete(path);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        this.logger.debug(`Tag ${tagName} does not exist, skipping delete`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the HEAD SHA from the default branch
+   */
+  async getHeadSha(): Promise<string> {
+    const repo = await this.client.get<{ default_branch: string }>(this.repoPath);
+    const defaultBranch = repo.default_branch || 'master';
+
+    const branch = await this.client.get<{ name: string; commit: { sha: string } }>(
+      `${this.repoPath}/branches/${encodeRefPath(defaultBranch)}`
+    );
+    if (!branch || !branch.commit || !branch.commit.sha) {
+      throw new Error(`No commit found for branch ${defaultBranch}`);
+    }
+    return branch.commit.sha;
+  }
+
+  /**
+   * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    return lookupCommit(sha, `${this.repoInfo.owner}/${this.repoInfo.repo}`, async () => {
+      const commit = await this.client.get<{ sha: string }>(`${this.repoPath}/commits/${encodeURIComponent(sha)}`);
+      return commit.sha;
+    });
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => {
+        const branch = await missingOn404(() => this.client.get<{ commit: { sha: string } }>(`${this.repoPath}/branches/${encodeRefPath(name)}`));
+        return branch?.commit.sha;
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
+}
+
+/**
+ * Gitee creates annotated or lightweight tags but does not sign or set the tagger
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: false,
+  releases: true,
+  skipPush: false
+};
+
+export function detectFromUrlByHostname(url: URL): RepoType | undefined {
+  const hostname = url.hostname.toLowerCase();
+  if (hostname === 'gitee.com' || hostname.endsWith('.gitee.com')) {
+    return 'gitee';
+  }
+  return undefined;
+}
+
+export async function detectFromUrl(_url: URL, _logger: Logger): Promise<RepoType | undefined> {
+  // Gitee is only hosted at gitee.com, so hostname detection is sufficient
+  return undefined;
+}
+
+export function determineBaseUrl(urls: string | string[]): string | undefined {
+  const urlArray = Array.isArray(urls) ? urls : [urls];
+
+  // Check if first URL is an explicit API URL (contains /api)
+  if (urlArray.length > 0 && urlArray[0]) {
+    try {
+      const url = new URL(urlArray[0]);
+      if (url.pathname.includes('/api')) {
+        return urlArray[0];
+      }
+    } catch {
+      // Not a valid URL, continue
+    }
+  }
+
+  // Default Gitee API URL
+  return 'https://gitee.com/api/v5';
+}
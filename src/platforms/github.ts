@@ -1,9 +1,33 @@
-import { PlatformAPI, TagOptions, TagResult, RepositoryInfo, PlatformConfig, RepoType } from '../types';
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
 import { Logger } from '../logger';
+import { describeExistingTag } from '../tag-result';
+import { resolveTagger } from '../git';
 import { HttpClient } from './http-client';
+import { encodeRefPath } from '../ref-name';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef, missingOn404 } from '../commit-lookup';
 
 /**
- * GitHub API client
+ * Extract the rel="next" URL from a Link header
+ */
+function nextPageUrl(linkHeader: string | null): string | undefined {
+  const match = linkHeader?.match(/<([^>]+)>\s*;\s*rel="next"/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * GitHub API client (github.com and GitHub Enterprise Server)
  */
 export class GitHubAPI implements PlatformAPI {
   private client: HttpClient;
@@ -29,16 +53,76 @@ export class GitHubAPI implements PlatformAPI {
    * Check if a tag exists
    */
   async tagExists(tagName: string): Promise<boolean> {
+    return (await this.getTag(tagName)) !== undefined;
+  }
+
+  /**
+   * Get a tag by exact name, peeling tag objects down to the commit
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    type GitRef = { ref: string; object: { sha: string; type: string } };
+    type GitTag = {
+      sha: string;
+      message: string;
+      tagger?: { name: string; email: string; date: string };
+      object: { sha: string; type: string };
+      verification?: { signature: string | null };
+    };
+
+    const repoPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}`;
+    let refs: GitRef | GitRef[];
     try {
-      const path = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/tags/${tagName}`;
-      await this.client.get(path);
-      return true;
+      refs = await this.client.get<GitRef | GitRef[]>(`${repoPath}/git/refs/tags/${encodeRefPath(tagName)}`);
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
-        return false;
+        return undefined;
       }
       throw error;
     }
+
+    // Without an exact match GitHub returns every ref that starts with the name (v1 -> v1.0.0, v1.1.0)
+    const ref = (Array.isArray(refs) ? refs : [refs]).find((r) => r.ref === `refs/tags/${tagName}`);
+    if (!ref) {
+      return undefined;
+    }
+    if (ref.object.type !== 'tag') {
+      return { tagName, refSha: ref.object.sha, commitSha: ref.object.sha, type: 'lightweight' };
+    }
+
+    const tag = await this.client.get<GitTag>(`${repoPath}/git/tags/${ref.object.sha}`);
+    // A tag may point at another tag object
+    let target = tag.object;
+    while (target.type === 'tag') {
+      target = (await this.client.get<GitTag>(`${repoPath}/git/tags/${target.sha}`)).object;
+    }
+
+    return {
+      tagName,
+      refSha: ref.object.sha,
+      commitSha: target.sha,
+      type: 'annotated',
+      message: tag.message,
+      tagger: tag.tagger,
+      signature: tag.verification?.signature || undefined
+    };
+  }
+
+  /**
+   * List tags, following the Link header from page to page
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+    let path: string | undefined = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/tags?per_page=100`;
+
+    while (path && !collector.full) {
+      const response = await this.client.getWithResponse<Array<{ name: string; commit: { sha: string } }>>(path);
+      for (const tag of response.body) {
+        collector.add({ tagName: tag.name, commitSha: tag.commit.sha });
+      }
+      const next = nextPageUrl(response.headers.get('link'));
+      path = next ? this.client.pathFromUrl(next) : undefined;
+    }
+    return collector.tags;
   }
 
   /**
@@ -50,54 +134,57 @@ export class GitHubAPI implements PlatformAPI {
     this.logger.info(`Creating GitHub tag: ${tagName} at ${sha}`);
 
     // Check if tag exists
-    const exists = await this.tagExists(tagName);
-    if (exists && !options.force) {
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
       this.logger.warning(`Tag ${tagName} already exists`);
       return {
         tagName,
         sha,
+        ...describeExistingTag(existing),
         exists: true,
         created: false,
         updated: false
       };
     }
 
-    // Delete existing tag if force is enabled
-    if (exists && options.force) {
-      await this.deleteTag(tagName);
+    // Annotated tags need a tag object for the ref to point to; lightweight tags point at the commit
+    let refSha = sha;
+    if (message) {
+      const path = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/tags`;
+      // Without a tagger GitHub records the token's user and the current time
+      const tagger = resolveTagger(options.tagger);
+      const tagResponse = await this.client.post<{ sha: string }>(path, {
+        tag: tagName,
+        message,
+        object: sha,
+        type: 'commit',
+        ...(tagger ? { tagger } : {})
+      });
+      refSha = tagResponse.sha;
     }
 
-    // Create tag object
-    const tagObject = {
-      tag: tagName,
-      message: message || `Tag ${tagName}`,
-      object: sha,
-      type: 'commit'
-    };
-
-    const path = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/tags`;
-    const tagResponse = await this.client.post<{ sha: string }>(path, tagObject);
-
-    // Create ref pointing to the tag
+    // Point the ref at it; an existing ref is moved in place with a forced update, so the tag never disappears
     const refPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs`;
-    try {
-      await this.client.post(refPath, {
-        ref: `refs/tags/${tagName}`,
-        sha: tagResponse.sha
-      });
-    } catch (error) {
-      const msg = error instanceof Error ? error.message.toLowerCase() : '';
-      // If the ref already exists and force is enabled, delete and retry
-      if ((msg.includes('422') || msg.includes('reference already exists')) && options.force) {
-        this.logger.info(`Ref ${tagName} exists but force is enabled, deleting and recreating`);
-        await this.deleteTag(tagName);
-        // Retry ref creation
+    const moveRef = (): Promise<unknown> =>
+      this.client.patch(`${refPath}/tags/${encodeRefPath(tagName)}`, { sha: refSha, force: true });
+    if (exists && options.force) {
+      await moveRef();
+    } else {
+      try {
         await this.client.post(refPath, {
           ref: `refs/tags/${tagName}`,
-          sha: tagResponse.sha
+          sha: refSha
         });
-      } else {
-        throw error;
+      } catch (error) {
+        const msg = error instanceof Error ? error.message.toLowerCase() : '';
+        // The ref appeared since the existence check: move it if force is enabled
+        if ((msg.includes('422') || msg.includes('reference already exists')) && options.force) {
+          this.logger.info(`Ref ${tagName} exists but force is enabled, updating it in place`);
+          await moveRef();
+        } else {
+          throw error;
+        }
       }
     }
 
@@ -108,16 +195,18 @@ export class GitHubAPI implements PlatformAPI {
       sha,
       exists: false,
       created: true,
-      updated: exists && options.force
+      updated: exists && options.force,
+      objectSha: refSha,
+      commitSha: sha,
+      type: message ? 'annotated' : 'lightweight'
     };
   }
 
   /**
-   * Update a tag (delete and recreate)
+   * Update a tag by moving its ref in place
    */
   async updateTag(options: TagOptions): Promise<TagResult> {
-    await this.deleteTag(options.tagName);
-    return this.createTag(options);
+    return this.createTag({ ...options, force: true });
   }
 
   /**
@@ -125,7 +214,7 @@ export class GitHubAPI implements PlatformAPI {
    */
   async deleteTag(tagName: string): Promise<void> {
     this.logger.info(`Deleting GitHub tag: ${tagName}`);
-    const path = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/tags/${tagName}`;
+    const path = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/tags/${encodeRefPath(tagName)}`;
     try {
       await this.client.delete(path);
     } catch (error) {
@@ -147,46 +236,97 @@ export class GitHubAPI implements PlatformAPI {
     const defaultBranch = repoInfo.default_branch || 'main';
 
     // Get the HEAD SHA from the default branch
-    const refPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/ref/heads/${defaultBranch}`;
+    const refPath = `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/ref/heads/${encodeRefPath(defaultBranch)}`;
     const refInfo = await this.client.get<{ object: { sha: string } }>(refPath);
     return refInfo.object.sha;
   }
+
+  /**
+   * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    return lookupCommit(sha, `${this.repoInfo.owner}/${this.repoInfo.repo}`, async () => {
+      const commit = await this.client.get<{ sha: string }>(
+        `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/commits/${encodeURIComponent(sha)}`
+      );
+      return commit.sha;
+    });
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    type GitRef = { ref: string; object: { sha: string } };
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => {
+        const refs = await missingOn404(() =>
+          this.client.get<GitRef | GitRef[]>(`/repos/${this.repoInfo.owner}/${this.repoInfo.repo}/git/refs/heads/${encodeRefPath(name)}`)
+        );
+        // Without an exact match GitHub returns every ref that starts with the name
+        const match = (Array.isArray(refs) ? refs : refs ? [refs] : []).find((r) => r.ref === `refs/heads/${name}`);
+        return match?.object.sha;
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
 }
 
+/**
+ * GitHub creates annotated tags through tag objects (with the requested tagger) and lightweight tags as bare refs,
+ * and moves refs in place; it does not sign
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: true,
+  atomicUpdate: true,
+  releases: true,
+  skipPush: false
+};
+
 export function detectFromUrlByHostname(url: URL): RepoType | undefined {
   const hostname = url.hostname.toLowerCase();
   if (hostname.includes('github.com')) {
     return 'github';
   }
+  // Common GitHub Enterprise Server host names (github.corp.example, ghe.corp.example);
+  // other GHES hosts are identified by the X-GitHub-Enterprise-Version probe
+  if (hostname.startsWith('github.') || hostname.startsWith('ghe.')) {
+    return 'github';
+  }
   return undefined;
 }
 
-async function headOk(url: string, logger: Logger): Promise<boolean> {
+/**
+ * Read the X-GitHub-Enterprise-Version header from a host's /api/v3 endpoint
+ * GHES sends it on every API response, including unauthenticated ones; github.com does not
+ */
+export async function fetchEnterpriseVersion(base: string, logger: Logger): Promise<string | undefined> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 2000);
   try {
-    const response = await fetch(url, { method: 'HEAD', signal: controller.signal });
+    const response = await fetch(`${base}/api/v3`, { method: 'HEAD', signal: controller.signal });
     clearTimeout(timeoutId);
-    if (response.ok || response.status === 401 || response.status === 403) {
-      logger.debug(`GitHub detect: ${url} status ${response.status}`);
-      return true;
+    const version = response.headers.get('x-github-enterprise-version');
+    if (version) {
+      logger.debug(`GitHub detect: ${base}/api/v3 reports GitHub Enterprise Server ${version}`);
+      return version;
     }
   } catch (error) {
     clearTimeout(timeoutId);
     if (error instanceof Error && error.name === 'AbortError') {
-      logger.debug(`GitHub detect timeout: ${url}`);
+      logger.debug(`GitHub detect timeout: ${base}/api/v3`);
     }
   }
-  return false;
+  return undefined;
 }
 
 export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType | undefined> {
   const base = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
-  const paths = ['/api/v3', '/api'];
-  for (const path of paths) {
-    if (await headOk(`${base}${path}`, logger)) {
-      return 'github';
-    }
+  if (await fetchEnterpriseVersion(base, logger)) {
+    return 'github';
   }
   return undefined;
 }
@@ -194,20 +334,39 @@ export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType
 export function determineBaseUrl(urls: string | string[]): string | undefined {
   const urlArray = Array.isArray(urls) ? urls : [urls];
 
-  // If explicitly provided base URL exists, use it (would be in the array)
+  // GitHub Actions sets GITHUB_API_URL for the server the runner belongs to (api.github.com or GHES /api/v3)
+  const runnerApiUrl = process.env.GITHUB_API_URL;
+  let runnerHost: string | undefined;
+  try {
+    runnerHost = process.env.GITHUB_SERVER_URL ? new URL(process.env.GITHUB_SERVER_URL).host.toLowerCase() : undefined;
+  } catch {
+    // Not a valid URL, ignore
+  }
+
   for (const urlStr of urlArray) {
     if (!urlStr) continue;
     try {
       const url = new URL(urlStr);
-      // Check if this looks like an API URL
-      if (url.pathname.includes('/api')) {
+      const hostname = url.hostname.toLowerCase();
+      // Explicit API URLs (https://host/api/v3, https://host/api, https://api.github.com) are used as-is
+      if (/^\/api(\/v3)?\/?$/.test(url.pathname) || hostname.startsWith('api.')) {
         return urlStr;
       }
+      if (runnerApiUrl && url.host.toLowerCase() === runnerHost) {
+        return runnerApiUrl;
+      }
+      if (hostname === 'github.com' || hostname.endsWith('.github.com')) {
+        return 'https://api.github.com';
+      }
+      // GitHub Enterprise Server serves the REST API under /api/v3 on the same host
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        return `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}/api/v3`;
+      }
     } catch {
       // Not a valid URL, skip
     }
   }
 
   // Default GitHub API URL
-  return 'https://api.github.com';
+  return runnerApiUrl || 'https://api.github.com';
 }
@@ -0,0 +1,337 @@
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  HttpResponse,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
+import { Logger } from '../logger';
+import { describeExistingTag, describeCreatedTag } from '../tag-result';
+import { TagJournal } from '../tag-journal';
+import { TagCollector } from '../tag-collector';
+import { lookupCommit, lookupRef, missingOn404 } from '../commit-lookup';
+import { HttpClient } from './http-client';
+
+function normalizeGitLabBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  // If already points to a versioned api path, keep it. Otherwise, append /api/v4.
+  if (trimmed.match(/\/api\/v\d+$/)) {
+    return trimmed;
+  }
+  if (trimmed.endsWith('/api')) {
+    return `${trimmed}/v4`;
+  }
+  return `${trimmed}/api/v4`;
+}
+
+/**
+ * GitLab API client (gitlab.com and self-managed, REST API v4)
+ */
+export class GitLabAPI implements PlatformAPI {
+  private client: HttpClient;
+  private repoInfo: RepositoryInfo;
+  private logger: Logger;
+
+  constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    const baseUrl = normalizeGitLabBaseUrl(config.baseUrl || 'https://gitlab.com/api/v4');
+    // CI job tokens must be sent as JOB-TOKEN; everything else is a personal/project access token
+    const isJobToken = !!config.token && config.token === process.env.CI_JOB_TOKEN;
+    this.client = new HttpClient(
+      {
+        baseUrl,
+        token: config.token,
+        authScheme: isJobToken ? 'job-token' : 'private-token',
+        ignoreCertErrors: config.ignoreCertErrors,
+        verbose: config.verbose
+      },
+      logger
+    );
+    this.repoInfo = repoInfo;
+    this.logger = logger;
+  }
+
+  /**
+   * URL-encoded project path (owner may contain nested groups, e.g. group/subgroup)
+   */
+  private get projectPath(): string {
+    return `/projects/${encodeURIComponent(`${this.repoInfo.owner}/${this.repoInfo.repo}`)}`;
+  }
+
+  /**
+   * Check if a tag exists
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    try {
+      const path = `${this.projectPath}/repository/tags/${encodeURIComponent(tagName)}`;
+      await this.client.get(path);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a tag by exact name
+   * GitLab does not expose the tagger or the raw signature block.
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    let tag: { name: string; message: string | null; target: string; commit: { id: string } };
+    try {
+      tag = await this.client.get(`${this.projectPath}/repository/tags/${encodeURIComponent(tagName)}`);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    // target is the tag object for annotated tags and the commit for lightweight ones
+    return {
+      tagName,
+      refSha: tag.target,
+      commitSha: tag.commit.id,
+      type: tag.target !== tag.commit.id ? 'annotated' : 'lightweight',
+      message: tag.message || undefined
+    };
+  }
+
+  /**
+   * List tags, following the X-Next-Page header
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+    let page: string | null = '1';
+
+    while (page && !collector.full) {
+      const response: HttpResponse<Array<{ name: string; commit: { id: string } }>> = await this.client.getWithResponse(
+        `${this.projectPath}/repository/tags?per_page=100&page=${page}`
+      );
+      for (const tag of response.body) {
+        collector.add({ tagName: tag.name, commitSha: tag.commit.id });
+      }
+      page = response.headers.get('x-next-page');
+    }
+    return collector.tags;
+  }
+
+  /**
+   * Create a tag
+   */
+  async createTag(options: TagOptions): Promise<TagResult> {
+    const { tagName, sha, message } = options;
+
+    this.logger.info(`Creating GitLab tag: ${tagName} at ${sha}`);
+
+    // Check if tag exists
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
+      this.logger.warning(`Tag ${tagName} already exists`);
+      return {
+        tagName,
+        sha,
+        ...describeExistingTag(existing),
+        exists: true,
+        created: false,
+        updated: false
+      };
+    }
+
+    // Delete existing tag if force is enabled; the journal restores it if recreation fails
+    const journal = new TagJournal(this, this.logger);
+    if (exists && options.force) {
+      await journal.delete(tagName);
+    }
+
+    // GitLab creates an annotated tag when a message is given, lightweight otherwise
+    const tagData: { tag_name: string; ref: string; message?: string } = {
+      tag_name: tagName,
+      ref: sha
+    };
+    if (message) {
+      tagData.message = message;
+    }
+
+    await journal.recreate(() => this.client.post(`${this.projectPath}/repository/tags`, tagData));
+
+    this.logger.info(`Tag created successfully: ${tagName}`);
+
+    return {
+      tagName,
+      sha,
+      exists: false,
+      created: true,
+      updated: exists && options.force,
+      ...(await describeCreatedTag(this, tagName, sha, !!message))
+    };
+  }
+
+  /**
+   * Update a tag (delete and recreate, restoring the previous tag if recreation fails)
+   */
+  async updateTag(options: TagOptions): Promise<TagResult> {
+    return this.createTag({ ...options, force: true });
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    this.logger.info(`Deleting GitLab tag: ${tagName}`);
+    const path = `${this.projectPath}/repository/tags/${encodeURIComponent(tagName)}`;
+    try {
+      await this.client.delete(path);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('404')) {
+        this.logger.debug(`Tag ${tagName} does not exist, skipping delete`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the HEAD SHA from the default branch
+   */
+  async getHeadSha(): Promise<string> {
+    // Get project info to find default branch
+    const project = await this.client.get<{ default_branch: string }>(this.projectPath);
+    const defaultBranch = project.default_branch || 'main';
+
+    // Get the HEAD SHA from the default branch
+    const branchPath = `${this.projectPath}/repository/branches/${encodeURIComponent(defaultBranch)}`;
+    const branch = await this.client.get<{ commit: { id: string } }>(branchPath);
+    return branch.commit.id;
+  }
+
+  /**
+   * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    return lookupCommit(sha, `${this.repoInfo.owner}/${this.repoInfo.repo}`, async () => {
+      const commit = await this.client.get<{ id: string }>(
+        `${this.projectPath}/repository/commits/${encodeURIComponent(sha)}`
+      );
+      return commit.id;
+    });
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => {
+        const branch = await missingOn404(() =>
+          this.client.get<{ commit: { id: string } }>(`${this.projectPath}/repository/branches/${encodeURIComponent(name)}`)
+        );
+        return branch?.commit.id;
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
+}
+
+/**
+ * GitLab creates annotated or lightweight tags but does not sign or set the tagger
+ */
+export const capabilities: PlatformCapabilities = {
+  annotated: true,
+  lightweight: true,
+  signing: false,
+  tagger: false,
+  atomicUpdate: false,
+  releases: true,
+  skipPush: false
+};
+
+export function detectFromUrlByHostname(url: URL): RepoType | undefined {
+  const hostname = url.hostname.toLowerCase();
+  if (hostname.includes('gitlab.com') || hostname.includes('gitlab')) {
+    return 'gitlab';
+  }
+  return undefined;
+}
+
+async function versionOk(url: string, logger: Logger): Promise<boolean> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 2000);
+  try {
+    const response = await fetch(url, { method: 'GET', signal: controller.signal });
+    clearTimeout(timeoutId);
+    if (!response.ok && response.status !== 401 && response.status !== 403) {
+      return false;
+    }
+    // GitLab tags every API response with X-Gitlab-Meta; authenticated version responses also carry a revision
+    if (response.headers.get('x-gitlab-meta')) {
+      logger.debug(`GitLab detect: ${url} status ${response.status} (X-Gitlab-Meta)`);
+      return true;
+    }
+    const body = (await response.json()) as { version?: string; revision?: string };
+    if (body && body.version && body.revision) {
+      logger.debug(`GitLab detect: ${url} version ${body.version}`);
+      return true;
+    }
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === 'AbortError') {
+      logger.debug(`GitLab detect timeout: ${url}`);
+    }
+  }
+  return false;
+}
+
+export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType | undefined> {
+  const base = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+  if (await versionOk(`${base}/api/v4/version`, logger)) {
+    return 'gitlab';
+  }
+  return undefined;
+}
+
+export function determineBaseUrl(urls: string | string[]): string | undefined {
+  const urlArray = Array.isArray(urls) ? urls : [urls];
+
+  // Check if first URL is an explicit API URL (contains /api)
+  if (urlArray.length > 0 && urlArray[0]) {
+    try {
+      const url = new URL(urlArray[0]);
+      if (url.pathname.includes('/api')) {
+        return normalizeGitLabBaseUrl(urlArray[0]);
+      }
+    } catch {
+      // Not a valid URL, continue
+    }
+  }
+
+  // Check repository/origin URLs to derive API URL
+  for (const urlStr of urlArray) {
+    if (!urlStr) continue;
+    try {
+      const url = new URL(urlStr);
+      return `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}/api/v4`;
+    } catch {
+      // Not a valid URL, skip
+    }
+  }
+
+  // Check GitLab CI environment variables
+  if (process.env.CI_API_V4_URL) {
+    return process.env.CI_API_V4_URL.replace(/\/$/, '');
+  }
+  if (process.env.CI_SERVER_URL) {
+    return `${process.env.CI_SERVER_URL.replace(/\/$/, '')}/api/v4`;
+  }
+
+  // Default GitLab API URL
+  return 'https://gitlab.com/api/v4';
+}
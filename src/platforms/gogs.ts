@@ -0,0 +1,338 @@
+import {
+  PlatformAPI,
+  TagOptions,
+  TagResult,
+  TagInfo,
+  TagSummary,
+  ListTagsOptions,
+  RepositoryInfo,
+  PlatformConfig,
+  RepoType,
+  PlatformCapabilities
+} from '../types';
+import { Logger } from '../logger';
+import { describeExistingTag } from '../tag-result';
+import { lookupRef, missingOn404 } from '../commit-lookup';
+import { TagCollector } from '../tag-collector';
+import { HttpClient } from './http-client';
+import { encodeRefPath } from '../ref-name';
+import { normalizeGiteaBaseUrl, fetchServerVersion } from './gitea';
+import {
+  isGitRepository,
+  getTagInfoRemote,
+  createTag as createTagLocal,
+  pushTag,
+  deleteTagRemote,
+  deleteTagLocally,
+  resolveCommitLocal,
+  getRemoteUrl
+} from '../git';
+import { capabilities as genericCapabilities } from './generic';
+
+/**
+ * Clone and web URLs reported for a repository
+ */
+interface GogsRepository {
+  clone_url?: string;
+  ssh_url?: string;
+  html_url?: string;
+}
+
+/**
+ * Gogs API client
+ *
+ * Gogs serves a Gitea-like /api/v1 for reads but has no endpoint for creating or
+ * deleting tags, so writes go through the Git CLI against the checked-out repository.
+ */
+export class GogsAPI implements PlatformAPI {
+  private client: HttpClient;
+  private repoInfo: RepositoryInfo;
+  private config: PlatformConfig;
+  private logger: Logger;
+  private originMatches?: boolean;
+
+  constructor(repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) {
+    if (!config.baseUrl) {
+      throw new Error('Gogs requires base_url or a repository URL to determine the server address');
+    }
+    this.client = new HttpClient(
+      {
+        baseUrl: normalizeGiteaBaseUrl(config.baseUrl),
+        token: config.token,
+        ignoreCertErrors: config.ignoreCertErrors,
+        verbose: config.verbose
+      },
+      logger
+    );
+    this.repoInfo = repoInfo;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  private get repoPath(): string {
+    return `/repos/${this.repoInfo.owner}/${this.repoInfo.repo}`;
+  }
+
+  /**
+   * Tag writes need a local clone to push from, whose origin is the repository the API addresses
+   */
+  private async requireLocalRepository(): Promise<void> {
+    if (!(await isGitRepository(this.logger))) {
+      throw new Error(
+        'Gogs has no API for creating or deleting tags; run the action in a checkout of the repository so the tag can be pushed with Git'
+      );
+    }
+    if (!(await this.originIsRepository())) {
+      throw new Error(
+        `origin is not the Gogs repository ${this.repoInfo.owner}/${this.repoInfo.repo}; run the action in a checkout of that repository so the tag is pushed to it`
+      );
+    }
+  }
+
+  /**
+   * Whether origin points at this repository (compared with its clone, SSH and web URLs)
+   */
+  private async originIsRepository(): Promise<boolean> {
+    if (this.originMatches === undefined) {
+      const origin = await getRemoteUrl('origin', this.logger);
+      const repo = await this.client.get<GogsRepository>(this.repoPath);
+      const urls = [repo?.clone_url, repo?.ssh_url, repo?.html_url].filter((url): url is string => !!url);
+      this.originMatches = !!origin && urls.some((url) => repositoryKey(url) === repositoryKey(origin));
+      if (!this.originMatches) {
+        this.logger.debug(`origin (${origin || 'not set'}) does not match ${urls.join(', ')}`);
+      }
+    }
+    return this.originMatches;
+  }
+
+  /**
+   * All tags with the commit they point to (the Gogs tags endpoint is not paginated)
+   */
+  private async fetchTags(): Promise<Array<{ name: string; commit: { sha: string } }>> {
+    const tags = await this.client.get<Array<{ name: string; commit: { sha: string } }>>(`${this.repoPath}/tags`);
+    return Array.isArray(tags) ? tags : [];
+  }
+
+  /**
+   * Check if a tag exists
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    return (await this.fetchTags()).some((tag) => tag.name === tagName);
+  }
+
+  /**
+   * Get a tag by exact name
+   * The Gogs API only reports the commit, so in a checkout of this repository the tag object, message and
+   * tagger are read from origin with Git; otherwise the tag is reported as lightweight.
+   */
+  async getTag(tagName: string): Promise<TagInfo | undefined> {
+    const tag = (await this.fetchTags()).find((t) => t.name === tagName);
+    if (!tag) {
+      return undefined;
+    }
+
+    if ((await isGitRepository(this.logger)) && (await this.originIsRepository())) {
+      try {
+        const remote = await getTagInfoRemote(tagName, 'origin', this.logger);
+        if (remote) {
+          return remote;
+        }
+      } catch (error) {
+        this.logger.debug(`Could not read tag ${tagName} from origin: ${error}`);
+      }
+    }
+    return { tagName, refSha: tag.commit.sha, commitSha: tag.commit.sha, type: 'lightweight' };
+  }
+
+  /**
+   * List tags
+   */
+  async listTags(options: ListTagsOptions = {}): Promise<TagSummary[]> {
+    const collector = new TagCollector(options);
+    for (const tag of await this.fetchTags()) {
+      collector.add({ tagName: tag.name, commitSha: tag.commit.sha });
+    }
+    return collector.tags;
+  }
+
+  /**
+   * Create a tag locally and push it
+   */
+  async createTag(options: TagOptions): Promise<TagResult> {
+    const { tagName, sha } = options;
+
+    this.logger.info(`Creating Gogs tag: ${tagName} at ${sha}`);
+    await this.requireLocalRepository();
+
+    // Check the server, not the local clone, for an existing tag
+    const existing = await this.getTag(tagName);
+    const exists = existing !== undefined;
+    if (existing && !options.force) {
+      this.logger.warning(`Tag ${tagName} already exists`);
+      return {
+        tagName,
+        sha,
+        ...describeExistingTag(existing),
+        exists: true,
+        created: false,
+        updated: false
+      };
+    }
+
+    const result = await createTagLocal(options, this.logger);
+
+    if (this.config.pushTag === false) {
+      this.logger.debug('push_tag is false, skipping tag push');
+    } else {
+      // Unlike the generic provider, a failed push is fatal: there is no API fallback
+      await pushTag(tagName, 'origin', this.config.token, options.force, this.logger);
+      this.logger.info(`Tag created successfully: ${tagName}`);
+    }
+
+    return {
+      ...result,
+      exists,
+      created: true,
+      updated: exists && options.force
+    };
+  }
+
+  /**
+   * Update a tag (force-push the recreated tag)
+   */
+  async updateTag(options: TagOptions): Promise<TagResult> {
+    return this.createTag({ ...options, force: true });
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    this.logger.info(`Deleting Gogs tag: ${tagName}`);
+    await this.requireLocalRepository();
+
+    if (await this.tagExists(tagName)) {
+      await deleteTagRemote(tagName, 'origin', this.config.token, this.logger);
+    } else {
+      this.logger.debug(`Tag ${tagName} does not exist, skipping remote delete`);
+    }
+    await deleteTagLocally(tagName, this.logger);
+  }
+
+  /**
+   * Get the HEAD SHA from the default branch
+   */
+  async getHeadSha(): Promise<string> {
+    const repo = await this.client.get<{ default_branch: string }>(this.repoPath);
+    const defaultBranch = repo.default_branch || 'master';
+
+    const branch = await this.client.get<{ name: string; commit: { id: string } }>(
+      `${this.repoPath}/branches/${encodeRefPath(defaultBranch)}`
+    );
+    if (!branch || !branch.commit || !branch.commit.id) {
+      throw new Error(`No commit found for branch ${defaultBranch}`);
+    }
+    return branch.commit.id;
+  }
+
+  /**
+   * Expand a (possibly abbreviated) SHA in the local clone the tag is created in
+   */
+  async resolveCommit(sha: string): Promise<string> {
+    await this.requireLocalRepository();
+    return resolveCommitLocal(sha, this.logger);
+  }
+
+  /**
+   * Resolve a branch, tag or refs/heads/ / refs/tags/ ref to the commit it points to
+   */
+  async resolveRef(ref: string): Promise<string> {
+    return lookupRef(ref, `${this.repoInfo.owner}/${this.repoInfo.repo}`, {
+      branch: async (name) => {
+        const branch = await missingOn404(() => this.client.get<{ commit: { id: string } }>(`${this.repoPath}/branches/${encodeRefPath(name)}`));
+        return branch?.commit.id;
+      },
+      tag: async (name) => (await this.getTag(name))?.commitSha
+    });
+  }
+}
+
+/**
+ * Gogs never reached 1.0 ("0.13.0"); Gitea started at 1.0 and Forgejo carries a "+gitea-" suffix
+ */
+export function isGogsVersion(version: string): boolean {
+  return /^0\.\d+/.test(version.trim());
+}
+
+/**
+ * Tags are written with the Git CLI, so Gogs can do what the generic Git provider does (neither has a releases API)
+ */
+export const capabilities: PlatformCapabilities = { ...genericCapabilities };
+
+/**
+ * Host and path of a clone URL (https://host/owner/repo.git or git@host:owner/repo.git), for comparing remotes
+ */
+function repositoryKey(remoteUrl: string): string {
+  const scp = remoteUrl.match(/^[^@/]+@([^:/]+):(.+)$/);
+  let host = '';
+  let path = remoteUrl;
+  if (scp) {
+    [, host, path] = scp;
+  } else {
+    try {
+      const url = new URL(remoteUrl);
+      host = url.hostname;
+      path = url.pathname;
+    } catch {
+      // Not a URL (e.g. a local path): compare as given
+    }
+  }
+  return `${host}/${path.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '')}`.toLowerCase();
+}
+
+export function detectFromUrlByHostname(url: URL): RepoType | undefined {
+  const hostname = url.hostname.toLowerCase();
+  if (hostname.includes('gogs')) {
+    return 'gogs';
+  }
+  return undefined;
+}
+
+export async function detectFromUrl(url: URL, logger: Logger): Promise<RepoType | undefined> {
+  const base = `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}`;
+  const version = await fetchServerVersion(base, logger);
+  if (version && isGogsVersion(version)) {
+    return 'gogs';
+  }
+  return undefined;
+}
+
+export function determineBaseUrl(urls: string | string[]): string | undefined {
+  const urlArray = Array.isArray(urls) ? urls : [urls];
+
+  // Check if first URL is an explicit API URL (contains /api)
+  if (urlArray.length > 0 && urlArray[0]) {
+    try {
+      const url = new URL(urlArray[0]);
+      if (url.pathname.includes('/api')) {
+        return urlArray[0];
+      }
+    } catch {
+      // Not a valid URL, continue
+    }
+  }
+
+  // Check repository/origin URLs to derive API URL
+  for (const urlStr of urlArray) {
+    if (!urlStr) continue;
+    try {
+      const url = new URL(urlStr);
+      return `${url.protocol}//${url.hostname}${url.port ? `:${url.port}` : ''}/api/v1`;
+    } catch {
+      // Not a valid URL, skip
+    }
+  }
+
+  // Gogs has no default host
+  return undefined;
+}
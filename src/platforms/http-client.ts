@@ -1,4 +1,4 @@
-import { HttpClientOptions } from '../types';
+import { HttpClientOptions, HttpAuthScheme, HttpResponse } from '../types';
 import { Logger } from '../logger';
 
 /**
@@ -7,16 +7,64 @@ import { Logger } from '../logger';
 export class HttpClient {
   private baseUrl: string;
   private token?: string;
+  private authScheme: HttpAuthScheme;
+  private authHeaderName: string;
+  private authHeaderFormat: string;
+  private authQueryParam: string;
   private ignoreCertErrors: boolean;
   private logger: Logger;
 
   constructor(options: HttpClientOptions, logger: Logger) {
     this.baseUrl = options.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.token = options.token;
+    this.authScheme = options.authScheme || 'token';
+    this.authHeaderName = options.authHeaderName || 'Authorization';
+    this.authHeaderFormat = options.authHeaderFormat || '{token}';
+    this.authQueryParam = options.authQueryParam || 'access_token';
     this.ignoreCertErrors = options.ignoreCertErrors;
     this.logger = logger;
   }
 
+  /**
+   * Build the authentication headers for the configured auth scheme
+   */
+  private authHeaders(): Record<string, string> {
+    if (!this.token) {
+      return {};
+    }
+    switch (this.authScheme) {
+      case 'query':
+        return {}; // Sent in the URL, see requestUrl()
+      case 'header':
+        return { [this.authHeaderName]: this.authHeaderFormat.replace(/\{token\}/g, this.token) };
+      case 'bearer':
+        return { 'Authorization': `Bearer ${this.token}` };
+      case 'private-token':
+        return { 'PRIVATE-TOKEN': this.token };
+      case 'job-token':
+        return { 'JOB-TOKEN': this.token };
+      case 'basic': {
+        const credentials = this.token.includes(':') ? this.token : `:${this.token}`;
+        return { 'Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+      }
+      case 'token':
+      default:
+        return { 'Authorization': `token ${this.token}` };
+    }
+  }
+
+  /**
+   * Build the request URL, appending the token for the query auth scheme
+   */
+  private requestUrl(path: string): string {
+    const url = `${this.baseUrl}${path}`;
+    if (this.authScheme !== 'query' || !this.token) {
+      return url;
+    }
+    const separator = url.includes('?') ? '&' : '?';
+    return `${url}${separator}${encodeURIComponent(this.authQueryParam)}=${encodeURIComponent(this.token)}`;
+  }
+
   /**
    * Make HTTP request
    */
@@ -25,22 +73,32 @@ export class HttpClient {
     path: string,
     body?: unknown
   ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
+    const response = await this.requestWithResponse<T>(method, path, body);
+    return response.body;
+  }
+
+  /**
+   * Make HTTP request and return the status and headers along with the parsed body
+   */
+  async requestWithResponse<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<HttpResponse<T>> {
+    const url = this.requestUrl(path);
+    const authHeaders = this.authHeaders();
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      'Accept': 'application/json'
+      'Accept': 'application/json',
+      ...authHeaders
     };
 
-    if (this.token) {
-      headers['Authorization'] = `token ${this.token}`;
-    }
-
     // Log HTTP request (only if verbose is enabled)
-    this.logger.debug(`HTTP ${method} ${url}`);
+    this.logger.debug(`HTTP ${method} ${this.baseUrl}${path}`); // Without the query token
     if (this.logger.verbose && headers) {
       const sanitizedHeaders = { ...headers };
-      if (sanitizedHeaders.Authorization) {
-        sanitizedHeaders.Authorization = '***';
+      for (const name of Object.keys(authHeaders)) {
+        sanitizedHeaders[name] = '***';
       }
       this.logger.debug(`Headers: ${JSON.stringify(sanitizedHeaders, null, 2)}`);
     }
@@ -63,9 +121,12 @@ export class HttpClient {
       const response = await fetch(url, fetchOptions);
       const responseText = await response.text();
       
+      // Gerrit prefixes JSON responses with an XSSI guard line: )]}'
+      const jsonText = responseText.startsWith(")]}'") ? responseText.slice(4) : responseText;
+
       let responseBody: unknown;
       try {
-        responseBody = JSON.parse(responseText);
+        responseBody = JSON.parse(jsonText);
       } catch {
         responseBody = responseText;
       }
@@ -82,7 +143,7 @@ export class HttpClient {
         );
       }
 
-      return responseBody as T;
+      return { status: response.status, headers: response.headers, body: responseBody as T };
     } catch (error) {
       if (error instanceof Error) {
         if (error.message.includes('certificate') || error.message.includes('SSL')) {
@@ -105,6 +166,24 @@ export class HttpClient {
     return this.request<T>('GET', path);
   }
 
+  /**
+   * GET request returning status and headers as well as the body
+   */
+  async getWithResponse<T>(path: string): Promise<HttpResponse<T>> {
+    return this.requestWithResponse<T>('GET', path);
+  }
+
+  /**
+   * Turn an absolute URL returned by the API (e.g. a next-page link) back into a request path
+   * Returns undefined for URLs outside the base URL so the token is never sent elsewhere
+   */
+  pathFromUrl(url: string): string | undefined {
+    if (url.startsWith(`${this.baseUrl}/`)) {
+      return url.slice(this.baseUrl.length);
+    }
+    return undefined;
+  }
+
   /**
    * POST request
    */
@@ -112,6 +191,20 @@ export class HttpClient {
     return this.request<T>('POST', path, body);
   }
 
+  /**
+   * PUT request
+   */
+  async put<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PUT', path, body);
+  }
+
+  /**
+   * PATCH request
+   */
+  async patch<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PATCH', path, body);
+  }
+
   /**
    * DELETE request
    */
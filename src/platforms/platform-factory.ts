@@ -1,42 +1,140 @@
 import * as exec from '@actions/exec';
-import { RepoType, RepositoryInfo, PlatformAPI, PlatformConfig } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { load as loadYaml } from 'js-yaml';
+import { RepoType, RepositoryInfo, PlatformAPI, PlatformConfig, PlatformCapabilities } from '../types';
 import { Logger } from '../logger';
-import { GitHubAPI, detectFromUrlByHostname as detectGithubFromUrlByHostname, detectFromUrl as detectGithubFromUrl, determineBaseUrl as determineGithubBaseUrl } from './github';
-import { GiteaAPI, detectFromUrlByHostname as detectGiteaFromUrlByHostname, detectFromUrl as detectGiteaFromUrl, determineBaseUrl as determineGiteaBaseUrl } from './gitea';
-import { BitbucketAPI, detectFromUrlByHostname as detectBitbucketFromUrlByHostname, detectFromUrl as detectBitbucketFromUrl, determineBaseUrl as determineBitbucketBaseUrl } from './bitbucket';
-import { GenericGitAPI, detectFromUrlByHostname as detectGenericFromUrlByHostname, detectFromUrl as detectGenericFromUrl, determineBaseUrl as determineGenericBaseUrl } from './generic';
+import { DEFAULT_PLUGIN_CAPABILITIES } from '../capabilities';
+import { resolveToken } from '../config';
+import { parseRepository } from '../repo-utils';
+import { GitHubAPI, detectFromUrlByHostname as detectGithubFromUrlByHostname, detectFromUrl as detectGithubFromUrl, determineBaseUrl as determineGithubBaseUrl, capabilities as githubCapabilities } from './github';
+import { GiteaAPI, detectFromUrlByHostname as detectGiteaFromUrlByHostname, detectFromUrl as detectGiteaFromUrl, determineBaseUrl as determineGiteaBaseUrl, capabilities as giteaCapabilities } from './gitea';
+import { ForgejoAPI, detectFromUrlByHostname as detectForgejoFromUrlByHostname, detectFromUrl as detectForgejoFromUrl, determineBaseUrl as determineForgejoBaseUrl, capabilities as forgejoCapabilities } from './forgejo';
+import { GogsAPI, detectFromUrlByHostname as detectGogsFromUrlByHostname, detectFromUrl as detectGogsFromUrl, determineBaseUrl as determineGogsBaseUrl, capabilities as gogsCapabilities } from './gogs';
+import { GiteeAPI, detectFromUrlByHostname as detectGiteeFromUrlByHostname, detectFromUrl as detectGiteeFromUrl, determineBaseUrl as determineGiteeBaseUrl, capabilities as giteeCapabilities } from './gitee';
+import { GitLabAPI, detectFromUrlByHostname as detectGitlabFromUrlByHostname, detectFromUrl as detectGitlabFromUrl, determineBaseUrl as determineGitlabBaseUrl, capabilities as gitlabCapabilities } from './gitlab';
+import { AzureDevOpsAPI, detectFromUrlByHostname as detectAzureDevOpsFromUrlByHostname, detectFromUrl as detectAzureDevOpsFromUrl, determineBaseUrl as determineAzureDevOpsBaseUrl, capabilities as azureDevOpsCapabilities } from './azure-devops';
+import { BitbucketAPI, detectFromUrlByHostname as detectBitbucketFromUrlByHostname, detectFromUrl as detectBitbucketFromUrl, determineBaseUrl as determineBitbucketBaseUrl, capabilities as bitbucketCapabilities } from './bitbucket';
+import { BitbucketServerAPI, detectFromUrlByHostname as detectBitbucketServerFromUrlByHostname, detectFromUrl as detectBitbucketServerFromUrl, determineBaseUrl as determineBitbucketServerBaseUrl, capabilities as bitbucketServerCapabilities } from './bitbucket-server';
+import { GerritAPI, detectFromUrlByHostname as detectGerritFromUrlByHostname, detectFromUrl as detectGerritFromUrl, determineBaseUrl as determineGerritBaseUrl, capabilities as gerritCapabilities } from './gerrit';
+import { CodeCommitAPI, detectFromUrlByHostname as detectCodeCommitFromUrlByHostname, detectFromUrl as detectCodeCommitFromUrl, determineBaseUrl as determineCodeCommitBaseUrl, capabilities as codeCommitCapabilities } from './codecommit';
+import { createDeclarativeProvider } from './declarative';
+import { GenericGitAPI, detectFromUrlByHostname as detectGenericFromUrlByHostname, detectFromUrl as detectGenericFromUrl, determineBaseUrl as determineGenericBaseUrl, capabilities as genericCapabilities } from './generic';
 
-interface PlatformProvider {
+/**
+ * A platform implementation: detection, base URL resolution and API construction.
+ * Custom providers can be loaded from a local module through the platform_plugin input.
+ */
+export interface PlatformProvider {
   type: RepoType;
   detectFromUrlByHostname: (url: URL) => RepoType | undefined;
   detectFromUrl: (url: URL, logger: Logger) => Promise<RepoType | undefined>;
   createAPI: (repoInfo: RepositoryInfo, config: PlatformConfig, logger: Logger) => PlatformAPI;
+  determineBaseUrl: (urls: string | string[]) => string | undefined;
+  capabilities: PlatformCapabilities;
 }
 
 const platformProviders: PlatformProvider[] = [
+  {
+    // First so that Azure DevOps Server (often on a custom host) is matched by its /_git/ URL shape
+    // before other providers probe the host
+    type: 'azure-devops',
+    detectFromUrlByHostname: detectAzureDevOpsFromUrlByHostname,
+    detectFromUrl: detectAzureDevOpsFromUrl,
+    createAPI: (repoInfo, config, logger) => new AzureDevOpsAPI(repoInfo, config, logger),
+    determineBaseUrl: determineAzureDevOpsBaseUrl,
+    capabilities: azureDevOpsCapabilities
+  },
+  {
+    // Before gitea: Forgejo also answers the Gitea /api/v1/version probe
+    type: 'forgejo',
+    detectFromUrlByHostname: detectForgejoFromUrlByHostname,
+    detectFromUrl: detectForgejoFromUrl,
+    createAPI: (repoInfo, config, logger) => new ForgejoAPI(repoInfo, config, logger),
+    determineBaseUrl: determineForgejoBaseUrl,
+    capabilities: forgejoCapabilities
+  },
+  {
+    // Before gitea: Gogs also answers /api/v1/version but cannot create tags through the API
+    type: 'gogs',
+    detectFromUrlByHostname: detectGogsFromUrlByHostname,
+    detectFromUrl: detectGogsFromUrl,
+    createAPI: (repoInfo, config, logger) => new GogsAPI(repoInfo, config, logger),
+    determineBaseUrl: determineGogsBaseUrl,
+    capabilities: gogsCapabilities
+  },
   {
     type: 'gitea',
     detectFromUrlByHostname: detectGiteaFromUrlByHostname,
     detectFromUrl: detectGiteaFromUrl,
-    createAPI: (repoInfo, config, logger) => new GiteaAPI(repoInfo, config, logger)
+    createAPI: (repoInfo, config, logger) => new GiteaAPI(repoInfo, config, logger),
+    determineBaseUrl: determineGiteaBaseUrl,
+    capabilities: giteaCapabilities
+  },
+  {
+    type: 'gitee',
+    detectFromUrlByHostname: detectGiteeFromUrlByHostname,
+    detectFromUrl: detectGiteeFromUrl,
+    createAPI: (repoInfo, config, logger) => new GiteeAPI(repoInfo, config, logger),
+    determineBaseUrl: determineGiteeBaseUrl,
+    capabilities: giteeCapabilities
+  },
+  {
+    type: 'gerrit',
+    detectFromUrlByHostname: detectGerritFromUrlByHostname,
+    detectFromUrl: detectGerritFromUrl,
+    createAPI: (repoInfo, config, logger) => new GerritAPI(repoInfo, config, logger),
+    determineBaseUrl: determineGerritBaseUrl,
+    capabilities: gerritCapabilities
+  },
+  {
+    type: 'gitlab',
+    detectFromUrlByHostname: detectGitlabFromUrlByHostname,
+    detectFromUrl: detectGitlabFromUrl,
+    createAPI: (repoInfo, config, logger) => new GitLabAPI(repoInfo, config, logger),
+    determineBaseUrl: determineGitlabBaseUrl,
+    capabilities: gitlabCapabilities
   },
   {
     type: 'github',
     detectFromUrlByHostname: detectGithubFromUrlByHostname,
     detectFromUrl: detectGithubFromUrl,
-    createAPI: (repoInfo, config, logger) => new GitHubAPI(repoInfo, config, logger)
+    createAPI: (repoInfo, config, logger) => new GitHubAPI(repoInfo, config, logger),
+    determineBaseUrl: determineGithubBaseUrl,
+    capabilities: githubCapabilities
+  },
+  {
+    type: 'bitbucket-server',
+    detectFromUrlByHostname: detectBitbucketServerFromUrlByHostname,
+    detectFromUrl: detectBitbucketServerFromUrl,
+    createAPI: (repoInfo, config, logger) => new BitbucketServerAPI(repoInfo, config, logger),
+    determineBaseUrl: determineBitbucketServerBaseUrl,
+    capabilities: bitbucketServerCapabilities
   },
   {
     type: 'bitbucket',
     detectFromUrlByHostname: detectBitbucketFromUrlByHostname,
     detectFromUrl: detectBitbucketFromUrl,
-    createAPI: (repoInfo, config, logger) => new BitbucketAPI(repoInfo, config, logger)
+    createAPI: (repoInfo, config, logger) => new BitbucketAPI(repoInfo, config, logger),
+    determineBaseUrl: determineBitbucketBaseUrl,
+    capabilities: bitbucketCapabilities
+  },
+  {
+    type: 'codecommit',
+    detectFromUrlByHostname: detectCodeCommitFromUrlByHostname,
+    detectFromUrl: detectCodeCommitFromUrl,
+    createAPI: (repoInfo, config, logger) => new CodeCommitAPI(repoInfo, config, logger),
+    determineBaseUrl: determineCodeCommitBaseUrl,
+    capabilities: codeCommitCapabilities
   },
   {
     type: 'generic',
     detectFromUrlByHostname: detectGenericFromUrlByHostname,
     detectFromUrl: detectGenericFromUrl,
-    createAPI: (repoInfo, config, logger) => new GenericGitAPI(repoInfo, config, logger)
+    createAPI: (repoInfo, config, logger) => new GenericGitAPI(repoInfo, config, logger),
+    determineBaseUrl: determineGenericBaseUrl,
+    capabilities: genericCapabilities
   }
 ];
 
@@ -75,8 +173,11 @@ async function collectCandidateUrls(repoInfo: RepositoryInfo, logger: Logger): P
   // Add environment variable URLs
   const envUrls = [
     process.env.GITHUB_SERVER_URL,
+    process.env.FORGEJO_SERVER_URL,
     process.env.GITEA_SERVER_URL,
-    process.env.GITEA_API_URL
+    process.env.GITEA_API_URL,
+    process.env.CI_SERVER_URL,
+    process.env.SYSTEM_COLLECTIONURI
   ].filter((url): url is string => !!url);
 
   for (const envUrl of envUrls) {
@@ -92,6 +193,7 @@ async function collectCandidateUrls(repoInfo: RepositoryInfo, logger: Logger): P
 async function resolvePlatform(
   repoInfo: RepositoryInfo,
   repoType: RepoType,
+  providers: PlatformProvider[],
   logger: Logger
 ): Promise<RepoType> {
   if (repoType !== 'auto') {
@@ -111,7 +213,7 @@ async function resolvePlatform(
       const url = new URL(urlStr);
 
       // Try detectFromUrlByHostname from each provider
-      for (const provider of platformProviders) {
+      for (const provider of providers) {
         const detected = provider.detectFromUrlByHostname(url);
         if (detected) {
           logger.debug(`Detected platform ${detected} from hostname: ${url.hostname} (URL: ${urlStr})`);
@@ -128,7 +230,7 @@ async function resolvePlatform(
     try {
       const url = new URL(urlStr);
       // Try detectFromUrl from each provider (excluding generic)
-      for (const provider of platformProviders) {
+      for (const provider of providers) {
         if (provider.type === 'generic') {
           continue; // Skip generic - it always returns undefined
         }
@@ -147,6 +249,12 @@ async function resolvePlatform(
   return 'generic';
 }
 
+/**
+ * Detect the platform and create its API
+ *
+ * A blank token is resolved from the detected platform's environment variables (CI_JOB_TOKEN, GITEE_TOKEN, ...),
+ * so it has to happen here rather than before detection; the resolved token is returned for Git pushes.
+ */
 export async function createPlatformAPI(
   repoInfo: RepositoryInfo,
   repoType: RepoType,
@@ -156,13 +264,31 @@ export async function createPlatformAPI(
     ignoreCertErrors: boolean;
     verbose: boolean;
     pushTag?: boolean;
+    plugins?: PlatformProvider[];
   },
   logger: Logger
-): Promise<{ platform: RepoType; api: PlatformAPI; baseUrl?: string }> {
-  const platform = await resolvePlatform(repoInfo, repoType, logger);
+): Promise<{ platform: RepoType; api: PlatformAPI; baseUrl?: string; capabilities: PlatformCapabilities; token?: string }> {
+  // Plugins are tried before the built-in providers so they can claim hosts the built-ins would also match
+  const providers = [...(config.plugins || []), ...platformProviders];
+  const platform = await resolvePlatform(repoInfo, repoType, providers, logger);
 
-  // Find the provider for the resolved platform
-  const provider = platformProviders.find(p => p.type === platform) || platformProviders.find(p => p.type === 'generic')!;
+  // Find the provider for the resolved platform ('git' is an alias for generic)
+  const matched = providers.find(p => p.type === platform);
+  if (!matched && platform !== 'git' && platform !== 'generic') {
+    throw new Error(`No platform provider registered for repo_type: ${platform}`);
+  }
+  const provider = matched || providers.find(p => p.type === 'generic')!;
+
+  // Owner/repo rules differ per platform (Bitbucket Server /scm/ paths, GitLab nested groups, Gerrit projects
+  // without an owner), so read the repository URL again once the platform is known
+  if (repoInfo.url && platform !== 'generic' && platform !== 'git') {
+    const parsed = parseRepository(repoInfo.url, logger, platform);
+    if (!parsed) {
+      throw new Error(`Invalid repository ${repoInfo.url}: ${platform} repositories must be given as {owner}/{repo}`);
+    }
+    repoInfo.owner = parsed.owner;
+    repoInfo.repo = parsed.repo;
+  }
 
   // Collect candidate URLs for base URL determination
   const candidateUrls = await collectCandidateUrls(repoInfo, logger);
@@ -170,28 +296,13 @@ export async function createPlatformAPI(
   // If explicit baseUrl is provided, prepend it to the array
   const urlsForBaseUrl = config.baseUrl ? [config.baseUrl, ...candidateUrls] : candidateUrls;
   
-  // Determine base URL using the platform's internal function (not part of interface)
-  let determineBaseUrlFn: (urls: string | string[]) => string | undefined;
-  switch (platform) {
-    case 'github':
-      determineBaseUrlFn = determineGithubBaseUrl;
-      break;
-    case 'gitea':
-      determineBaseUrlFn = determineGiteaBaseUrl;
-      break;
-    case 'bitbucket':
-      determineBaseUrlFn = determineBitbucketBaseUrl;
-      break;
-    default:
-      determineBaseUrlFn = determineGenericBaseUrl;
-      break;
-  }
-  const baseUrl = determineBaseUrlFn(urlsForBaseUrl);
+  // Determine base URL using the provider's platform-specific function
+  const baseUrl = provider.determineBaseUrl(urlsForBaseUrl);
 
   const platformConfig: PlatformConfig = {
     type: platform,
     baseUrl,
-    token: config.token,
+    token: resolveToken(config.token, platform),
     ignoreCertErrors: config.ignoreCertErrors,
     verbose: config.verbose,
     pushTag: config.pushTag
@@ -199,5 +310,90 @@ export async function createPlatformAPI(
 
   const api = provider.createAPI(repoInfo, platformConfig, logger);
 
-  return { platform, api, baseUrl };
+  return { platform, api, baseUrl, capabilities: provider.capabilities, token: platformConfig.token };
+}
+
+const REQUIRED_PROVIDER_FUNCTIONS = ['detectFromUrlByHostname', 'detectFromUrl', 'createAPI', 'determineBaseUrl'] as const;
+const REQUIRED_API_METHODS = ['tagExists', 'getTag', 'listTags', 'createTag', 'updateTag', 'deleteTag', 'getHeadSha', 'resolveCommit', 'resolveRef'] as const;
+
+/**
+ * Validate a platform provider supplied by a plugin module
+ * Returns the provider with createAPI wrapped so that the returned object is checked as well
+ */
+export function validatePlatformProvider(candidate: unknown, source: string): PlatformProvider {
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error(`Invalid platform_plugin ${source}: module must export a PlatformProvider object`);
+  }
+  const provider = candidate as Record<string, unknown>;
+
+  if (typeof provider.type !== 'string' || provider.type.trim() === '') {
+    throw new Error(`Invalid platform_plugin ${source}: 'type' must be a non-empty string`);
+  }
+  if (['auto', 'git'].includes(provider.type) || platformProviders.some(p => p.type === provider.type)) {
+    throw new Error(`Invalid platform_plugin ${source}: type '${provider.type}' is already used by a built-in platform`);
+  }
+  for (const name of REQUIRED_PROVIDER_FUNCTIONS) {
+    if (typeof provider[name] !== 'function') {
+      throw new Error(`Invalid platform_plugin ${source}: '${name}' must be a function`);
+    }
+  }
+
+  if (provider.capabilities !== undefined && (!provider.capabilities || typeof provider.capabilities !== 'object')) {
+    throw new Error(`Invalid platform_plugin ${source}: 'capabilities' must be an object`);
+  }
+
+  const plugin = provider as unknown as PlatformProvider;
+  return {
+    type: plugin.type,
+    // Plugins that do not declare capabilities are assumed to support plain annotated and lightweight tags only
+    capabilities: { ...DEFAULT_PLUGIN_CAPABILITIES, ...plugin.capabilities },
+    detectFromUrlByHostname: (url) => plugin.detectFromUrlByHostname(url),
+    detectFromUrl: (url, logger) => plugin.detectFromUrl(url, logger),
+    determineBaseUrl: (urls) => plugin.determineBaseUrl(urls),
+    createAPI: (repoInfo, config, logger) => {
+      const api = plugin.createAPI(repoInfo, config, logger);
+      const missing = REQUIRED_API_METHODS.filter(name => !api || typeof api[name] !== 'function');
+      if (missing.length > 0) {
+        throw new Error(`Invalid platform_plugin ${source}: createAPI() result is missing ${missing.join(', ')}`);
+      }
+      return api;
+    }
+  };
+}
+
+/**
+ * Load a platform provider from a local CommonJS module or a .yml/.yaml/.json descriptor (platform_plugin input)
+ * The module may export the provider directly (module.exports = provider) or as its default export.
+ * Relative paths are resolved from the workspace.
+ */
+export function loadPlatformPlugin(modulePath: string, logger: Logger): PlatformProvider {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const resolvedPath = path.resolve(workspace, modulePath);
+  logger.debug(`Loading platform plugin: ${resolvedPath}`);
+
+  if (/\.(ya?ml|json)$/i.test(resolvedPath)) {
+    let descriptor: unknown;
+    try {
+      // JSON is a subset of YAML, so one parser handles both
+      descriptor = loadYaml(fs.readFileSync(resolvedPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to load platform_plugin ${modulePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    const provider = validatePlatformProvider(createDeclarativeProvider(descriptor, modulePath), modulePath);
+    logger.info(`Loaded platform descriptor '${provider.type}' from ${modulePath}`);
+    return provider;
+  }
+
+  let loaded: unknown;
+  try {
+    // createRequire keeps the bundler from trying to resolve the plugin at build time
+    loaded = createRequire(__filename)(resolvedPath);
+  } catch (error) {
+    throw new Error(`Failed to load platform_plugin ${modulePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const exported = (loaded as { default?: unknown } | undefined)?.default ?? loaded;
+  const provider = validatePlatformProvider(exported, modulePath);
+  logger.info(`Loaded platform plugin '${provider.type}' from ${modulePath}`);
+  return provider;
 }
@@ -0,0 +1,121 @@
+import { RepoType } from './types';
+
+/**
+ * URL-encode a ref name for use in a path, keeping the slashes of hierarchical names (release/1.2.0) as separators
+ */
+export function encodeRefPath(name: string): string {
+  return name.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Characters git check-ref-format rejects anywhere in a ref name, besides control characters
+ */
+const FORBIDDEN_REF_CHARACTERS = new Set([' ', '~', '^', ':', '?', '*', '[', '\\']);
+
+/**
+ * Invisible and bidirectional formatting characters: valid in a ref, but they make a tag name display as a different one
+ */
+const INVISIBLE_CHARACTERS = /[\u00ad\u061c\u180e\u200b-\u200f\u202a-\u202e\u2060-\u2064\u2066-\u2069\ufeff]/;
+
+/**
+ * A tag name restriction a platform enforces on top of git's rules
+ */
+interface TagNameRule {
+  test: (tagName: string) => boolean;
+  reason: string;
+}
+
+const PLATFORM_TAG_NAME_RULES: Partial<Record<RepoType, TagNameRule[]>> = {
+  gitlab: [
+    { test: (name) => /^refs\/(heads|remotes|tags)\//.test(name), reason: 'GitLab rejects tag names starting with refs/heads/, refs/remotes/ or refs/tags/' },
+    { test: (name) => name === 'HEAD', reason: 'GitLab rejects the tag name HEAD' },
+    { test: (name) => /^([0-9a-f]{40}|[0-9a-f]{64})$/i.test(name), reason: 'GitLab rejects tag names that look like a commit SHA' }
+  ],
+  gerrit: [
+    { test: (name) => name.startsWith('refs/tags/'), reason: 'Gerrit strips a leading refs/tags/, so the tag would be created under a different name' }
+  ]
+};
+
+/**
+ * Describe a character for an error message, spelling out the ones that do not print
+ */
+function describeCharacter(char: string): string {
+  if (char === ' ') {
+    return 'a space';
+  }
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x20 || code === 0x7f || INVISIBLE_CHARACTERS.test(char)) {
+    return `U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+  }
+  return `'${char}'`;
+}
+
+/**
+ * Check a tag name against the git check-ref-format rules for refs/tags/<name>
+ * Returns the rule the name breaks ("cannot contain '..'"), or undefined when git accepts it
+ */
+export function findRefFormatViolation(tagName: string): string | undefined {
+  if (tagName === '') {
+    return 'cannot be empty';
+  }
+  if (tagName === '@') {
+    return 'cannot be the single character @';
+  }
+  for (const char of tagName) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x20 || code === 0x7f || FORBIDDEN_REF_CHARACTERS.has(char)) {
+      return `cannot contain ${describeCharacter(char)}`;
+    }
+  }
+  if (tagName.includes('..')) {
+    return "cannot contain '..'";
+  }
+  if (tagName.includes('@{')) {
+    return "cannot contain '@{'";
+  }
+  if (tagName.startsWith('/') || tagName.endsWith('/') || tagName.includes('//')) {
+    return 'cannot start or end with a slash or contain empty path components';
+  }
+  if (tagName.endsWith('.')) {
+    return 'cannot end with a dot';
+  }
+  for (const component of tagName.split('/')) {
+    if (component.startsWith('.')) {
+      return `cannot have a path component starting with a dot (${component})`;
+    }
+    if (component.endsWith('.lock')) {
+      return `cannot have a path component ending with .lock (${component})`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a tag name to Unicode NFC and validate it
+ *
+ * Besides the git check-ref-format rules, names cannot start with a dash (git tag would read them as an option)
+ * or contain invisible and bidirectional formatting characters. NFC keeps a name typed on macOS (which
+ * decomposes accents) from creating a second tag that looks identical to an existing one.
+ */
+export function normalizeTagName(tagName: string): string {
+  const normalized = tagName.normalize('NFC');
+  const invisible = normalized.match(INVISIBLE_CHARACTERS);
+
+  const violation = findRefFormatViolation(normalized)
+    ?? (normalized.startsWith('-') ? 'cannot start with a dash' : undefined)
+    ?? (invisible ? `cannot contain the invisible character ${describeCharacter(invisible[0])}` : undefined);
+  if (violation) {
+    throw new Error(`Invalid tag name: ${JSON.stringify(tagName)}. Tag names ${violation}.`);
+  }
+  return normalized;
+}
+
+/**
+ * Enforce the tag name restrictions a platform adds on top of git's rules
+ */
+export function checkPlatformTagName(tagName: string, platform: RepoType): void {
+  const rule = PLATFORM_TAG_NAME_RULES[platform]?.find((candidate) => candidate.test(tagName));
+  if (rule) {
+    throw new Error(`Invalid tag name for ${platform}: ${tagName}. ${rule.reason}.`);
+  }
+}
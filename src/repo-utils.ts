@@ -3,12 +3,20 @@ import * as io from '@actions/io';
 import { RepoType, RepositoryInfo } from './types';
 import { Logger } from './logger';
 
+// Hosts of platforms that always address repositories as {owner}/{repo}: a /scm/ or /projects/ path there is
+// an ordinary owner, not Bitbucket Server, and a single path segment is not a (Gerrit) project
+const OWNER_REPO_HOST = /(^|\.)(github\.com|gitlab\.|gitea\.|forgejo\.|codeberg\.org|gitee\.com|bitbucket\.org)/i;
+
 /**
  * Parse repository URL or owner/repo format
+ * repoType is the explicit or detected platform: 'gitlab' reads every path segment but the last as the owner,
+ * Bitbucket Server paths are only recognised for 'bitbucket-server' and single-segment projects without an owner
+ * only for 'gerrit' and 'codecommit' ('auto' accepts both on unknown hosts until the platform is detected).
  */
 export function parseRepository(
   repository: string | undefined,
-  logger: Logger
+  logger: Logger,
+  repoType: RepoType = 'auto'
 ): RepositoryInfo | undefined {
   if (!repository) {
     return undefined;
@@ -16,15 +24,96 @@ export function parseRepository(
 
   logger.debug(`Parsing repository: ${repository}`);
 
+  // AWS CodeCommit git-remote-codecommit URLs: codecommit::{region}://[profile@]{repo} or codecommit://[profile@]{repo}
+  // The region is kept as the owner (empty when it comes from the AWS environment)
+  const codeCommitMatch = repository.match(/^codecommit:(?::([a-z0-9-]+):)?\/\/(?:[^@/]+@)?([^/]+)$/);
+  if (codeCommitMatch) {
+    const owner = codeCommitMatch[1] || '';
+    const repo = codeCommitMatch[2];
+    logger.debug(`Parsed CodeCommit URL: ${repository} -> ${owner}/${repo}`);
+    return {
+      owner,
+      repo,
+      url: repository,
+      platform: 'auto' // Platform detection is handled by the factory
+    };
+  }
+
   // Try to parse as URL first
   try {
     const url = new URL(repository);
 
-    // Extract owner/repo from path
-    const pathParts = url.pathname.split('/').filter(p => p);
+    const allParts = url.pathname.split('/').filter(p => p);
+
+    // Azure DevOps: {organization}/{project}/_git/{repo} (or {collection}/{project}/_git/{repo} on Server)
+    const azureGitIndex = allParts.indexOf('_git');
+    if (azureGitIndex > 0 && azureGitIndex < allParts.length - 1) {
+      const owner = allParts.slice(0, azureGitIndex).join('/');
+      const repo = allParts[azureGitIndex + 1].replace(/\.git$/, '');
+
+      logger.debug(`Parsed Azure DevOps URL: ${url.href} -> ${owner}/${repo}`);
+
+      return {
+        owner,
+        repo,
+        url: url.href,
+        platform: 'auto' // Platform detection is handled by the factory
+      };
+    }
+
+    // AWS CodeCommit HTTPS: git-codecommit.{region}.amazonaws.com/v1/repos/{repo}
+    const codeCommitHostMatch = url.hostname.toLowerCase().match(/^git-codecommit(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com(?:\.cn)?$/);
+    if (codeCommitHostMatch && allParts.length === 3 && allParts[0] === 'v1' && allParts[1] === 'repos') {
+      const owner = codeCommitHostMatch[1];
+      const repo = allParts[2].replace(/\.git$/, '');
+
+      logger.debug(`Parsed CodeCommit URL: ${url.href} -> ${owner}/${repo}`);
+
+      return {
+        owner,
+        repo,
+        url: url.href,
+        platform: 'auto' // Platform detection is handled by the factory
+      };
+    }
+
+    // Bitbucket Server: [context]/scm/{project}/{repo}.git, [context]/projects/{project}/repos/{repo}/...
+    // or [context]/users/{user}/repos/{repo}/... (personal repositories use the ~{user} project key)
+    const bitbucketServer =
+      repoType === 'bitbucket-server' || (repoType === 'auto' && !OWNER_REPO_HOST.test(url.hostname));
+    const bitbucketServerMatch =
+      bitbucketServer && (
+        url.pathname.match(/\/scm\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/) ||
+        url.pathname.match(/\/projects\/([^/]+)\/repos\/([^/]+)(?:\/|$)/) ||
+        url.pathname.replace(/\/users\/([^/]+)\/repos\//, '/projects/~$1/repos/').match(/\/projects\/(~[^/]+)\/repos\/([^/]+)(?:\/|$)/)
+      );
+    if (bitbucketServerMatch) {
+      const owner = bitbucketServerMatch[1];
+      const repo = bitbucketServerMatch[2];
+
+      logger.debug(`Parsed Bitbucket Server URL: ${url.href} -> ${owner}/${repo}`);
+
+      return {
+        owner,
+        repo,
+        url: url.href,
+        platform: 'auto' // Platform detection is handled by the factory
+      };
+    }
+
+    // Extract owner/repo from path. Nested owners (GitLab group/subgroup) are only read from GitLab URLs:
+    // paths with a "/-/" suffix (e.g. /-/tree/main), gitlab hosts and clone URLs ending in .git. Elsewhere
+    // only the first two segments count, so browse URLs like /owner/repo/tree/main or /owner/repo/src/... work.
+    const separatorIndex = allParts.indexOf('-');
+    const nested =
+      repoType === 'gitlab' ||
+      separatorIndex >= 0 ||
+      /(^|\.)gitlab\./i.test(url.hostname) ||
+      /\.git$/.test(allParts[allParts.length - 1] || '');
+    const pathParts = separatorIndex >= 0 ? allParts.slice(0, separatorIndex) : nested ? allParts : allParts.slice(0, 2);
     if (pathParts.length >= 2) {
-      const owner = pathParts[0];
-      const repo = pathParts[1].replace(/\.git$/, '');
+      const owner = pathParts.slice(0, -1).join('/');
+      const repo = pathParts[pathParts.length - 1].replace(/\.git$/, '');
 
       logger.debug(`Parsed URL: ${url.href} -> ${owner}/${repo}`);
 
@@ -35,17 +124,35 @@ export function parseRepository(
         platform: 'auto' // Platform detection is handled by the factory
       };
     }
+
+    // A single path segment is a top-level Gerrit or CodeCommit project, which has no owner
+    const bareProject =
+      repoType === 'gerrit' || repoType === 'codecommit' || (repoType === 'auto' && !OWNER_REPO_HOST.test(url.hostname));
+    if (pathParts.length === 1 && bareProject) {
+      const repo = pathParts[0].replace(/\.git$/, '');
+
+      logger.debug(`Parsed URL: ${url.href} -> ${repo}`);
+
+      return {
+        owner: '',
+        repo,
+        url: url.href,
+        platform: 'auto' // Platform detection is handled by the factory
+      };
+    }
   } catch {
     // Not a URL, try owner/repo format
   }
 
-  // Try owner/repo format (e.g., "owner/repo")
+  // Try owner/repo format (e.g., "owner/repo" or "group/subgroup/repo")
   const parts = repository.split('/');
-  if (parts.length === 2) {
-    logger.debug(`Parsed as owner/repo format: ${parts[0]}/${parts[1]}`);
+  if (parts.length >= 2 && parts.every(p => p)) {
+    const owner = parts.slice(0, -1).join('/');
+    const repo = parts[parts.length - 1];
+    logger.debug(`Parsed as owner/repo format: ${owner}/${repo}`);
     return {
-      owner: parts[0],
-      repo: parts[1],
+      owner,
+      repo,
       platform: 'auto' // Platform detection is handled by the factory
     };
   }
@@ -58,7 +165,8 @@ export function parseRepository(
  * Get repository info from local Git repository
  */
 export async function getLocalRepositoryInfo(
-  logger: Logger
+  logger: Logger,
+  repoType: RepoType = 'auto'
 ): Promise<RepositoryInfo | undefined> {
   const gitPath = await io.which('git', true);
   if (!gitPath) {
@@ -99,7 +207,7 @@ export async function getLocalRepositoryInfo(
 
     // If we have a remote URL, parse it
     if (remoteUrl) {
-      const parsed = parseRepository(remoteUrl, logger);
+      const parsed = parseRepository(remoteUrl, logger, repoType);
       if (parsed) {
         return parsed;
       }
@@ -125,22 +233,31 @@ export async function getRepositoryInfo(
 
   // Try to parse provided repository
   if (repository) {
-    repoInfo = parseRepository(repository, logger);
+    repoInfo = parseRepository(repository, logger, repoType);
   }
 
   // If not provided or couldn't parse, try local repository
   if (!repoInfo) {
-    repoInfo = await getLocalRepositoryInfo(logger);
+    repoInfo = await getLocalRepositoryInfo(logger, repoType);
   }
 
   // If still no info, try environment variables as fallback
   if (!repoInfo) {
-    // Check Gitea first (since Gitea Actions sets GITHUB_REPOSITORY for compatibility)
+    // Check Forgejo and Gitea first (since their Actions set GITHUB_REPOSITORY for compatibility)
+    const forgejoRepo = process.env.FORGEJO_REPOSITORY;
     const giteaRepo = process.env.GITEA_REPOSITORY;
     const giteaServerUrl = process.env.GITEA_SERVER_URL || process.env.GITEA_API_URL;
     const githubServerUrl = process.env.GITHUB_SERVER_URL;
     
-    if (giteaRepo) {
+    if (forgejoRepo) {
+      const [owner, repo] = forgejoRepo.split('/');
+      repoInfo = {
+        owner,
+        repo,
+        platform: 'auto' // Platform detection is handled by the factory
+      };
+      logger.debug(`Using FORGEJO_REPOSITORY: ${owner}/${repo}`);
+    } else if (giteaRepo) {
       const [owner, repo] = giteaRepo.split('/');
       repoInfo = {
         owner,
@@ -160,6 +277,14 @@ export async function getRepositoryInfo(
         };
         logger.debug(`Using GITHUB_REPOSITORY with Gitea server URL: ${owner}/${repo}`);
       }
+    } else if (process.env.BUILD_REPOSITORY_URI) {
+      // Azure Pipelines: full repository URL ({organization}/{project}/_git/{repo})
+      repoInfo = parseRepository(process.env.BUILD_REPOSITORY_URI, logger);
+      logger.debug(`Using BUILD_REPOSITORY_URI: ${process.env.BUILD_REPOSITORY_URI}`);
+    } else if (process.env.CI_PROJECT_PATH) {
+      // GitLab CI: project path may include nested groups (group/subgroup/repo)
+      repoInfo = parseRepository(process.env.CI_PROJECT_URL || process.env.CI_PROJECT_PATH, logger, 'gitlab');
+      logger.debug(`Using CI_PROJECT_PATH: ${process.env.CI_PROJECT_PATH}`);
     } else if (process.env.GITHUB_REPOSITORY) {
       const [owner, repo] = process.env.GITHUB_REPOSITORY.split('/');
       repoInfo = {
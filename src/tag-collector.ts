@@ -0,0 +1,46 @@
+import { ListTagsOptions, TagSummary } from './types';
+
+/**
+ * Convert a tag glob (`*` and `?`) to a regular expression matching the whole tag name
+ */
+export function tagPatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Collects tags matching a pattern across result pages until the limit is reached
+ */
+export class TagCollector {
+  readonly tags: TagSummary[] = [];
+  private pattern?: RegExp;
+  private limit?: number;
+
+  constructor(options: ListTagsOptions = {}) {
+    this.pattern = options.pattern ? tagPatternToRegExp(options.pattern) : undefined;
+    this.limit = options.limit;
+  }
+
+  /**
+   * Whether the limit has been reached; callers stop fetching pages once it is
+   */
+  get full(): boolean {
+    return this.limit !== undefined && this.tags.length >= this.limit;
+  }
+
+  /**
+   * Add a tag if it matches the pattern and there is room left
+   */
+  add(tag: TagSummary): void {
+    if (!this.full && (!this.pattern || this.pattern.test(tag.tagName))) {
+      this.tags.push(tag);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { PlatformAPI } from './types';
+import { Logger } from './logger';
+
+/**
+ * A tag that was deleted, with the commit it pointed to when the platform reported it
+ */
+export interface DeletedTag {
+  tagName: string;
+  commitSha?: string;
+}
+
+/**
+ * Raised when fail_if_missing is set and a tag name or pattern matches no tag; nothing has been deleted
+ */
+export class TagNotFoundError extends Error {
+  readonly missing: string[];
+
+  constructor(missing: string[]) {
+    super(`No tag matches ${missing.join(', ')}; nothing was deleted (fail_if_missing)`);
+    this.name = 'TagNotFoundError';
+    this.missing = missing;
+  }
+}
+
+/**
+ * Whether a delete target is a glob (`*` and `?` cannot appear in tag names, so there is no ambiguity)
+ */
+export function isTagPattern(target: string): boolean {
+  return /[*?]/.test(target);
+}
+
+/**
+ * Delete tags by exact name or `*`/`?` glob
+ *
+ * Every target is resolved before anything is deleted, so fail_if_missing fails the run without deleting
+ * the tags that do exist. A tag matched by several targets is deleted once.
+ */
+export async function deleteTags(
+  api: Pick<PlatformAPI, 'tagExists' | 'getTag' | 'listTags' | 'deleteTag'>,
+  targets: string[],
+  failIfMissing: boolean,
+  logger: Logger
+): Promise<DeletedTag[]> {
+  const found = new Map<string, DeletedTag>();
+  const missing: string[] = [];
+
+  for (const target of targets) {
+    if (isTagPattern(target)) {
+      const matches = await api.listTags({ pattern: target });
+      logger.debug(`Pattern ${target} matches ${matches.length} tag(s)`);
+      if (matches.length === 0) {
+        missing.push(target);
+      }
+      for (const tag of matches) {
+        found.set(tag.tagName, { tagName: tag.tagName, commitSha: tag.commitSha });
+      }
+      continue;
+    }
+
+    const existing = await api.getTag(target);
+    if (existing) {
+      found.set(target, { tagName: target, commitSha: existing.commitSha });
+    } else if (await api.tagExists(target)) {
+      // The platform cannot read tag details, so the previous commit is unknown
+      found.set(target, { tagName: target });
+    } else {
+      missing.push(target);
+    }
+  }
+
+  if (missing.length > 0) {
+    if (failIfMissing) {
+      throw new TagNotFoundError(missing);
+    }
+    logger.info(`No tag matches ${missing.join(', ')}; nothing to delete for it`);
+  }
+
+  const deleted: DeletedTag[] = [];
+  for (const tag of found.values()) {
+    logger.info(`Deleting tag ${tag.tagName}${tag.commitSha ? ` (was ${tag.commitSha})` : ''}`);
+    await api.deleteTag(tag.tagName);
+    deleted.push(tag);
+  }
+  return deleted;
+}
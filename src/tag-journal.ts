@@ -0,0 +1,77 @@
+import { PlatformAPI, TagInfo } from './types';
+import { Logger } from './logger';
+
+/**
+ * Raised when recreating a tag failed and the previous tag was put back
+ */
+export class TagRestoredError extends Error {
+  readonly restored: TagInfo;
+
+  constructor(restored: TagInfo, cause: unknown) {
+    super(
+      `Failed to recreate tag ${restored.tagName}; restored it at ${restored.commitSha}: ${cause instanceof Error ? cause.message : cause}`
+    );
+    this.name = 'TagRestoredError';
+    this.restored = restored;
+  }
+}
+
+/**
+ * Compensating journal for platforms that can only move a tag by deleting and recreating it
+ *
+ * The tag is read before it is deleted; if recreating it fails, the previous target (and
+ * message, for annotated tags) is recreated and a TagRestoredError is thrown. The restored
+ * tag is a new tag object, so its tagger and date are those of the restore.
+ */
+export class TagJournal {
+  private api: Pick<PlatformAPI, 'getTag' | 'deleteTag' | 'createTag'>;
+  private logger: Logger;
+  private previous?: TagInfo;
+
+  constructor(api: Pick<PlatformAPI, 'getTag' | 'deleteTag' | 'createTag'>, logger: Logger) {
+    this.api = api;
+    this.logger = logger;
+  }
+
+  /**
+   * Record the tag's current state, then delete it
+   */
+  async delete(tagName: string): Promise<void> {
+    this.previous = await this.api.getTag(tagName);
+    if (this.previous) {
+      this.logger.debug(`Recorded ${tagName} at ${this.previous.commitSha} (${this.previous.type}) before deleting it`);
+    }
+    await this.api.deleteTag(tagName);
+  }
+
+  /**
+   * Recreate the tag, restoring the recorded state if that fails
+   */
+  async recreate<T>(create: () => Promise<T>): Promise<T> {
+    try {
+      return await create();
+    } catch (error) {
+      const previous = this.previous;
+      if (!previous) {
+        throw error;
+      }
+
+      this.logger.warning(`Recreating tag ${previous.tagName} failed, restoring it at ${previous.commitSha}: ${error}`);
+      try {
+        await this.api.createTag({
+          tagName: previous.tagName,
+          sha: previous.commitSha,
+          message: previous.type === 'annotated' ? previous.message : undefined,
+          gpgSign: false,
+          force: false,
+          verbose: false
+        });
+      } catch (restoreError) {
+        throw new Error(
+          `Failed to recreate tag ${previous.tagName} (${error instanceof Error ? error.message : error}) and to restore it at ${previous.commitSha} (${restoreError instanceof Error ? restoreError.message : restoreError})`
+        );
+      }
+      throw new TagRestoredError(previous, error);
+    }
+  }
+}
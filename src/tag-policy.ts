@@ -0,0 +1,82 @@
+import { OnExists, PlatformAPI, TagInfo, TagOptions, TagResult } from './types';
+import { Logger } from './logger';
+import { describeExistingTag, tagMatches } from './tag-result';
+
+/**
+ * Raised when the tag already exists and on_exists is fail
+ */
+export class TagExistsError extends Error {
+  readonly existing?: TagInfo;
+
+  constructor(tagName: string, existing?: TagInfo) {
+    super(`Tag ${tagName} already exists${existing ? ` at ${existing.commitSha}` : ''} and on_exists is fail`);
+    this.name = 'TagExistsError';
+    this.existing = existing;
+  }
+}
+
+/**
+ * Result for an existing tag that is left alone
+ */
+function keptResult(existing: TagInfo, options: TagOptions, unchanged: boolean): TagResult {
+  return {
+    tagName: options.tagName,
+    sha: options.sha,
+    ...describeExistingTag(existing),
+    exists: true,
+    created: false,
+    updated: false,
+    unchanged
+  };
+}
+
+/**
+ * Create the tag, or apply the on_exists policy when it already exists
+ *
+ * This is the one place that decides what happens to an existing tag, for the Git CLI and every platform:
+ * createTag is only called for a missing tag (or, when the platform cannot read tag details, to report an
+ * existing one without touching it), and updateTag is only called when the tag should be written again.
+ * A tag that already matches the request is left alone unless on_exists is update.
+ */
+export async function applyTag(
+  api: Pick<PlatformAPI, 'tagExists' | 'getTag' | 'createTag' | 'updateTag'>,
+  options: TagOptions,
+  onExists: OnExists,
+  logger: Logger
+): Promise<TagResult> {
+  const { tagName } = options;
+
+  if (!(await api.tagExists(tagName))) {
+    logger.info(`Creating new tag: ${tagName}`);
+    return api.createTag({ ...options, force: false });
+  }
+
+  const existing = await api.getTag(tagName);
+  if (existing && onExists !== 'update' && tagMatches(existing, options)) {
+    // Rewriting it would only churn the ref and re-trigger tag workflows
+    logger.info(`Tag ${tagName} already points at ${existing.commitSha} with the requested type and message; leaving it unchanged`);
+    return keptResult(existing, options, true);
+  }
+
+  switch (onExists) {
+    case 'fail':
+      throw new TagExistsError(tagName, existing);
+    case 'update':
+    case 'update-if-different': {
+      logger.info(`Updating existing tag: ${tagName}`);
+      const result = await api.updateTag({ ...options, force: true });
+      // Plugins do not always flag the rewrite, but an existing tag that was written again has been updated
+      return { ...result, exists: true, updated: true };
+    }
+    case 'skip':
+    case 'warn': {
+      const note = `Tag ${tagName} already exists${existing ? ` at ${existing.commitSha}` : ''}; leaving it as it is (on_exists: ${onExists})`;
+      if (onExists === 'warn') {
+        logger.warning(note);
+      } else {
+        logger.info(note);
+      }
+      return existing ? keptResult(existing, options, false) : api.createTag({ ...options, force: false });
+    }
+  }
+}
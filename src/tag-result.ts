@@ -0,0 +1,58 @@
+import { PlatformAPI, TagInfo, TagOptions, TagResult } from './types';
+
+/**
+ * Object SHA, peeled commit SHA and type of a tag that already exists
+ */
+export function describeExistingTag(tag: TagInfo): Pick<TagResult, 'objectSha' | 'commitSha' | 'type'> {
+  return { objectSha: tag.refSha, commitSha: tag.commitSha, type: tag.type };
+}
+
+/**
+ * Object SHA, peeled commit SHA and type of a tag that was just created at sha
+ * Lightweight tags point at the commit itself; annotated tags are read back to learn the tag object SHA.
+ */
+export async function describeCreatedTag(
+  api: Pick<PlatformAPI, 'getTag'>,
+  tagName: string,
+  sha: string,
+  annotated: boolean
+): Promise<Pick<TagResult, 'objectSha' | 'commitSha' | 'type'>> {
+  if (!annotated) {
+    return { objectSha: sha, commitSha: sha, type: 'lightweight' };
+  }
+  const tag = await api.getTag(tagName);
+  return tag ? describeExistingTag(tag) : { objectSha: sha, commitSha: sha, type: 'annotated' };
+}
+
+/**
+ * Normalize a tag message the way git stores it: no trailing whitespace on lines, no leading or trailing
+ * blank lines and no runs of blank lines, so a message read back from a platform compares equal to the input
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+/**
+ * Whether an existing tag is already what the options would create: the same commit, the same type,
+ * and for annotated tags the same message and signed or unsigned as requested
+ * Tagger and date are not compared, so a re-run with a new date leaves a matching tag alone.
+ */
+export function tagMatches(existing: TagInfo, options: Pick<TagOptions, 'sha' | 'message' | 'gpgSign'>): boolean {
+  if (!options.sha || existing.commitSha.toLowerCase() !== options.sha.toLowerCase()) {
+    return false;
+  }
+  if (options.message === undefined) {
+    return existing.type === 'lightweight';
+  }
+  return (
+    existing.type === 'annotated' &&
+    existing.message !== undefined &&
+    normalizeMessage(existing.message) === normalizeMessage(options.message) &&
+    !!existing.signature === !!options.gpgSign
+  );
+}
@@ -1,33 +1,63 @@
 /**
  * Supported repository/platform types
  */
-export type RepoType = 'github' | 'gitea' | 'bitbucket' | 'generic' | 'git' | 'auto';
+export type RepoType = 'github' | 'gitea' | 'forgejo' | 'gogs' | 'gitee' | 'gitlab' | 'azure-devops' | 'bitbucket' | 'bitbucket-server' | 'gerrit' | 'codecommit' | 'generic' | 'git' | 'auto';
 
 /**
  * Tag type (determined by presence of message)
  */
 export type TagType = 'annotated' | 'lightweight';
 
+/**
+ * What to do when the tag already exists (on_exists)
+ * - skip: leave it as it is
+ * - fail: fail the run, unless the tag already matches the request
+ * - update: always write the tag again
+ * - update-if-different: write it again only when its commit, type, message or signing differ
+ * - warn: like skip, with a warning
+ */
+export type OnExists = 'skip' | 'fail' | 'update' | 'update-if-different' | 'warn';
+
+/**
+ * What the action does with tag_name (operation)
+ */
+export type TagOperation = 'create' | 'delete';
+
 /**
  * Action inputs
  */
 export interface ActionInputs {
+  operation: TagOperation;
   tagName: string;
+  /** Tag names and `*`/`?` globs to delete, one per tag_name line (operation: delete) */
+  deleteTargets?: string[];
+  /** Fail a delete when a name or glob matches no tag (fail_if_missing) */
+  failIfMissing: boolean;
   tagMessage?: string;
+  /** Regular expression tag_name must match (tag_name_pattern) */
+  tagNamePattern?: string;
   tagSha?: string;
+  tagRef?: string;
   repository?: string;
   token?: string;
+  onExists: OnExists;
+  /** @deprecated update_existing, an alias for on_exists: update-if-different */
   updateExisting: boolean;
   gpgSign: boolean;
   gpgKeyId?: string;
   repoType: RepoType;
   baseUrl?: string;
   ignoreCertErrors: boolean;
+  /** @deprecated force, an alias for on_exists: update */
   force: boolean;
   verbose: boolean;
   pushTag: boolean;
   gitUserName?: string;
   gitUserEmail?: string;
+  /** ISO 8601 date for annotated tags, from tag_date or SOURCE_DATE_EPOCH */
+  tagDate?: string;
+  platformPlugin?: string;
+  strictCapabilities: boolean;
 }
 
 /**
@@ -75,8 +105,8 @@ export interface TagOptions {
   gpgKeyId?: string;
   force: boolean;
   verbose: boolean;
-  gitUserName?: string;
-  gitUserEmail?: string;
+  /** Tagger for annotated tags; unset fields fall back to the Git config or the Actions environment */
+  tagger?: Partial<GitIdentity>;
 }
 
 /**
@@ -84,10 +114,66 @@ export interface TagOptions {
  */
 export interface TagResult {
   tagName: string;
+  /** Commit the tag was requested for */
   sha: string;
+  /** Object the tag ref points to: the tag object for annotated tags, the commit for lightweight tags */
+  objectSha: string;
+  /** Commit the tag resolves to once tag objects (including tags of tags) are peeled */
+  commitSha: string;
   exists: boolean;
   created: boolean;
   updated: boolean;
+  /** The tag already matched the request (commit, type, message, signature), so nothing was written */
+  unchanged?: boolean;
+  type: 'annotated' | 'lightweight';
+}
+
+/**
+ * Name, email and date of a tagger
+ */
+export interface GitIdentity {
+  name: string;
+  email: string;
+  /** ISO 8601 date */
+  date?: string;
+}
+
+/**
+ * An existing tag as read from the platform
+ */
+export interface TagInfo {
+  tagName: string;
+  /**
+   * SHA the tag ref points to: the tag object for annotated tags, the commit for lightweight tags
+   * (platforms that do not expose tag objects, such as Bitbucket Cloud and Gitee, report the commit)
+   */
+  refSha: string;
+  /** Commit the tag resolves to once every tag object is peeled */
+  commitSha: string;
+  type: 'annotated' | 'lightweight';
+  message?: string;
+  tagger?: GitIdentity;
+  /** ASCII-armored signature block of a signed tag */
+  signature?: string;
+}
+
+/**
+ * One entry of a tag listing, normalized across platforms
+ */
+export interface TagSummary {
+  tagName: string;
+  /** Commit the tag points to (peeled for annotated tags) */
+  commitSha: string;
+}
+
+/**
+ * Options for listing tags
+ */
+export interface ListTagsOptions {
+  /** Glob matched against the whole tag name: `*` matches any run of characters, `?` a single character */
+  pattern?: string;
+  /** Stop after this many matching tags */
+  limit?: number;
 }
 
 /**
@@ -99,6 +185,16 @@ export interface PlatformAPI {
    */
   tagExists(tagName: string): Promise<boolean>;
 
+  /**
+   * Get an existing tag by exact name, or undefined when there is no such tag
+   */
+  getTag(tagName: string): Promise<TagInfo | undefined>;
+
+  /**
+   * List tags, following the platform's pagination until the limit is reached
+   */
+  listTags(options?: ListTagsOptions): Promise<TagSummary[]>;
+
   /**
    * Create a new tag
    */
@@ -118,6 +214,60 @@ export interface PlatformAPI {
    * Get the HEAD SHA from the default branch of the remote repository
    */
   getHeadSha(): Promise<string>;
+
+  /**
+   * Expand a (possibly abbreviated) SHA to the full SHA of the commit it names
+   * Throws a CommitNotFoundError when the object does not exist or is not a commit
+   */
+  resolveCommit(sha: string): Promise<string>;
+
+  /**
+   * Resolve a branch name, tag name or refs/heads/ / refs/tags/ ref to the commit it points to
+   * A bare name is looked up as a tag first, then as a branch, like git rev-parse
+   */
+  resolveRef(ref: string): Promise<string>;
+}
+
+/**
+ * What a platform can do with the tag inputs; run() warns about (or, with strict_capabilities, rejects)
+ * inputs a platform would otherwise silently ignore
+ */
+export interface PlatformCapabilities {
+  /** Creates annotated tags carrying tag_message */
+  annotated: boolean;
+  /** Creates lightweight tags when tag_message is omitted */
+  lightweight: boolean;
+  /** Honours gpg_sign */
+  signing: boolean;
+  /** Honours git_user_name / git_user_email as the tagger */
+  tagger: boolean;
+  /** Moves an existing tag in one step instead of deleting and recreating it */
+  atomicUpdate: boolean;
+  /** Has a releases API */
+  releases: boolean;
+  /** Honours push_tag: false (the tag can be created without publishing it) */
+  skipPush: boolean;
+}
+
+/**
+ * How the HTTP client attaches the token to requests
+ * - token: `Authorization: token <token>` (GitHub, Gitea)
+ * - bearer: `Authorization: Bearer <token>`
+ * - private-token: `PRIVATE-TOKEN: <token>` (GitLab personal/project access tokens)
+ * - job-token: `JOB-TOKEN: <token>` (GitLab CI job tokens)
+ * - basic: `Authorization: Basic <base64>`; a bare token is sent as a PAT with an empty user name
+ * - query: `?access_token=<token>` appended to the request URL (Gitee; parameter name set by authQueryParam)
+ * - header: custom header named authHeaderName with authHeaderFormat, where {token} is replaced (declarative platforms)
+ */
+export type HttpAuthScheme = 'token' | 'bearer' | 'private-token' | 'job-token' | 'basic' | 'query' | 'header';
+
+/**
+ * HTTP response with status and headers, for callers that need more than the body
+ */
+export interface HttpResponse<T> {
+  status: number;
+  headers: Headers;
+  body: T;
 }
 
 /**
@@ -126,6 +276,10 @@ export interface PlatformAPI {
 export interface HttpClientOptions {
   baseUrl: string;
   token?: string;
+  authScheme?: HttpAuthScheme;
+  authHeaderName?: string;
+  authHeaderFormat?: string;
+  authQueryParam?: string;
   ignoreCertErrors: boolean;
   verbose: boolean;
 }